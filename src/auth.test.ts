@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { matchCallerToken } from "./auth.js";
+import type { AthenaServerConfig } from "./config.js";
+import { AthenaRuntime } from "./runtime.js";
+
+function httpConfig(overrides: Partial<AthenaServerConfig> = {}): AthenaServerConfig {
+  return {
+    adminExperimentalEnabled: false,
+    apiKey: "server-key",
+    authTokens: [
+      { name: "ops", token: "ops-token" },
+      {
+        clients: ["analytics"],
+        name: "analyst",
+        readOnly: true,
+        token: "analyst-token",
+        tools: ["list_tables", "execute_sql"],
+      },
+    ],
+    availableClients: ["primary", "analytics"],
+    baseUrl: "https://athena.example.com",
+    baseUrls: ["https://athena.example.com"],
+    circuitFailureThreshold: 5,
+    circuitResetMs: 30_000,
+    clientConnections: {},
+    confirmTools: [],
+    defaultClient: "primary",
+    httpAllowedHosts: [],
+    httpHost: "127.0.0.1",
+    httpPort: 8787,
+    httpSessionIdleMs: 0,
+    maxConcurrency: 8,
+    maxRetries: 0,
+    maskColumns: [],
+    maskDetectors: [],
+    maxResultBytes: 0,
+    maxResultRows: 0,
+    policies: {},
+    readOnly: false,
+    requestTimeoutMs: 30_000,
+    retryBaseDelayMs: 1,
+    schemaCacheTtlMs: 0,
+    transport: "http",
+    ...overrides,
+  };
+}
+
+describe("matchCallerToken", () => {
+  it("finds the configured caller for a token", () => {
+    const config = httpConfig();
+    expect(matchCallerToken(config.authTokens, "analyst-token")?.name).toBe("analyst");
+    expect(matchCallerToken(config.authTokens, "nope")).toBeUndefined();
+  });
+});
+
+describe("AthenaRuntime caller checks", () => {
+  it("requires a token over HTTP once auth_tokens are configured", () => {
+    const runtime = new AthenaRuntime(httpConfig());
+    expect(() => runtime.resolveCaller(undefined)).toThrow("bearer token is required");
+    expect(() =>
+      runtime.resolveCaller({ clientId: "x", scopes: [], token: "revoked" }),
+    ).toThrow("not recognised");
+  });
+
+  it("treats stdio calls as the server itself", () => {
+    const runtime = new AthenaRuntime(httpConfig({ transport: "stdio" }));
+    expect(runtime.resolveCaller(undefined)).toBeUndefined();
+  });
+
+  it("restricts clients, tools and read-only per caller", () => {
+    const runtime = new AthenaRuntime(httpConfig());
+    const analyst = runtime.resolveCaller({ clientId: "analyst", scopes: [], token: "analyst-token" });
+
+    expect(runtime.resolveClientName(undefined, analyst)).toBe("analytics");
+    expect(() => runtime.resolveClientName("primary", analyst)).toThrow(
+      'Athena client "primary" is not allowed for caller "analyst"',
+    );
+    expect(runtime.isReadOnly(analyst)).toBe(true);
+    expect(() => runtime.assertToolAllowed("drop_table", analyst)).toThrow(
+      'Tool "drop_table" is not allowed for caller "analyst"',
+    );
+    expect(() => runtime.assertToolAllowed("list_tables", analyst)).not.toThrow();
+
+    const ops = runtime.resolveCaller({ clientId: "ops", scopes: [], token: "ops-token" });
+    expect(runtime.resolveClientName("primary", ops)).toBe("primary");
+    expect(runtime.isReadOnly(ops)).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { CallerTokenConfig } from "./config.js";
+
+/**
+ * Identity of an authenticated HTTP caller, resolved from its bearer token.
+ * `clients` and `tools` are undefined when the token is not restricted.
+ */
+export interface CallerIdentity {
+  clients?: string[];
+  name: string;
+  readOnly: boolean;
+  tools?: string[];
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value, "utf8").digest();
+}
+
+/** Find the configured caller for a presented token using a constant-time comparison. */
+export function matchCallerToken(
+  tokens: CallerTokenConfig[],
+  presented: string,
+): CallerTokenConfig | undefined {
+  const presentedDigest = digest(presented);
+  let match: CallerTokenConfig | undefined;
+  for (const entry of tokens) {
+    // Compare against every entry so timing does not reveal the match position.
+    if (timingSafeEqual(digest(entry.token), presentedDigest) && !match) {
+      match = entry;
+    }
+  }
+  return match;
+}
+
+export function toCallerIdentity(entry: CallerTokenConfig): CallerIdentity {
+  return {
+    clients: entry.clients,
+    name: entry.name,
+    readOnly: entry.readOnly ?? false,
+    tools: entry.tools,
+  };
+}
+
+export function readBearerToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) return undefined;
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+export function toAuthInfo(token: string, entry: CallerTokenConfig): AuthInfo {
+  return {
+    clientId: entry.name,
+    scopes: [],
+    token,
+  };
+}
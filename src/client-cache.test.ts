@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from "vitest";
+import { ClientCache } from "./client-cache.js";
+
+describe("ClientCache", () => {
+  it("shares loads within the TTL and reloads after it", async () => {
+    let now = 0;
+    const cache = new ClientCache<string[]>(1000, () => now);
+    const load = vi.fn(async () => ["users"]);
+
+    await Promise.all([cache.get("primary", "tables", load), cache.get("primary", "tables", load)]);
+    await cache.get("analytics", "tables", load);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    now = 1000;
+    await cache.get("primary", "tables", load);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not keep failed loads and drops a client's entries on invalidate", async () => {
+    const cache = new ClientCache<string[]>(1000, () => 0);
+    await expect(cache.get("primary", "tables", async () => Promise.reject(new Error("down")))).rejects.toThrow("down");
+    expect(await cache.get("primary", "tables", async () => ["users"])).toEqual(["users"]);
+
+    cache.invalidate("primary");
+    expect(await cache.get("primary", "tables", async () => ["orders"])).toEqual(["orders"]);
+  });
+});
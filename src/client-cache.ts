@@ -0,0 +1,59 @@
+/**
+ * Short-lived per-client cache for metadata that is read often and changes
+ * rarely (schema metadata, completion candidates). Loads are shared: callers
+ * that ask for a key while it is loading get the same promise. A failed load
+ * is not cached.
+ */
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: Promise<T>;
+}
+
+export class ClientCache<T> {
+  private readonly clients = new Map<string, Map<string, CacheEntry<T>>>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Cached value of `key` for `client`, or the result of `load` (then cached for the TTL). */
+  public get(client: string, key: string, load: () => Promise<T>): Promise<T> {
+    const entries = this.clients.get(client) ?? new Map<string, CacheEntry<T>>();
+    this.clients.set(client, entries);
+    const now = this.now();
+    const cached = entries.get(key);
+    if (cached && cached.expiresAt > now) return cached.value;
+
+    for (const [stale, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(stale);
+    }
+    const value = load();
+    entries.set(key, { expiresAt: now + this.ttlMs, value });
+    value.catch(() => {
+      if (entries.get(key)?.value === value) entries.delete(key);
+    });
+    return value;
+  }
+
+  /** Keys cached for `client` that have not expired, with their expiry time. */
+  public entries(client: string): Array<{ expiresAt: number; key: string }> {
+    const now = this.now();
+    return [...(this.clients.get(client) ?? new Map<string, CacheEntry<T>>())]
+      .filter(([, entry]) => entry.expiresAt > now)
+      .map(([key, entry]) => ({ expiresAt: entry.expiresAt, key }))
+      .sort((left, right) => left.key.localeCompare(right.key));
+  }
+
+  /** Drop everything cached for `client`, or for every client; returns how many entries were dropped. */
+  public invalidate(client?: string): number {
+    const targets = client === undefined ? [...this.clients.keys()] : [client];
+    let dropped = 0;
+    for (const name of targets) {
+      dropped += this.clients.get(name)?.size ?? 0;
+      this.clients.delete(name);
+    }
+    return dropped;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { CircuitBreaker, ConcurrencyLimiter } from "./client-limits.js";
+
+describe("CircuitBreaker", () => {
+  it("opens after the threshold, fails fast, then lets one trial through", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker("primary", 2, 1_000, () => now);
+
+    breaker.recordFailure("ECONNREFUSED");
+    breaker.assertCanRequest();
+    breaker.recordFailure("ECONNREFUSED");
+    expect(breaker.snapshot().state).toBe("open");
+    expect(() => breaker.assertCanRequest()).toThrow(/Circuit open for Athena client "primary".*retrying in 1 s/);
+
+    now = 1_000;
+    breaker.assertCanRequest();
+    expect(breaker.snapshot().state).toBe("half_open");
+    expect(() => breaker.assertCanRequest()).toThrow(/while a trial request runs/);
+
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toMatchObject({ consecutiveFailures: 0, state: "closed" });
+  });
+
+  it("re-opens when the half-open trial fails", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker("primary", 1, 500, () => now);
+    breaker.recordFailure("HTTP 503");
+    now = 500;
+    breaker.assertCanRequest();
+    breaker.recordFailure("HTTP 503");
+
+    expect(breaker.snapshot()).toMatchObject({ retryAt: new Date(1_000).toISOString(), state: "open" });
+  });
+
+  it("never opens with a threshold of 0", () => {
+    const breaker = new CircuitBreaker("primary", 0, 500);
+    for (let i = 0; i < 10; i += 1) breaker.recordFailure("HTTP 503");
+    expect(() => breaker.assertCanRequest()).not.toThrow();
+  });
+});
+
+describe("ConcurrencyLimiter", () => {
+  it("queues past the limit and hands slots over in order", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const release = await limiter.acquire();
+    const order: number[] = [];
+    const second = limiter.acquire().then((next) => {
+      order.push(2);
+      return next;
+    });
+    const third = limiter.acquire().then((next) => {
+      order.push(3);
+      return next;
+    });
+    expect(limiter.snapshot()).toEqual({ active: 1, limit: 1, queued: 2 });
+
+    release();
+    (await second)();
+    (await third)();
+    expect(order).toEqual([2, 3]);
+    expect(limiter.snapshot()).toEqual({ active: 0, limit: 1, queued: 0 });
+  });
+
+  it("drops a queued waiter when its signal aborts", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await limiter.acquire();
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(new Error("cancelled"));
+
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(limiter.snapshot().queued).toBe(0);
+  });
+});
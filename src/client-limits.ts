@@ -0,0 +1,153 @@
+import { logger } from "./logger.js";
+
+export type CircuitState = "closed" | "half_open" | "open";
+
+export interface CircuitStatus {
+  consecutiveFailures: number;
+  failureThreshold: number;
+  lastError?: string;
+  /** ISO timestamp when the circuit last opened. */
+  openedAt?: string;
+  /** ISO timestamp when an open circuit lets a trial request through. */
+  retryAt?: string;
+  state: CircuitState;
+}
+
+export interface ConcurrencyStatus {
+  active: number;
+  /** 0 means unlimited. */
+  limit: number;
+  queued: number;
+}
+
+/**
+ * Per-client circuit breaker. After `failureThreshold` consecutive failures
+ * the circuit opens and requests fail fast for `resetMs`; then one trial
+ * request is let through (half-open) and its outcome closes or re-opens it.
+ * A threshold of 0 disables the breaker.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private lastError?: string;
+  private openedAt?: number;
+  private state: CircuitState = "closed";
+  private trialInFlight = false;
+
+  constructor(
+    private readonly clientName: string,
+    private readonly failureThreshold: number,
+    private readonly resetMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Throws when the circuit is open (or half-open with its trial request still running). */
+  public assertCanRequest(): void {
+    if (this.state === "open" && this.now() - (this.openedAt ?? 0) >= this.resetMs) {
+      this.state = "half_open";
+      this.trialInFlight = false;
+    }
+    if (this.state === "closed") return;
+    if (this.state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    const retryInMs = Math.max(0, (this.openedAt ?? 0) + this.resetMs - this.now());
+    throw new Error(
+      `Circuit open for Athena client "${this.clientName}" after ${this.consecutiveFailures} consecutive failure(s)` +
+        `${this.lastError ? ` (last: ${this.lastError})` : ""}; failing fast` +
+        (this.state === "open" ? `, retrying in ${Math.ceil(retryInMs / 1000)} s.` : " while a trial request runs."),
+    );
+  }
+
+  public recordSuccess(): void {
+    if (this.state !== "closed") {
+      logger.info("Athena circuit closed", { client: this.clientName }).catch(() => {});
+    }
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.state = "closed";
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(reason: string): void {
+    if (this.failureThreshold <= 0) return;
+    this.consecutiveFailures += 1;
+    this.lastError = reason;
+    this.trialInFlight = false;
+    if (this.state === "half_open" || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== "open") {
+        logger.warn("Athena circuit opened", {
+          client: this.clientName,
+          consecutiveFailures: this.consecutiveFailures,
+          error: reason,
+          resetMs: this.resetMs,
+        }).catch(() => {});
+      }
+      this.state = "open";
+      this.openedAt = this.now();
+    }
+  }
+
+  /** The trial request was cancelled before it had an outcome; let the next request try instead. */
+  public abandonTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  public snapshot(): CircuitStatus {
+    return {
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      lastError: this.lastError,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: this.state === "open" && this.openedAt !== undefined
+        ? new Date(this.openedAt + this.resetMs).toISOString()
+        : undefined,
+      state: this.state,
+    };
+  }
+}
+
+/** FIFO semaphore capping in-flight requests for one client (limit 0 = unlimited). */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  /** Wait for a slot; resolves to the release function. Rejects if `signal` aborts while queued. */
+  public acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.limit <= 0 || this.active < this.limit) {
+      this.active += 1;
+      return Promise.resolve(this.releaser());
+    }
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        this.active += 1;
+        resolve(this.releaser());
+      };
+      const onAbort = () => {
+        const index = this.waiters.indexOf(grant);
+        if (index >= 0) this.waiters.splice(index, 1);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(grant);
+    });
+  }
+
+  public snapshot(): ConcurrencyStatus {
+    return { active: this.active, limit: this.limit, queued: this.waiters.length };
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active -= 1;
+      this.waiters.shift()?.();
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CompleteRequestSchema,
+  PromptReferenceSchema,
+  ResourceTemplateReferenceSchema,
+  type CompleteResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { CallerIdentity } from "./auth.js";
+import { sanitizeIdentifier } from "./identifier.js";
+import { logger } from "./logger.js";
+import { parsePolicyTableRef } from "./policy.js";
+import { promptArgumentKind } from "./prompts.js";
+import { runWithRequestContext } from "./request-context.js";
+import type { AthenaRuntime } from "./runtime.js";
+import { readableColumns, readableTables } from "./schema-resources.js";
+import { getStorageModule, type StorageModule } from "./tools/storage-tools.js";
+
+/**
+ * `completion/complete` for arguments that name a client, schema, table,
+ * column, bucket or chat room, in prompts, the schema resource templates and
+ * tools. Candidates come from the same sources the tools use: the caller's
+ * client allowlist, `/schema/tables` and `/schema/columns` (filtered by the
+ * read policy), `storage.bucket.list` and the chat module's room list. Each
+ * source is checked like a call to the tool that reads it, then cached per
+ * client for a short TTL (`runtime.completionCache`).
+ *
+ * Tool arguments are addressed with `{ "type": "ref/tool", "name": <tool> }`,
+ * an extension next to the spec's prompt and resource references.
+ *
+ * The handler is installed directly rather than through the SDK's
+ * `completable()`, because completers registered that way do not see the
+ * request's auth info, and the candidates depend on who is asking.
+ */
+
+export type CompletionKind = "bucket" | "client" | "column" | "room" | "schema" | "table";
+
+/** Most values one completion result may carry (MCP spec). */
+const MAX_COMPLETION_VALUES = 100;
+/** Rooms read for completion. */
+const ROOM_LIST_LIMIT = 200;
+
+/** Tool arguments that name something, by argument name (the tools share their naming). */
+const TOOL_ARGUMENT_KINDS: Record<string, CompletionKind> = {
+  client: "client",
+  column: "column",
+  column_name: "column",
+  id_column: "column",
+  room_id: "room",
+  schema: "schema",
+  schema_name: "schema",
+  table: "table",
+  table_name: "table",
+  where_column: "column",
+};
+
+/** Variables of the `athena://` resource templates (schema-resources.ts). */
+const RESOURCE_ARGUMENT_KINDS: Record<string, CompletionKind> = {
+  client: "client",
+  schema: "schema",
+  table: "table",
+};
+
+/** The tool whose access a completion source is held to. */
+const SOURCE_TOOLS: Record<Exclude<CompletionKind, "client">, string> = {
+  bucket: "storage_bucket_list",
+  column: "get_columns_of_table",
+  room: "chat_list_rooms",
+  schema: "list_tables",
+  table: "list_tables",
+};
+
+const ToolReferenceSchema = z.object({ name: z.string(), type: z.literal("ref/tool") });
+
+/** `completion/complete` with tool references accepted as well. */
+const CompleteArgumentRequestSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([PromptReferenceSchema, ResourceTemplateReferenceSchema, ToolReferenceSchema]),
+  }),
+});
+
+type CompletionRef = z.infer<typeof CompleteArgumentRequestSchema>["params"]["ref"];
+
+function argumentKind(ref: CompletionRef, argument: string): CompletionKind | undefined {
+  if (ref.type === "ref/prompt") return promptArgumentKind(ref.name, argument);
+  if (ref.type === "ref/resource") return ref.uri.startsWith("athena://") ? RESOURCE_ARGUMENT_KINDS[argument] : undefined;
+  return Object.hasOwn(TOOL_ARGUMENT_KINDS, argument) ? TOOL_ARGUMENT_KINDS[argument] : undefined;
+}
+
+/** Names from a list result: a bare array or the array under `key`, of strings or of objects. */
+function listNames(result: unknown, key: string, fields: string[]): string[] {
+  const list = Array.isArray(result)
+    ? result
+    : result && typeof result === "object" && Array.isArray((result as Record<string, unknown>)[key])
+      ? ((result as Record<string, unknown>)[key] as unknown[])
+      : [];
+  return list
+    .map((item) => {
+      if (typeof item === "string") return item;
+      const record = (item ?? {}) as Record<string, unknown>;
+      const name = fields.map((field) => record[field]).find((value) => typeof value === "string");
+      return typeof name === "string" ? name : "";
+    })
+    .filter(Boolean);
+}
+
+/** Bucket names from a `storage.bucket.list` result (bare array or `{ buckets }`, names or objects). */
+export function bucketNames(result: unknown): string[] {
+  return listNames(result, "buckets", ["name", "bucket", "id"]);
+}
+
+/** Room slugs (IDs when a room has none) from a chat `room.list` result. */
+export function roomNames(result: unknown): string[] {
+  return listNames(result, "rooms", ["slug", "id", "room_id"]);
+}
+
+/** Values already given for the other arguments; tools and prompts name the table and schema differently. */
+function contextValue(context: Record<string, string>, ...names: string[]): string | undefined {
+  return names.map((name) => context[name]?.trim()).find(Boolean);
+}
+
+async function candidates(
+  runtime: AthenaRuntime,
+  kind: CompletionKind,
+  caller: CallerIdentity | undefined,
+  context: Record<string, string>,
+): Promise<string[]> {
+  if (kind === "client") return runtime.getAllowedClients(caller);
+  // Other arguments complete against the client chosen earlier in the form, or the default.
+  const client = runtime.resolveClientName(contextValue(context, "client"), caller);
+  runtime.assertToolAllowed(SOURCE_TOOLS[kind], caller);
+  runtime.assertToolPolicy(SOURCE_TOOLS[kind], client);
+  const cache = runtime.completionCache;
+  const schema = contextValue(context, "schema", "schema_name");
+
+  if (kind === "schema" || kind === "table") {
+    const tables = await cache.get(client, "tables", async () =>
+      (await readableTables(runtime, client)).map((ref) => `${ref.schema}.${ref.table}`),
+    );
+    if (kind === "schema") return tables.map((name) => name.slice(0, name.lastIndexOf(".")));
+    // With the schema given separately, offer bare names in it; otherwise names as the tools accept them.
+    if (schema) return tables.filter((name) => name.startsWith(`${schema}.`)).map((name) => name.slice(schema.length + 1));
+    return tables.map((name) => name.replace(/^public\./, ""));
+  }
+
+  if (kind === "column") {
+    const table = contextValue(context, "table", "table_name");
+    if (!table) return [];
+    const parsed = parsePolicyTableRef(table, schema);
+    const ref = { schema: sanitizeIdentifier(parsed.schema, "schema"), table: sanitizeIdentifier(parsed.table, "table") };
+    return cache.get(client, `columns:${ref.schema}.${ref.table}`, async () =>
+      (await readableColumns(runtime, client, ref)).map((column) => column.name),
+    );
+  }
+
+  if (kind === "room") {
+    return cache.get(client, "rooms", async () =>
+      roomNames(await runtime.performChat(client, "room", "list", { limit: ROOM_LIST_LIMIT })),
+    );
+  }
+
+  return cache.get(client, "buckets", async () =>
+    bucketNames(
+      await runtime.withClientLimits(client, () =>
+        getStorageModule(runtime, client).bucket.list({} as Parameters<StorageModule["bucket"]["list"]>[0]),
+      ),
+    ),
+  );
+}
+
+/**
+ * Candidates for `kind` that start with `value` (case-insensitive). A table
+ * also matches on its unqualified name, so `ord` finds `sales.orders`.
+ */
+export async function completeValues(
+  runtime: AthenaRuntime,
+  kind: CompletionKind,
+  value: string,
+  caller?: CallerIdentity,
+  context: Record<string, string> = {},
+): Promise<string[]> {
+  const prefix = value.toLowerCase();
+  const matches = (name: string) =>
+    name.toLowerCase().startsWith(prefix) ||
+    (kind === "table" && name.toLowerCase().split(".").pop()?.startsWith(prefix) === true);
+  return [...new Set(await candidates(runtime, kind, caller, context))].filter(matches).sort();
+}
+
+function completionResult(values: string[]): CompleteResult {
+  return {
+    completion: {
+      hasMore: values.length > MAX_COMPLETION_VALUES,
+      total: values.length,
+      values: values.slice(0, MAX_COMPLETION_VALUES),
+    },
+  };
+}
+
+export function registerCompletions(server: McpServer, runtime: AthenaRuntime): void {
+  server.server.registerCapabilities({ completions: {} });
+  server.server.setRequestHandler(CompleteArgumentRequestSchema, async (request, extra) => {
+    const { argument, context, ref } = request.params;
+    const kind = argumentKind(ref, argument.name);
+    if (!kind) return completionResult([]);
+    const caller = runtime.resolveCaller(extra.authInfo);
+    try {
+      return completionResult(
+        await runWithRequestContext({ signal: extra.signal }, () =>
+          completeValues(runtime, kind, argument.value, caller, context?.arguments),
+        ),
+      );
+    } catch (error) {
+      // Completion is a convenience: an unreachable client, a denied source or an unknown name just offers nothing.
+      logger.warn("Argument completion failed", { argument: argument.name, error: String(error), kind }).catch(() => {});
+      return completionResult([]);
+    }
+  });
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { configFileSchema, validateConfigFile } from "./config-schema.js";
+
+describe("validateConfigFile", () => {
+  it("accepts flat, nested and profile-based configs", () => {
+    expect(
+      validateConfigFile({
+        athena_base_url: "https://athena.example.com",
+        athena_api_key: "env:ATHENA_KEY",
+        athena_available_clients: ["primary", { name: "analytics", read_only: true }],
+        default_profile: "dev",
+        profiles: { dev: { read_only: false } },
+      }),
+    ).toEqual([]);
+    expect(validateConfigFile({ athena: { read_only: true, transport: "http" } })).toEqual([]);
+  });
+
+  it("reports type errors with their path and unknown keys as warnings", () => {
+    const issues = validateConfigFile({
+      athena: {
+        base_url: "https://athena.example.com",
+        http_port: "8080",
+        profiles: { prod: { read_only: "yes" } },
+      },
+    });
+
+    expect(issues).toContainEqual({
+      message: 'unknown key "base_url" is ignored (did you mean "athena_base_url"?)',
+      path: "athena.base_url",
+      severity: "warning",
+    });
+    expect(issues.filter((issue) => issue.severity === "error").map((issue) => issue.path).sort()).toEqual([
+      "athena.http_port",
+      "athena.profiles.prod.read_only",
+    ]);
+  });
+});
+
+describe("config.schema.json", () => {
+  it("matches the zod schema (run `vitest -u` to regenerate)", async () => {
+    const { $schema, ...generated } = z.toJSONSchema(configFileSchema, { io: "input" });
+    const jsonSchema = {
+      $schema,
+      $id: "https://unpkg.com/@xylex-group/athena-mcp/config.schema.json",
+      title: "Athena MCP configuration (~/.athena/config.yaml)",
+      ...generated,
+    };
+    await expect(`${JSON.stringify(jsonSchema, null, 2)}\n`).toMatchFileSnapshot("../config.schema.json");
+  });
+});
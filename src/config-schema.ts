@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { AthenaServerConfig, ConfigSources } from "./config.js";
+import { PII_DETECTORS } from "./masking.js";
+
+/**
+ * Schema for `~/.athena/config.yaml`. The JSON Schema published as
+ * `config.schema.json` is generated from this (see config-schema.test.ts), so
+ * editors that understand `yaml-language-server` can validate the file too.
+ */
+
+const portSchema = z.number().int().min(0).max(65535);
+const stringListSchema = z.union([z.array(z.string()), z.string()]);
+const baseUrlSchema = z.string().regex(/^https?:\/\//, "must start with http:// or https://");
+/** One URL, a comma-separated list, or a YAML list of mirrors in failover order. */
+const baseUrlListSchema = z.union([baseUrlSchema, z.array(baseUrlSchema).min(1)]);
+const credentialSchema = z
+  .string()
+  .describe("Literal value or a secret reference: env:NAME, file:/path or cmd:<command>");
+
+const clientEntrySchema = z.union([
+  z.string().min(1),
+  z
+    .object({
+      name: z.string().min(1),
+      base_url: baseUrlListSchema.optional(),
+      api_key: credentialSchema.optional(),
+      read_only: z.boolean().optional(),
+      max_concurrency: z.number().int().min(0).optional(),
+      circuit_failure_threshold: z.number().int().min(0).optional(),
+      circuit_reset_ms: z.number().int().min(0).optional(),
+    })
+    .strict(),
+]);
+
+const callerTokenSchema = z
+  .object({
+    name: z.string().optional(),
+    token: credentialSchema.min(1),
+    clients: stringListSchema.optional(),
+    read_only: z.boolean().optional(),
+    tools: stringListSchema.optional(),
+  })
+  .strict();
+
+const patternRuleSchema = z
+  .object({
+    allow: stringListSchema.optional(),
+    deny: stringListSchema.optional(),
+  })
+  .strict();
+
+const accessRulesSchema = z
+  .object({
+    schemas: patternRuleSchema.optional(),
+    tables: patternRuleSchema.optional(),
+    columns: patternRuleSchema.optional(),
+  })
+  .strict();
+
+/** Access policy for one client (or `*` for all of them). */
+const policySchema = z
+  .object({
+    tools: patternRuleSchema.optional(),
+    read: accessRulesSchema.optional(),
+    write: accessRulesSchema.optional(),
+    max_rows: z.number().int().min(1).optional(),
+  })
+  .strict();
+
+const settingsShape = {
+  athena_base_url: baseUrlListSchema.optional(),
+  athena_api_key: credentialSchema.optional(),
+  athena_default_client: z.string().optional(),
+  athena_available_clients: z.union([z.array(clientEntrySchema), z.string()]).optional(),
+  read_only: z.boolean().optional(),
+  health_port: portSchema.optional(),
+  athena_admin_experimental_enabled: z.boolean().optional(),
+  transport: z.enum(["stdio", "http", "streamable-http", "streamable_http"]).optional(),
+  http_host: z.string().optional(),
+  http_port: portSchema.optional(),
+  http_allowed_hosts: stringListSchema.optional(),
+  http_session_idle_ms: z.number().int().min(0).optional(),
+  request_timeout_ms: z.number().int().min(0).optional(),
+  max_retries: z.number().int().min(0).max(10).optional(),
+  retry_base_delay_ms: z.number().int().min(0).optional(),
+  max_concurrency: z.number().int().min(0).optional(),
+  circuit_failure_threshold: z.number().int().min(0).optional(),
+  circuit_reset_ms: z.number().int().min(0).optional(),
+  confirm_tools: stringListSchema.optional(),
+  mask_columns: stringListSchema.optional(),
+  mask_detectors: z
+    .union([z.array(z.enum([...PII_DETECTORS, "all"])), z.string()])
+    .optional()
+    .describe("PII detectors to mask in returned rows: credit_card, email, jwt, phone or all"),
+  max_result_rows: z.number().int().min(0).optional(),
+  max_result_bytes: z.number().int().min(0).optional(),
+  schema_cache_ttl_ms: z.number().int().min(0).optional(),
+  policies: z.record(z.string(), policySchema).optional(),
+  auth_tokens: z.array(callerTokenSchema).optional(),
+};
+
+const profileSchema = z.object(settingsShape).strict();
+
+const topLevelShape = {
+  ...settingsShape,
+  default_profile: z.string().optional(),
+  profiles: z.record(z.string(), profileSchema).optional(),
+};
+
+export const configFileSchema = z
+  .object({
+    ...topLevelShape,
+    athena: z.object(topLevelShape).strict().optional(),
+  })
+  .strict();
+
+/** Keys people reach for (and older example configs used) that the loader does not read. */
+const KEY_HINTS: Record<string, string> = {
+  api_key: "athena_api_key",
+  available_clients: "athena_available_clients",
+  base_url: "athena_base_url",
+  client: "athena_default_client",
+  default_client: "athena_default_client",
+};
+
+export interface ConfigFileIssue {
+  message: string;
+  /** Dotted path into the file, e.g. `athena.profiles.prod.read_only`. */
+  path: string;
+  /** Unknown keys are ignored by the loader, so they are warnings rather than errors. */
+  severity: "error" | "warning";
+}
+
+function formatPath(segments: PropertyKey[]): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === "number" ? `[${segment}]` : `${index === 0 ? "" : "."}${String(segment)}`,
+    )
+    .join("") || "(root)";
+}
+
+/**
+ * Check the merged numeric settings against the same bounds as the file, so
+ * values from env and CLI flags (`HTTP_PORT=abc`, `ATHENA_MAX_RETRIES=-5`) are
+ * caught too. Paths are config keys followed by where the value came from.
+ */
+export function validateResolvedConfig(config: AthenaServerConfig, sources: ConfigSources): ConfigFileIssue[] {
+  const issues: ConfigFileIssue[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (typeof value !== "number") continue;
+    const fileKey = key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`) as keyof typeof settingsShape;
+    const result = settingsShape[fileKey]?.safeParse(value);
+    if (!result || result.success) continue;
+    const source = sources[key as keyof AthenaServerConfig];
+    issues.push({
+      message: `${result.error.issues[0]?.message ?? "invalid value"} (got ${value})`,
+      path: source ? `${key} <- ${source}` : key,
+      severity: "error",
+    });
+  }
+  return issues;
+}
+
+/** Validate a parsed config file. Returns an empty list when it matches the schema. */
+export function validateConfigFile(parsed: unknown): ConfigFileIssue[] {
+  if (parsed == null) return [];
+  const result = configFileSchema.safeParse(parsed);
+  if (result.success) return [];
+
+  const issues: ConfigFileIssue[] = [];
+  for (const issue of result.error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        const hint = KEY_HINTS[key];
+        issues.push({
+          message: `unknown key "${key}" is ignored${hint ? ` (did you mean "${hint}"?)` : ""}`,
+          path: formatPath([...issue.path, key]),
+          severity: "warning",
+        });
+      }
+      continue;
+    }
+    issues.push({
+      message: issue.message,
+      path: formatPath(issue.path),
+      severity: "error",
+    });
+  }
+  return issues;
+}
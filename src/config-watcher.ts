@@ -0,0 +1,85 @@
+import fs from "node:fs";
+import path from "node:path";
+import { loadConfig, type AthenaServerConfig } from "./config.js";
+import { logger } from "./logger.js";
+import { getAthenaPaths } from "./paths.js";
+import type { AthenaRuntime } from "./runtime.js";
+
+const RELOAD_DEBOUNCE_MS = 300;
+
+/** Settings bound to listeners opened at startup; a reload keeps the running values. */
+const RESTART_ONLY_KEYS = ["healthPort", "httpHost", "httpPort", "transport"] as const;
+
+function reloadConfig(runtime: AthenaRuntime): void {
+  let loaded: AthenaServerConfig;
+  try {
+    loaded = loadConfig({ strict: true });
+  } catch (err) {
+    const message = String((err as Error)?.message ?? err);
+    process.stderr.write(`[athena-mcp] Config reload failed, keeping the previous config: ${message}\n`);
+    logger.warn("Config reload failed; keeping the previous config", { error: message }).catch(() => {});
+    return;
+  }
+
+  const current = runtime.config;
+  const next: AthenaServerConfig = { ...loaded };
+  const needsRestart: string[] = [];
+  for (const key of RESTART_ONLY_KEYS) {
+    if (loaded[key] !== current[key]) needsRestart.push(key);
+    (next as unknown as Record<string, unknown>)[key] = current[key];
+  }
+
+  const change = runtime.applyConfig(next);
+  if (change.changedKeys.length > 0) {
+    logger.info("Applied config reload", {
+      changedKeys: change.changedKeys,
+      toolsChanged: change.toolsChanged,
+    }).catch(() => {});
+  }
+  if (needsRestart.length > 0) {
+    logger.warn(`Config changes to ${needsRestart.join(", ")} take effect after a restart`).catch(() => {});
+  }
+}
+
+/**
+ * Watch `~/.athena/config.yaml` and apply edits to the running server.
+ *
+ * The directory is watched rather than the file so editors that save by
+ * renaming a temp file are picked up. Bursts of events are debounced, and a
+ * file that fails to load leaves the previous config in place.
+ * Returns a function that stops watching.
+ */
+export function watchConfigFile(runtime: AthenaRuntime): () => void {
+  const configFile = getAthenaPaths().configFile;
+  const fileName = path.basename(configFile);
+  let timer: NodeJS.Timeout | undefined;
+
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(path.dirname(configFile), (_event, changed) => {
+      if (changed && changed.toString() !== fileName) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        reloadConfig(runtime);
+      }, RELOAD_DEBOUNCE_MS);
+      timer.unref();
+    });
+  } catch (err) {
+    logger.warn("Config hot reload disabled: cannot watch config directory", {
+      configFile,
+      error: String((err as Error)?.message ?? err),
+    }).catch(() => {});
+    return () => {};
+  }
+
+  watcher.on("error", (err) => {
+    logger.warn("Config watcher error", { configFile, error: err.message }).catch(() => {});
+  });
+  watcher.unref();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -1,5 +1,8 @@
-import { afterEach, describe, expect, it } from "vitest";
-import { loadConfig } from "./config.js";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadConfig, loadConfigWithSources, redactConfigForLog } from "./config.js";
 import { AthenaRuntime } from "./runtime.js";
 
 const ORIGINAL_ENV = { ...process.env };
@@ -8,6 +11,7 @@ const ORIGINAL_ARGV = [...process.argv];
 afterEach(() => {
   process.env = { ...ORIGINAL_ENV };
   process.argv = [...ORIGINAL_ARGV];
+  vi.restoreAllMocks();
 });
 
 describe("loadConfig", () => {
@@ -55,3 +59,227 @@ describe("loadConfig", () => {
     expect(config.availableClients).toEqual(["primary", "analytics"]);
   });
 });
+
+describe("loadConfig transport", () => {
+  it("defaults to stdio", () => {
+    const config = loadConfig();
+    expect(config.transport).toBe("stdio");
+  });
+
+  it("selects the Streamable HTTP transport from the CLI and reuses HEALTH_PORT", () => {
+    process.env.HEALTH_PORT = "9100";
+    process.argv = [...ORIGINAL_ARGV.slice(0, 2), "--transport", "http"];
+
+    const config = loadConfig();
+
+    expect(config.transport).toBe("http");
+    expect(config.httpPort).toBe(9100);
+    expect(config.httpHost).toBe("127.0.0.1");
+  });
+
+  it("rejects unknown transports", () => {
+    process.env.ATHENA_MCP_TRANSPORT = "websocket";
+    expect(() => loadConfig()).toThrow('Unsupported MCP transport "websocket"');
+  });
+
+  it("rejects numeric env settings that are not integers", () => {
+    process.env.ATHENA_REQUEST_TIMEOUT_MS = "zz";
+    expect(() => loadConfig()).toThrow("ATHENA_REQUEST_TIMEOUT_MS must be an integer, got: zz");
+    process.env.ATHENA_REQUEST_TIMEOUT_MS = "1.5";
+    expect(() => loadConfig()).toThrow("ATHENA_REQUEST_TIMEOUT_MS must be an integer");
+  });
+});
+
+describe("loadConfig profiles", () => {
+  function writeConfigFile(contents: string): void {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), "athena-mcp-config-"));
+    fs.mkdirSync(path.join(home, ".athena"));
+    fs.writeFileSync(path.join(home, ".athena", "config.yaml"), contents);
+    vi.spyOn(os, "homedir").mockReturnValue(home);
+  }
+
+  const PROFILES_YAML = [
+    "athena_base_url: https://base.example.com",
+    "athena_api_key: base-key",
+    "athena_available_clients: [primary]",
+    "default_profile: dev",
+    "profiles:",
+    "  dev:",
+    "    athena_base_url: https://dev.example.com",
+    "  prod:",
+    "    athena_base_url: https://prod.example.com",
+    "    athena_api_key: prod-key",
+    "    read_only: true",
+    "",
+  ].join("\n");
+
+  it("applies default_profile when no profile is selected", () => {
+    writeConfigFile(PROFILES_YAML);
+
+    const config = loadConfig();
+
+    expect(config.profile).toBe("dev");
+    expect(config.baseUrl).toBe("https://dev.example.com");
+    expect(config.apiKey).toBe("base-key");
+    expect(config.readOnly).toBe(false);
+  });
+
+  it("selects a profile from ATHENA_PROFILE and lets the CLI override it", () => {
+    writeConfigFile(PROFILES_YAML);
+    process.env.ATHENA_PROFILE = "dev";
+    process.argv = [...ORIGINAL_ARGV.slice(0, 2), "--profile", "prod"];
+
+    const config = loadConfig();
+
+    expect(config.profile).toBe("prod");
+    expect(config.baseUrl).toBe("https://prod.example.com");
+    expect(config.apiKey).toBe("prod-key");
+    expect(config.readOnly).toBe(true);
+    expect(config.availableClients).toEqual(["primary"]);
+  });
+
+  it("keeps env and CLI values above the profile", () => {
+    writeConfigFile(PROFILES_YAML);
+    process.env.ATHENA_PROFILE = "prod";
+    process.env.ATHENA_API_KEY = "env-key";
+
+    const config = loadConfig();
+
+    expect(config.apiKey).toBe("env-key");
+    expect(config.baseUrl).toBe("https://prod.example.com");
+  });
+
+  it("rejects unknown profiles", () => {
+    writeConfigFile(PROFILES_YAML);
+    process.env.ATHENA_PROFILE = "staging";
+
+    expect(() => loadConfig()).toThrow('Unknown profile "staging". Defined profiles: dev, prod');
+  });
+});
+
+describe("loadConfig per-client connections", () => {
+  it("reads base_url, api_key and read_only from object client entries", () => {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), "athena-mcp-config-"));
+    fs.mkdirSync(path.join(home, ".athena"));
+    fs.writeFileSync(
+      path.join(home, ".athena", "config.yaml"),
+      [
+        "athena_base_url: https://shared.example.com",
+        "athena_api_key: shared-key",
+        "athena_available_clients:",
+        "  - primary",
+        "  - name: analytics",
+        "    base_url: https://analytics.example.com/",
+        "    api_key: analytics-key",
+        "    read_only: true",
+        "",
+      ].join("\n"),
+    );
+    vi.spyOn(os, "homedir").mockReturnValue(home);
+
+    const config = loadConfig();
+    const runtime = new AthenaRuntime(config);
+
+    expect(config.availableClients).toEqual(["primary", "analytics"]);
+    expect(runtime.getClientConnection("primary")).toEqual({
+      apiKey: "shared-key",
+      baseUrl: "https://shared.example.com",
+      baseUrls: ["https://shared.example.com"],
+    });
+    expect(runtime.getClientConnection("analytics")).toEqual({
+      apiKey: "analytics-key",
+      baseUrl: "https://analytics.example.com",
+      baseUrls: ["https://analytics.example.com"],
+    });
+    expect(runtime.isReadOnly(undefined, "primary")).toBe(false);
+    expect(runtime.isReadOnly(undefined, "analytics")).toBe(true);
+  });
+});
+
+describe("loadConfig mirrors", () => {
+  it("accepts a comma-separated ATHENA_BASE_URL as an ordered mirror list", () => {
+    process.env.ATHENA_BASE_URL = "https://a.example.com/, https://b.example.com,https://a.example.com";
+
+    const config = loadConfig();
+
+    expect(config.baseUrls).toEqual(["https://a.example.com", "https://b.example.com"]);
+    expect(config.baseUrl).toBe("https://a.example.com");
+  });
+});
+
+describe("loadConfig confirm_tools", () => {
+  it("gates the destructive tools by default and reads overrides from file and env", () => {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), "athena-mcp-config-"));
+    vi.spyOn(os, "homedir").mockReturnValue(home);
+    expect(loadConfig().confirmTools).toEqual(expect.arrayContaining(["drop_table", "storage_bucket_delete"]));
+
+    fs.mkdirSync(path.join(home, ".athena"));
+    fs.writeFileSync(path.join(home, ".athena", "config.yaml"), "confirm_tools: [drop_table, truncate_logs]\n");
+    expect(loadConfig().confirmTools).toEqual(["drop_table", "truncate_logs"]);
+
+    process.env.ATHENA_CONFIRM_TOOLS = "none";
+    expect(loadConfig().confirmTools).toEqual([]);
+  });
+});
+
+describe("redactConfigForLog", () => {
+  it("redacts every resolved credential", () => {
+    process.env.ATHENA_TEST_KEY = "resolved-server-key";
+    process.env.ATHENA_API_KEY = "env:ATHENA_TEST_KEY";
+    const config = {
+      ...loadConfig(),
+      authTokens: [{ name: "ops", token: "caller-token" }],
+      clientConnections: { analytics: { apiKey: "analytics-key" } },
+    };
+
+    expect(config.apiKey).toBe("resolved-server-key");
+    const logged = JSON.stringify(redactConfigForLog(config));
+    expect(logged).not.toContain("resolved-server-key");
+    expect(logged).not.toContain("caller-token");
+    expect(logged).not.toContain("analytics-key");
+  });
+});
+
+describe("loadConfig policies", () => {
+  it("reads per-client policies from the config file", () => {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), "athena-mcp-config-"));
+    vi.spyOn(os, "homedir").mockReturnValue(home);
+    expect(loadConfig().policies).toEqual({});
+
+    fs.mkdirSync(path.join(home, ".athena"));
+    fs.writeFileSync(
+      path.join(home, ".athena", "config.yaml"),
+      [
+        "policies:",
+        "  analytics:",
+        "    tools: { allow: 'list_*, get_*' }",
+        "    read:",
+        "      tables: { deny: [audit.*] }",
+        "    max_rows: 50",
+        "",
+      ].join("\n"),
+    );
+    expect(loadConfig().policies).toEqual({
+      analytics: {
+        maxRows: 50,
+        read: { tables: { deny: ["audit.*"] } },
+        tools: { allow: ["list_*", "get_*"] },
+      },
+    });
+  });
+});
+
+describe("loadConfig masking", () => {
+  it("reads mask settings from file and env and warns about unknown detectors", () => {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), "athena-mcp-config-"));
+    vi.spyOn(os, "homedir").mockReturnValue(home);
+    fs.mkdirSync(path.join(home, ".athena"));
+    fs.writeFileSync(path.join(home, ".athena", "config.yaml"), "mask_columns: [password_hash, '*token*']\n");
+    process.env.ATHENA_MASK_DETECTORS = "email, jwt, ssn";
+
+    const { config, warnings } = loadConfigWithSources();
+    expect(config.maskColumns).toEqual(["password_hash", "*token*"]);
+    expect(config.maskDetectors).toEqual(["email", "jwt"]);
+    expect(warnings.join("\n")).toContain("Unknown mask detectors ignored: ssn");
+  });
+});
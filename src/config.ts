@@ -1,6 +1,9 @@
 import fs from "node:fs";
 import * as YAML from "yaml";
 import { getAthenaPaths } from "./paths.js";
+import { parseDetectorList, PII_DETECTORS, type PiiDetector } from "./masking.js";
+import type { AccessPolicy, AccessRules, PatternRule } from "./policy.js";
+import { resolveSecret } from "./secrets.js";
 
 function parseBooleanFlag(value?: string): boolean | undefined {
   if (value == null) return undefined;
@@ -15,19 +18,142 @@ function parseClientList(value?: string): string[] {
   return [...new Set(value.split(",").map((part) => part.trim()).filter(Boolean))];
 }
 
+/** Comma-separated tool names; `none` means an explicitly empty list. */
+function parseToolList(value: string | string[]): string[] {
+  const list = Array.isArray(value) ? value.map(String) : parseClientList(value);
+  return list.length === 1 && list[0].toLowerCase() === "none" ? [] : list;
+}
+
+interface FileCallerToken {
+  name?: string;
+  token?: string;
+  clients?: string[] | string;
+  read_only?: boolean;
+  tools?: string[] | string;
+}
+
+interface FilePatternRule {
+  allow?: string[] | string;
+  deny?: string[] | string;
+}
+
+interface FileAccessRules {
+  schemas?: FilePatternRule;
+  tables?: FilePatternRule;
+  columns?: FilePatternRule;
+}
+
+/** `policies` entry, keyed by client name or `*` for every client. */
+interface FilePolicy {
+  tools?: FilePatternRule;
+  read?: FileAccessRules;
+  write?: FileAccessRules;
+  max_rows?: number;
+}
+
+/** `athena_available_clients` entry that carries its own connection settings. */
+interface FileClientEntry {
+  name?: string;
+  base_url?: string | string[];
+  api_key?: string;
+  read_only?: boolean;
+  max_concurrency?: number;
+  circuit_failure_threshold?: number;
+  circuit_reset_ms?: number;
+}
+
 export interface FileConfig {
-  athena_base_url?: string;
+  athena_base_url?: string | string[];
   athena_api_key?: string;
   athena_default_client?: string;
-  athena_available_clients?: string[] | string;
+  athena_available_clients?: Array<string | FileClientEntry> | string;
+  /** Per-client settings collected from object entries of athena_available_clients. */
+  client_connections?: Record<string, FileClientEntry>;
   read_only?: boolean;
   health_port?: number;
   athena_admin_experimental_enabled?: boolean;
+  transport?: string;
+  http_host?: string;
+  http_port?: number;
+  http_allowed_hosts?: string[] | string;
+  http_session_idle_ms?: number;
+  request_timeout_ms?: number;
+  max_retries?: number;
+  retry_base_delay_ms?: number;
+  max_concurrency?: number;
+  circuit_failure_threshold?: number;
+  circuit_reset_ms?: number;
+  confirm_tools?: string[] | string;
+  mask_columns?: string[] | string;
+  mask_detectors?: string[] | string;
+  max_result_rows?: number;
+  max_result_bytes?: number;
+  schema_cache_ttl_ms?: number;
+  policies?: Record<string, FilePolicy>;
+  auth_tokens?: FileCallerToken[];
+  /** Profile used when neither --profile nor ATHENA_PROFILE is given. */
+  default_profile?: string;
+  /** Named overlays (dev/staging/prod...) applied on top of the base block. */
+  profiles?: Record<string, FileConfig>;
   // allow nested
   athena?: Partial<FileConfig>;
 }
 
-function loadFileConfig(): FileConfig {
+function normalizeFileBlock(root: FileConfig): FileConfig {
+  const clientsRaw = root.athena_available_clients ?? root.athena?.athena_available_clients;
+  let availableClients: string[] | undefined;
+  let clientConnections: Record<string, FileClientEntry> | undefined;
+  if (Array.isArray(clientsRaw)) {
+    availableClients = [];
+    for (const entry of clientsRaw) {
+      if (entry && typeof entry === "object") {
+        const name = typeof entry.name === "string" ? entry.name.trim() : "";
+        if (!name) continue;
+        availableClients.push(name);
+        clientConnections = { ...clientConnections, [name]: entry };
+      } else if (entry) {
+        availableClients.push(String(entry));
+      }
+    }
+  } else if (typeof clientsRaw === "string") {
+    availableClients = parseClientList(clientsRaw);
+  }
+
+  return {
+    athena_base_url: root.athena_base_url ?? root.athena?.athena_base_url,
+    athena_api_key: root.athena_api_key ?? root.athena?.athena_api_key,
+    athena_default_client: root.athena_default_client ?? root.athena?.athena_default_client,
+    athena_available_clients: availableClients,
+    client_connections: clientConnections,
+    read_only: typeof root.read_only === "boolean" ? root.read_only : (typeof root.athena?.read_only === "boolean" ? root.athena.read_only : undefined),
+    health_port: typeof root.health_port === "number" ? root.health_port : (typeof root.athena?.health_port === "number" ? root.athena.health_port : undefined),
+    athena_admin_experimental_enabled:
+      typeof root.athena_admin_experimental_enabled === "boolean"
+        ? root.athena_admin_experimental_enabled
+        : (typeof root.athena?.athena_admin_experimental_enabled === "boolean" ? root.athena.athena_admin_experimental_enabled : undefined),
+    transport: typeof root.transport === "string" ? root.transport : (typeof root.athena?.transport === "string" ? root.athena.transport : undefined),
+    http_host: typeof root.http_host === "string" ? root.http_host : (typeof root.athena?.http_host === "string" ? root.athena.http_host : undefined),
+    http_port: typeof root.http_port === "number" ? root.http_port : (typeof root.athena?.http_port === "number" ? root.athena.http_port : undefined),
+    http_allowed_hosts: root.http_allowed_hosts ?? root.athena?.http_allowed_hosts,
+    http_session_idle_ms: typeof root.http_session_idle_ms === "number" ? root.http_session_idle_ms : (typeof root.athena?.http_session_idle_ms === "number" ? root.athena.http_session_idle_ms : undefined),
+    request_timeout_ms: typeof root.request_timeout_ms === "number" ? root.request_timeout_ms : (typeof root.athena?.request_timeout_ms === "number" ? root.athena.request_timeout_ms : undefined),
+    max_retries: typeof root.max_retries === "number" ? root.max_retries : (typeof root.athena?.max_retries === "number" ? root.athena.max_retries : undefined),
+    retry_base_delay_ms: typeof root.retry_base_delay_ms === "number" ? root.retry_base_delay_ms : (typeof root.athena?.retry_base_delay_ms === "number" ? root.athena.retry_base_delay_ms : undefined),
+    max_concurrency: typeof root.max_concurrency === "number" ? root.max_concurrency : (typeof root.athena?.max_concurrency === "number" ? root.athena.max_concurrency : undefined),
+    circuit_failure_threshold: typeof root.circuit_failure_threshold === "number" ? root.circuit_failure_threshold : (typeof root.athena?.circuit_failure_threshold === "number" ? root.athena.circuit_failure_threshold : undefined),
+    circuit_reset_ms: typeof root.circuit_reset_ms === "number" ? root.circuit_reset_ms : (typeof root.athena?.circuit_reset_ms === "number" ? root.athena.circuit_reset_ms : undefined),
+    confirm_tools: root.confirm_tools ?? root.athena?.confirm_tools,
+    mask_columns: root.mask_columns ?? root.athena?.mask_columns,
+    mask_detectors: root.mask_detectors ?? root.athena?.mask_detectors,
+    max_result_rows: typeof root.max_result_rows === "number" ? root.max_result_rows : (typeof root.athena?.max_result_rows === "number" ? root.athena.max_result_rows : undefined),
+    max_result_bytes: typeof root.max_result_bytes === "number" ? root.max_result_bytes : (typeof root.athena?.max_result_bytes === "number" ? root.athena.max_result_bytes : undefined),
+    schema_cache_ttl_ms: typeof root.schema_cache_ttl_ms === "number" ? root.schema_cache_ttl_ms : (typeof root.athena?.schema_cache_ttl_ms === "number" ? root.athena.schema_cache_ttl_ms : undefined),
+    policies: root.policies ?? root.athena?.policies,
+    auth_tokens: Array.isArray(root.auth_tokens) ? root.auth_tokens : (Array.isArray(root.athena?.auth_tokens) ? root.athena.auth_tokens : undefined),
+  };
+}
+
+function loadFileConfig(strict = false): FileConfig {
   const paths = getAthenaPaths();
   try {
     if (!fs.existsSync(paths.configFile)) return {};
@@ -37,52 +163,265 @@ function loadFileConfig(): FileConfig {
 
     // Support flat or { athena: { ... } }
     const root = (parsed.athena && typeof parsed.athena === "object" ? parsed.athena : parsed) as FileConfig;
+    const config = normalizeFileBlock(root);
 
-    const clientsRaw = root.athena_available_clients ?? root.athena?.athena_available_clients;
-    let availableClients: string[] | undefined;
-    if (Array.isArray(clientsRaw)) {
-      availableClients = clientsRaw.filter(Boolean).map(String);
-    } else if (typeof clientsRaw === "string") {
-      availableClients = parseClientList(clientsRaw);
+    const profilesRaw = root.profiles ?? parsed.profiles;
+    if (profilesRaw && typeof profilesRaw === "object") {
+      config.profiles = Object.fromEntries(
+        Object.entries(profilesRaw)
+          .filter(([, block]) => block && typeof block === "object")
+          .map(([name, block]) => [name, normalizeFileBlock(block)]),
+      );
     }
-
-    return {
-      athena_base_url: root.athena_base_url ?? root.athena?.athena_base_url,
-      athena_api_key: root.athena_api_key ?? root.athena?.athena_api_key,
-      athena_default_client: root.athena_default_client ?? root.athena?.athena_default_client,
-      athena_available_clients: availableClients,
-      read_only: typeof root.read_only === "boolean" ? root.read_only : (typeof root.athena?.read_only === "boolean" ? root.athena.read_only : undefined),
-      health_port: typeof root.health_port === "number" ? root.health_port : (typeof root.athena?.health_port === "number" ? root.athena.health_port : undefined),
-      athena_admin_experimental_enabled:
-        typeof root.athena_admin_experimental_enabled === "boolean"
-          ? root.athena_admin_experimental_enabled
-          : (typeof root.athena?.athena_admin_experimental_enabled === "boolean" ? root.athena.athena_admin_experimental_enabled : undefined),
-    };
+    const defaultProfile = root.default_profile ?? parsed.default_profile;
+    if (typeof defaultProfile === "string" && defaultProfile.trim()) {
+      config.default_profile = defaultProfile.trim();
+    }
+    return config;
   } catch (err) {
+    if (strict) throw new Error(`Failed to load ${paths.configFile}: ${String(err)}`);
     // Do not crash server on bad config file; fall back silently but note via stderr
     process.stderr.write(`[athena-mcp] Warning: failed to load ${paths.configFile}: ${String(err)}\n`);
     return {};
   }
 }
 
+function parseStringList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.filter(Boolean).map(String);
+  if (typeof value === "string") return parseClientList(value);
+  return undefined;
+}
+
+function parseCallerTokens(entries: FileCallerToken[] | undefined): CallerTokenConfig[] {
+  if (!entries) return [];
+  const out: CallerTokenConfig[] = [];
+  entries.forEach((entry, index) => {
+    const rawToken = typeof entry?.token === "string" ? entry.token.trim() : "";
+    const token = rawToken ? resolveSecret(rawToken, `auth_tokens[${index}].token`) : "";
+    if (!token) {
+      process.stderr.write(`[athena-mcp] Warning: auth_tokens[${index}] has no token and was ignored\n`);
+      return;
+    }
+    out.push({
+      clients: parseStringList(entry.clients),
+      name: typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : `token-${index + 1}`,
+      readOnly: typeof entry.read_only === "boolean" ? entry.read_only : undefined,
+      token,
+      tools: parseStringList(entry.tools),
+    });
+  });
+  return out;
+}
+
+function parseBaseUrl(value: string, source: string): string {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("http://") && !trimmed.startsWith("https://")) {
+    throw new Error(`${source} must start with http:// or https://, got: ${trimmed}`);
+  }
+  return trimmed.replace(/\/+$/, "");
+}
+
+/** Ordered mirror list from a YAML list or a comma-separated string. */
+function parseBaseUrls(value: string | string[], source: string): string[] {
+  const parts = (Array.isArray(value) ? value.map(String) : value.split(","))
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error(`${source} must contain at least one URL`);
+  }
+  return [...new Set(parts.map((part) => parseBaseUrl(part, source)))];
+}
+
+function parsePatternRule(rule: FilePatternRule | undefined): PatternRule | undefined {
+  if (!rule || typeof rule !== "object") return undefined;
+  const allow = parseStringList(rule.allow);
+  const deny = parseStringList(rule.deny);
+  return allow || deny ? { allow, deny } : undefined;
+}
+
+function parseAccessRules(rules: FileAccessRules | undefined): AccessRules | undefined {
+  if (!rules || typeof rules !== "object") return undefined;
+  return {
+    columns: parsePatternRule(rules.columns),
+    schemas: parsePatternRule(rules.schemas),
+    tables: parsePatternRule(rules.tables),
+  };
+}
+
+function parsePolicies(entries: Record<string, FilePolicy>): Record<string, AccessPolicy> {
+  const out: Record<string, AccessPolicy> = {};
+  for (const [name, entry] of Object.entries(entries)) {
+    if (!entry || typeof entry !== "object") continue;
+    out[name] = {
+      maxRows: typeof entry.max_rows === "number" && entry.max_rows > 0 ? Math.floor(entry.max_rows) : undefined,
+      read: parseAccessRules(entry.read),
+      tools: parsePatternRule(entry.tools),
+      write: parseAccessRules(entry.write),
+    };
+  }
+  return out;
+}
+
+function parseClientConnections(
+  entries: Record<string, FileClientEntry> | undefined,
+): Record<string, ClientConnectionConfig> {
+  const out: Record<string, ClientConnectionConfig> = {};
+  for (const [name, entry] of Object.entries(entries ?? {})) {
+    const apiKey = typeof entry.api_key === "string" && entry.api_key.trim()
+      ? resolveSecret(entry.api_key.trim(), `api_key for Athena client "${name}"`)
+      : undefined;
+    out[name] = {
+      apiKey: apiKey || undefined,
+      baseUrls: entry.base_url !== undefined && String(entry.base_url).trim()
+        ? parseBaseUrls(entry.base_url, `base_url for Athena client "${name}"`)
+        : undefined,
+      readOnly: typeof entry.read_only === "boolean" ? entry.read_only : undefined,
+      maxConcurrency: typeof entry.max_concurrency === "number" ? entry.max_concurrency : undefined,
+      circuitFailureThreshold: typeof entry.circuit_failure_threshold === "number" ? entry.circuit_failure_threshold : undefined,
+      circuitResetMs: typeof entry.circuit_reset_ms === "number" ? entry.circuit_reset_ms : undefined,
+    };
+  }
+  return out;
+}
+
+type McpTransportKind = "stdio" | "http";
+
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 8787;
+const DEFAULT_HTTP_SESSION_IDLE_MS = 30 * 60_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_CONCURRENCY = 8;
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_RESET_MS = 30_000;
+const DEFAULT_MAX_RESULT_ROWS = 1000;
+const DEFAULT_MAX_RESULT_BYTES = 128 * 1024;
+const DEFAULT_SCHEMA_CACHE_TTL_MS = 60_000;
+export const DEFAULT_CONFIRM_TOOLS = [
+  "delete_athena_client",
+  "delete_row",
+  "drop_column",
+  "drop_index",
+  "drop_table",
+  "storage_bucket_delete",
+  "storage_folder_delete",
+];
+
+function parseTransport(value?: string): McpTransportKind | undefined {
+  if (value == null) return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "stdio") return "stdio";
+  if (["http", "streamable-http", "streamable_http"].includes(normalized)) return "http";
+  throw new Error(`Unsupported MCP transport "${value}". Use "stdio" or "http".`);
+}
+
+/** Inbound bearer token accepted by the HTTP transport, with its own restrictions. */
+export interface CallerTokenConfig {
+  /** Subset of availableClients this caller may route to (all when omitted). */
+  clients?: string[];
+  name: string;
+  readOnly?: boolean;
+  token: string;
+  /** Tool names this caller may invoke (all when omitted). */
+  tools?: string[];
+}
+
+/**
+ * Connection settings for one Athena client. Unset fields fall back to the
+ * matching server-wide settings.
+ */
+export interface ClientConnectionConfig {
+  apiKey?: string;
+  /** Ordered mirrors for this client; the first reachable one is used. */
+  baseUrls?: string[];
+  circuitFailureThreshold?: number;
+  circuitResetMs?: number;
+  maxConcurrency?: number;
+  readOnly?: boolean;
+}
+
 export interface AthenaServerConfig {
   adminExperimentalEnabled: boolean;
   apiKey: string;
+  authTokens: CallerTokenConfig[];
   availableClients: string[];
+  /** Primary mirror: the first entry of baseUrls. */
   baseUrl: string;
+  /** Ordered Athena mirrors; requests fail over down the list when a mirror is unhealthy. */
+  baseUrls: string[];
+  /** Consecutive failed requests that open a client's circuit breaker (0 disables it). */
+  circuitFailureThreshold: number;
+  /** How long an open circuit fails fast before letting a trial request through. */
+  circuitResetMs: number;
+  /** Per-client overrides keyed by client name (from object entries in the config file). */
+  clientConnections: Record<string, ClientConnectionConfig>;
+  /** Destructive tools that only run after a confirmation token round trip or an elicitation. */
+  confirmTools: string[];
   defaultClient: string;
   healthPort?: number;
+  /**
+   * Host names the Streamable HTTP transport answers to (Host and Origin
+   * headers), against DNS rebinding. Empty: loopback names when bound to a
+   * loopback or specific address, no check when bound to all interfaces.
+   */
+  httpAllowedHosts: string[];
+  httpHost: string;
+  httpPort: number;
+  /** Idle time after which a Streamable HTTP session is closed, in milliseconds (0 keeps sessions open). */
+  httpSessionIdleMs: number;
+  /** In-flight Athena requests allowed per client; further requests queue (0 disables the cap). */
+  maxConcurrency: number;
+  /** Retries after the first attempt for retryable Athena requests. */
+  maxRetries: number;
+  /** Column patterns whose values are masked in rows returned by read tools. */
+  maskColumns: string[];
+  /** PII detectors whose matches are masked inside string values of returned rows. */
+  maskDetectors: PiiDetector[];
+  /** Serialized size budget per row-returning response; rows past it go behind a cursor (0 disables it). */
+  maxResultBytes: number;
+  /** Rows per response from row-returning tools; the rest go behind a cursor (0 disables the cap). */
+  maxResultRows: number;
+  /** Access policies keyed by client name; the `*` entry applies to every client. */
+  policies: Record<string, AccessPolicy>;
+  /** Named profile from the config file that was applied, if any. */
+  profile?: string;
   readOnly: boolean;
+  /** Per-attempt timeout for Athena HTTP requests in milliseconds (0 disables it). */
+  requestTimeoutMs: number;
+  /** First retry backoff delay in milliseconds; doubles per attempt, with jitter. */
+  retryBaseDelayMs: number;
+  /** How long schema metadata (table lists, columns, primary keys) is reused, in milliseconds (0 disables the cache). */
+  schemaCacheTtlMs: number;
+  transport: McpTransportKind;
 }
 
 interface CliArgs {
   adminExperimentalEnabled?: boolean;
   apiKey?: string;
   availableClients?: string[];
+  circuitFailureThreshold?: number;
+  circuitResetMs?: number;
   client?: string;
+  confirmTools?: string[];
   healthPort?: number;
+  httpAllowedHosts?: string[];
+  httpHost?: string;
+  httpPort?: number;
+  httpSessionIdleMs?: number;
+  maxConcurrency?: number;
+  maxRetries?: number;
+  maskColumns?: string[];
+  maskDetectors?: string[];
+  maxResultBytes?: number;
+  maxResultRows?: number;
+  profile?: string;
+  requestTimeoutMs?: number;
+  retryBaseDelayMs?: number;
   readOnly?: boolean;
+  schemaCacheTtlMs?: number;
   baseUrl?: string;
+  transport?: string;
 }
 
 function parseCliArgs(): CliArgs {
@@ -125,6 +464,61 @@ function parseCliArgs(): CliArgs {
         case "athena_admin_experimental_enabled":
           out.adminExperimentalEnabled = parseBooleanFlag(String(value));
           break;
+        case "transport":
+          out.transport = String(value);
+          break;
+        case "http_host":
+          out.httpHost = String(value);
+          break;
+        case "http_port":
+          out.httpPort = Number.parseInt(String(value), 10);
+          break;
+        case "http_allowed_hosts":
+          out.httpAllowedHosts = parseToolList(String(value));
+          break;
+        case "http_session_idle_ms":
+          out.httpSessionIdleMs = Number.parseInt(String(value), 10);
+          break;
+        case "request_timeout_ms":
+          out.requestTimeoutMs = Number.parseInt(String(value), 10);
+          break;
+        case "schema_cache_ttl_ms":
+          out.schemaCacheTtlMs = Number.parseInt(String(value), 10);
+          break;
+        case "max_retries":
+          out.maxRetries = Number.parseInt(String(value), 10);
+          break;
+        case "retry_base_delay_ms":
+          out.retryBaseDelayMs = Number.parseInt(String(value), 10);
+          break;
+        case "max_concurrency":
+          out.maxConcurrency = Number.parseInt(String(value), 10);
+          break;
+        case "circuit_failure_threshold":
+          out.circuitFailureThreshold = Number.parseInt(String(value), 10);
+          break;
+        case "circuit_reset_ms":
+          out.circuitResetMs = Number.parseInt(String(value), 10);
+          break;
+        case "confirm_tools":
+          out.confirmTools = parseToolList(String(value));
+          break;
+        case "max_result_rows":
+          out.maxResultRows = Number.parseInt(String(value), 10);
+          break;
+        case "max_result_bytes":
+          out.maxResultBytes = Number.parseInt(String(value), 10);
+          break;
+        case "mask_columns":
+          out.maskColumns = parseToolList(String(value));
+          break;
+        case "mask_detectors":
+          out.maskDetectors = parseToolList(String(value));
+          break;
+        case "profile":
+        case "athena_profile":
+          out.profile = String(value);
+          break;
       }
 
       if (!match[2] && value === argv[i + 1]) i += 1;
@@ -142,87 +536,306 @@ function parseCliArgs(): CliArgs {
   return out;
 }
 
-export function loadConfig(): AthenaServerConfig {
-  const file = loadFileConfig();
-  const cli = parseCliArgs();
-
-  // Precedence: file < env < cli  (cli wins)
-  const baseUrlRaw = (
-    cli.baseUrl ??
-    process.env.ATHENA_BASE_URL ??
-    file.athena_base_url ??
-    "https://mirror2.athena-cluster.com"
-  ).trim();
-  if (
-    !baseUrlRaw.startsWith("http://") &&
-    !baseUrlRaw.startsWith("https://")
-  ) {
+/**
+ * Overlay the selected profile on the base file block. Keys the profile leaves
+ * unset fall through to the base block.
+ */
+function applyProfile(file: FileConfig, profile: string | undefined): FileConfig {
+  if (!profile) return file;
+  const overlay = file.profiles?.[profile];
+  if (!overlay) {
+    const defined = Object.keys(file.profiles ?? {});
     throw new Error(
-      `ATHENA_BASE_URL must start with http:// or https://, got: ${baseUrlRaw}`,
+      `Unknown profile "${profile}". Defined profiles: ${defined.length ? defined.join(", ") : "(none)"}`,
     );
   }
+  const merged: FileConfig = { ...file };
+  for (const [key, value] of Object.entries(overlay)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
+
+/** Copy of the config that is safe to log: every credential is replaced with a marker. */
+export function redactConfigForLog(config: AthenaServerConfig): Record<string, unknown> {
+  return {
+    ...config,
+    apiKey: config.apiKey ? "[REDACTED]" : "",
+    authTokens: config.authTokens.map((entry) => ({ ...entry, token: "[REDACTED]" })),
+    clientConnections: Object.fromEntries(
+      Object.entries(config.clientConnections).map(([name, entry]) => [
+        name,
+        entry.apiKey ? { ...entry, apiKey: "[REDACTED]" } : entry,
+      ]),
+    ),
+  };
+}
+
+export interface LoadConfigOptions {
+  /** Throw on an unreadable or invalid config file instead of falling back to defaults (used on reload). */
+  strict?: boolean;
+}
 
-  const apiKey = (
-    cli.apiKey ??
-    process.env.ATHENA_API_KEY ??
-    file.athena_api_key ??
-    ""
-  ).trim();
-
-  // available clients: prefer explicit lists from higher precedence
-  let availableClients: string[] =
-    cli.availableClients ??
-    parseClientList(process.env.ATHENA_AVAILABLE_CLIENTS) ??
-    [];
-  if (availableClients.length === 0 && file.athena_available_clients) {
-    availableClients = Array.isArray(file.athena_available_clients)
-      ? file.athena_available_clients
-      : parseClientList(String(file.athena_available_clients));
+/** Where each resolved setting came from, e.g. `env ATHENA_BASE_URL` or `profile "prod" (read_only)`. */
+export type ConfigSources = Partial<Record<keyof AthenaServerConfig, string>>;
+
+interface SettingCandidate<T> {
+  source: string;
+  value: T | undefined;
+}
+
+/** Return the first defined candidate (highest precedence first) and record its source. */
+function pickSetting<T>(
+  sources: ConfigSources,
+  key: keyof AthenaServerConfig,
+  candidates: SettingCandidate<T>[],
+  fallback: T,
+): T {
+  for (const candidate of candidates) {
+    if (candidate.value !== undefined) {
+      sources[key] = candidate.source;
+      return candidate.value;
+    }
   }
+  sources[key] = "default";
+  return fallback;
+}
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name]?.trim();
+  if (!value) return undefined;
+  if (!/^-?\d+$/.test(value)) throw new Error(`${name} must be an integer, got: ${value}`);
+  return Number.parseInt(value, 10);
+}
+
+function nonEmpty<T>(list: T[] | undefined): T[] | undefined {
+  return list && list.length > 0 ? list : undefined;
+}
+
+export interface LoadedConfig {
+  config: AthenaServerConfig;
+  sources: ConfigSources;
+  /** Problems the server tolerates at startup but that will surface on tool calls. */
+  warnings: string[];
+}
 
-  const defaultClientRaw = (
-    cli.client ??
-    process.env.ATHENA_DEFAULT_CLIENT ??
-    process.env.ATHENA_CLIENT ??
-    file.athena_default_client ??
-    availableClients[0] ??
-    ""
-  ).trim();
+export function loadConfigWithSources(options: LoadConfigOptions = {}): LoadedConfig {
+  const cli = parseCliArgs();
+  const baseFile = loadFileConfig(options.strict);
+  const profile =
+    (cli.profile ?? process.env.ATHENA_PROFILE ?? baseFile.default_profile)?.trim() || undefined;
+  const file = applyProfile(baseFile, profile);
+  const sources: ConfigSources = {
+    profile: cli.profile
+      ? "cli --profile"
+      : process.env.ATHENA_PROFILE
+        ? "env ATHENA_PROFILE"
+        : (profile ? "config file (default_profile)" : "default"),
+  };
+
+  const fileSource = (key: keyof FileConfig): string =>
+    profile && baseFile.profiles?.[profile]?.[key] !== undefined
+      ? `profile "${profile}" (${key})`
+      : `config file (${key})`;
+
+  // Precedence: file < profile < env < cli  (cli wins)
+  const baseUrls = parseBaseUrls(
+    pickSetting<string | string[]>(sources, "baseUrls", [
+      { source: "cli --athena-base-url", value: cli.baseUrl },
+      { source: "env ATHENA_BASE_URL", value: process.env.ATHENA_BASE_URL },
+      { source: fileSource("athena_base_url"), value: file.athena_base_url },
+    ], "https://mirror2.athena-cluster.com"),
+    "ATHENA_BASE_URL",
+  );
+  sources.baseUrl = sources.baseUrls;
+
+  // May be a secret reference (env:/file:/cmd:) so the key itself never sits in argv or the file.
+  const apiKey = resolveSecret(
+    pickSetting(sources, "apiKey", [
+      { source: "cli --athena-api-key", value: cli.apiKey },
+      { source: "env ATHENA_API_KEY", value: process.env.ATHENA_API_KEY },
+      { source: fileSource("athena_api_key"), value: file.athena_api_key },
+    ], "").trim(),
+    "athena_api_key",
+  );
+
+  // available clients: prefer explicit (non-empty) lists from higher precedence
+  const fileClients = file.athena_available_clients
+    ? Array.isArray(file.athena_available_clients)
+      ? file.athena_available_clients.map(String)
+      : parseClientList(String(file.athena_available_clients))
+    : undefined;
+  const availableClients = pickSetting(sources, "availableClients", [
+    { source: "cli --athena-available-clients", value: nonEmpty(cli.availableClients) },
+    { source: "env ATHENA_AVAILABLE_CLIENTS", value: nonEmpty(parseClientList(process.env.ATHENA_AVAILABLE_CLIENTS)) },
+    { source: fileSource("athena_available_clients"), value: nonEmpty(fileClients) },
+  ], []);
+
+  const defaultClientRaw = pickSetting(sources, "defaultClient", [
+    { source: "cli --athena-client", value: cli.client },
+    { source: "env ATHENA_DEFAULT_CLIENT", value: process.env.ATHENA_DEFAULT_CLIENT },
+    { source: "env ATHENA_CLIENT", value: process.env.ATHENA_CLIENT },
+    { source: fileSource("athena_default_client"), value: file.athena_default_client },
+    { source: "first available client", value: availableClients[0] },
+  ], "").trim();
 
   const normalizedClients = availableClients.length
     ? availableClients
     : (defaultClientRaw ? [defaultClientRaw] : []);
+  if (!availableClients.length && defaultClientRaw) {
+    sources.availableClients = "default client";
+  }
 
   // Do not throw here: allow server to boot so MCP host gets a live connection.
   // Tool calls (via resolveClientName) and admin flows will surface clear configuration errors.
   const effectiveDefault = defaultClientRaw && normalizedClients.includes(defaultClientRaw)
     ? defaultClientRaw
     : (normalizedClients[0] ?? "");
+  const warnings: string[] = [];
+  if (!effectiveDefault) {
+    warnings.push("No Athena client is configured; every tool call will fail. Set ATHENA_CLIENT or athena_available_clients.");
+  } else if (defaultClientRaw && defaultClientRaw !== effectiveDefault) {
+    warnings.push(`Default client "${defaultClientRaw}" is not in the available clients; using "${effectiveDefault}".`);
+  }
 
   const fileReadOnly = typeof file.read_only === "boolean" ? file.read_only : undefined;
   const fileHealth = typeof file.health_port === "number" ? file.health_port : undefined;
   const fileAdminExp = typeof file.athena_admin_experimental_enabled === "boolean" ? file.athena_admin_experimental_enabled : undefined;
+  const maskDetectors = parseDetectorList(pickSetting(sources, "maskDetectors", [
+    { source: "cli --mask-detectors", value: cli.maskDetectors },
+    { source: "env ATHENA_MASK_DETECTORS", value: process.env.ATHENA_MASK_DETECTORS ? parseToolList(process.env.ATHENA_MASK_DETECTORS) : undefined },
+    { source: fileSource("mask_detectors"), value: file.mask_detectors !== undefined ? parseToolList(file.mask_detectors) : undefined },
+  ], []));
+  if (maskDetectors.unknown.length) {
+    warnings.push(
+      `Unknown mask detectors ignored: ${maskDetectors.unknown.join(", ")}. Known detectors: ${PII_DETECTORS.join(", ")}, all.`,
+    );
+  }
 
-  return {
-    adminExperimentalEnabled:
-      cli.adminExperimentalEnabled ??
-      parseBooleanFlag(process.env.ATHENA_ADMIN_EXPERIMENTAL_ENABLED) ??
-      fileAdminExp ??
-      false,
+  const transport =
+    parseTransport(pickSetting(sources, "transport", [
+      { source: "cli --transport", value: cli.transport },
+      { source: "env ATHENA_MCP_TRANSPORT", value: process.env.ATHENA_MCP_TRANSPORT },
+      { source: fileSource("transport"), value: file.transport },
+    ], undefined as string | undefined)) ?? "stdio";
+  const healthPort = pickSetting(sources, "healthPort", [
+    { source: "cli --health-port", value: cli.healthPort },
+    { source: "env HEALTH_PORT", value: envNumber("HEALTH_PORT") },
+    { source: fileSource("health_port"), value: fileHealth },
+  ], undefined as number | undefined);
+  // The HTTP transport shares its listener with /health, so an explicit health port is a sensible default.
+  const httpPort = pickSetting(sources, "httpPort", [
+    { source: "cli --http-port", value: cli.httpPort },
+    { source: "env HTTP_PORT", value: envNumber("HTTP_PORT") },
+    { source: fileSource("http_port"), value: file.http_port },
+    { source: "health port", value: healthPort != null && healthPort > 0 ? healthPort : undefined },
+  ], DEFAULT_HTTP_PORT);
+
+  const config: AthenaServerConfig = {
+    adminExperimentalEnabled: pickSetting(sources, "adminExperimentalEnabled", [
+      { source: "cli --athena-admin-experimental-enabled", value: cli.adminExperimentalEnabled },
+      { source: "env ATHENA_ADMIN_EXPERIMENTAL_ENABLED", value: parseBooleanFlag(process.env.ATHENA_ADMIN_EXPERIMENTAL_ENABLED) },
+      { source: fileSource("athena_admin_experimental_enabled"), value: fileAdminExp },
+    ], false),
     apiKey,
+    authTokens: pickSetting(sources, "authTokens", [
+      { source: fileSource("auth_tokens"), value: file.auth_tokens ? parseCallerTokens(file.auth_tokens) : undefined },
+    ], []),
     availableClients: normalizedClients,
-    baseUrl: baseUrlRaw.replace(/\/+$/, ""),
+    baseUrl: baseUrls[0],
+    baseUrls,
+    circuitFailureThreshold: pickSetting(sources, "circuitFailureThreshold", [
+      { source: "cli --circuit-failure-threshold", value: cli.circuitFailureThreshold },
+      { source: "env ATHENA_CIRCUIT_FAILURE_THRESHOLD", value: envNumber("ATHENA_CIRCUIT_FAILURE_THRESHOLD") },
+      { source: fileSource("circuit_failure_threshold"), value: file.circuit_failure_threshold },
+    ], DEFAULT_CIRCUIT_FAILURE_THRESHOLD),
+    circuitResetMs: pickSetting(sources, "circuitResetMs", [
+      { source: "cli --circuit-reset-ms", value: cli.circuitResetMs },
+      { source: "env ATHENA_CIRCUIT_RESET_MS", value: envNumber("ATHENA_CIRCUIT_RESET_MS") },
+      { source: fileSource("circuit_reset_ms"), value: file.circuit_reset_ms },
+    ], DEFAULT_CIRCUIT_RESET_MS),
+    confirmTools: pickSetting(sources, "confirmTools", [
+      { source: "cli --confirm-tools", value: cli.confirmTools },
+      { source: "env ATHENA_CONFIRM_TOOLS", value: process.env.ATHENA_CONFIRM_TOOLS ? parseToolList(process.env.ATHENA_CONFIRM_TOOLS) : undefined },
+      { source: fileSource("confirm_tools"), value: file.confirm_tools !== undefined ? parseToolList(file.confirm_tools) : undefined },
+    ], DEFAULT_CONFIRM_TOOLS),
+    clientConnections: pickSetting(sources, "clientConnections", [
+      { source: fileSource("athena_available_clients"), value: file.client_connections ? parseClientConnections(file.client_connections) : undefined },
+    ], {}),
     defaultClient: effectiveDefault,
-    healthPort:
-      cli.healthPort ??
-      (process.env.HEALTH_PORT
-        ? Number.parseInt(process.env.HEALTH_PORT, 10)
-        : fileHealth),
-    readOnly:
-      cli.readOnly !== undefined
-        ? cli.readOnly
-        : process.env.READ_ONLY === "true"
-          ? true
-          : (fileReadOnly ?? false),
+    healthPort,
+    httpAllowedHosts: pickSetting(sources, "httpAllowedHosts", [
+      { source: "cli --http-allowed-hosts", value: cli.httpAllowedHosts },
+      { source: "env HTTP_ALLOWED_HOSTS", value: process.env.HTTP_ALLOWED_HOSTS ? parseToolList(process.env.HTTP_ALLOWED_HOSTS) : undefined },
+      { source: fileSource("http_allowed_hosts"), value: file.http_allowed_hosts !== undefined ? parseToolList(file.http_allowed_hosts) : undefined },
+    ], []),
+    httpHost: pickSetting(sources, "httpHost", [
+      { source: "cli --http-host", value: cli.httpHost },
+      { source: "env HTTP_HOST", value: process.env.HTTP_HOST },
+      { source: fileSource("http_host"), value: file.http_host },
+    ], DEFAULT_HTTP_HOST).trim(),
+    httpPort,
+    httpSessionIdleMs: pickSetting(sources, "httpSessionIdleMs", [
+      { source: "cli --http-session-idle-ms", value: cli.httpSessionIdleMs },
+      { source: "env HTTP_SESSION_IDLE_MS", value: envNumber("HTTP_SESSION_IDLE_MS") },
+      { source: fileSource("http_session_idle_ms"), value: file.http_session_idle_ms },
+    ], DEFAULT_HTTP_SESSION_IDLE_MS),
+    maxConcurrency: pickSetting(sources, "maxConcurrency", [
+      { source: "cli --max-concurrency", value: cli.maxConcurrency },
+      { source: "env ATHENA_MAX_CONCURRENCY", value: envNumber("ATHENA_MAX_CONCURRENCY") },
+      { source: fileSource("max_concurrency"), value: file.max_concurrency },
+    ], DEFAULT_MAX_CONCURRENCY),
+    maxRetries: pickSetting(sources, "maxRetries", [
+      { source: "cli --max-retries", value: cli.maxRetries },
+      { source: "env ATHENA_MAX_RETRIES", value: envNumber("ATHENA_MAX_RETRIES") },
+      { source: fileSource("max_retries"), value: file.max_retries },
+    ], DEFAULT_MAX_RETRIES),
+    maskColumns: pickSetting(sources, "maskColumns", [
+      { source: "cli --mask-columns", value: cli.maskColumns },
+      { source: "env ATHENA_MASK_COLUMNS", value: process.env.ATHENA_MASK_COLUMNS ? parseToolList(process.env.ATHENA_MASK_COLUMNS) : undefined },
+      { source: fileSource("mask_columns"), value: file.mask_columns !== undefined ? parseToolList(file.mask_columns) : undefined },
+    ], []),
+    maskDetectors: maskDetectors.detectors,
+    maxResultBytes: pickSetting(sources, "maxResultBytes", [
+      { source: "cli --max-result-bytes", value: cli.maxResultBytes },
+      { source: "env ATHENA_MAX_RESULT_BYTES", value: envNumber("ATHENA_MAX_RESULT_BYTES") },
+      { source: fileSource("max_result_bytes"), value: file.max_result_bytes },
+    ], DEFAULT_MAX_RESULT_BYTES),
+    maxResultRows: pickSetting(sources, "maxResultRows", [
+      { source: "cli --max-result-rows", value: cli.maxResultRows },
+      { source: "env ATHENA_MAX_RESULT_ROWS", value: envNumber("ATHENA_MAX_RESULT_ROWS") },
+      { source: fileSource("max_result_rows"), value: file.max_result_rows },
+    ], DEFAULT_MAX_RESULT_ROWS),
+    policies: pickSetting(sources, "policies", [
+      { source: fileSource("policies"), value: file.policies ? parsePolicies(file.policies) : undefined },
+    ], {}),
+    profile,
+    readOnly: pickSetting(sources, "readOnly", [
+      { source: "cli --read-only", value: cli.readOnly },
+      // Only READ_ONLY=true is honoured from the environment.
+      { source: "env READ_ONLY", value: process.env.READ_ONLY === "true" ? true : undefined },
+      { source: fileSource("read_only"), value: fileReadOnly },
+    ], false),
+    requestTimeoutMs: pickSetting(sources, "requestTimeoutMs", [
+      { source: "cli --request-timeout-ms", value: cli.requestTimeoutMs },
+      { source: "env ATHENA_REQUEST_TIMEOUT_MS", value: envNumber("ATHENA_REQUEST_TIMEOUT_MS") },
+      { source: fileSource("request_timeout_ms"), value: file.request_timeout_ms },
+    ], DEFAULT_REQUEST_TIMEOUT_MS),
+    retryBaseDelayMs: pickSetting(sources, "retryBaseDelayMs", [
+      { source: "cli --retry-base-delay-ms", value: cli.retryBaseDelayMs },
+      { source: "env ATHENA_RETRY_BASE_DELAY_MS", value: envNumber("ATHENA_RETRY_BASE_DELAY_MS") },
+      { source: fileSource("retry_base_delay_ms"), value: file.retry_base_delay_ms },
+    ], DEFAULT_RETRY_BASE_DELAY_MS),
+    schemaCacheTtlMs: pickSetting(sources, "schemaCacheTtlMs", [
+      { source: "cli --schema-cache-ttl-ms", value: cli.schemaCacheTtlMs },
+      { source: "env ATHENA_SCHEMA_CACHE_TTL_MS", value: envNumber("ATHENA_SCHEMA_CACHE_TTL_MS") },
+      { source: fileSource("schema_cache_ttl_ms"), value: file.schema_cache_ttl_ms },
+    ], DEFAULT_SCHEMA_CACHE_TTL_MS),
+    transport,
   };
+  return { config, sources, warnings };
+}
+
+export function loadConfig(options: LoadConfigOptions = {}): AthenaServerConfig {
+  return loadConfigWithSources(options).config;
 }
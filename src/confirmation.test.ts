@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { ConfirmationStore } from "./confirmation.js";
+
+const binding = {
+  args: { cascade: true, table_name: "users" },
+  client: "primary",
+  tool: "drop_table",
+};
+
+describe("ConfirmationStore", () => {
+  it("accepts a token once, for the exact call it was issued for", () => {
+    const store = new ConfirmationStore();
+    const { token } = store.issue(binding);
+    // Key order does not matter.
+    expect(store.redeem(token, { ...binding, args: { table_name: "users", cascade: true } })).toBeUndefined();
+    expect(store.redeem(token, binding)).toMatch(/already used/);
+  });
+
+  it("rejects tokens for other arguments, clients or callers and spends them", () => {
+    const store = new ConfirmationStore();
+    const first = store.issue(binding);
+    expect(store.redeem(first.token, { ...binding, args: { table_name: "orders" } })).toMatch(/different/);
+    expect(store.redeem(first.token, binding)).toMatch(/already used/);
+
+    const second = store.issue(binding);
+    expect(store.redeem(second.token, { ...binding, client: "analytics" })).toMatch(/different/);
+    const third = store.issue(binding);
+    expect(store.redeem(third.token, { ...binding, caller: "ci" })).toMatch(/different/);
+  });
+
+  it("expires tokens after the TTL", () => {
+    let now = 1_000;
+    const store = new ConfirmationStore(60_000, () => now);
+    const { expiresAt, token } = store.issue(binding);
+    expect(expiresAt).toBe(61_000);
+    now = 61_000;
+    expect(store.redeem(token, binding)).toMatch(/expired/);
+  });
+});
@@ -0,0 +1,192 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ElicitResultSchema,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { logger } from "./logger.js";
+import { errorContent, jsonContent } from "./responses.js";
+import type { ToolContext } from "./runtime.js";
+
+/** How long a confirmation token stays valid. */
+export const CONFIRM_TOKEN_TTL_MS = 5 * 60_000;
+
+/** What a confirmation token is bound to: the exact call it was issued for. */
+export interface ConfirmationBinding {
+  args: Record<string, unknown>;
+  caller?: string;
+  client: string;
+  tool: string;
+}
+
+interface PendingConfirmation {
+  digest: string;
+  expiresAt: number;
+}
+
+/** JSON with object keys sorted, so equal arguments always hash the same. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function bindingDigest(binding: ConfirmationBinding): string {
+  return createHash("sha256")
+    .update(stableStringify({ ...binding, caller: binding.caller ?? null }), "utf8")
+    .digest("hex");
+}
+
+/**
+ * Single-use, short-lived tokens for the two-phase confirmation of destructive
+ * tools. A token is bound to the tool, client, caller and exact arguments of
+ * the call that produced it, and is spent on its first redemption attempt.
+ */
+export class ConfirmationStore {
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(
+    private readonly ttlMs = CONFIRM_TOKEN_TTL_MS,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  public issue(binding: ConfirmationBinding): { expiresAt: number; token: string } {
+    this.sweep();
+    const token = `confirm_${randomBytes(16).toString("base64url")}`;
+    const expiresAt = this.now() + this.ttlMs;
+    this.pending.set(token, { digest: bindingDigest(binding), expiresAt });
+    return { expiresAt, token };
+  }
+
+  /** Spend `token`; returns why it cannot be used, or undefined when it confirms this exact call. */
+  public redeem(token: string, binding: ConfirmationBinding): string | undefined {
+    const entry = this.pending.get(token);
+    this.pending.delete(token);
+    if (!entry) return "confirm_token is unknown or was already used";
+    if (entry.expiresAt <= this.now()) return "confirm_token has expired";
+    if (entry.digest !== bindingDigest(binding)) {
+      return "confirm_token was issued for a different tool, client or arguments";
+    }
+    return undefined;
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+interface ConfirmationRequest {
+  ctx: ToolContext;
+  description: string;
+  extra?: ToolExtra;
+  /** Handler input without `client` and `confirm_token`. */
+  input: Record<string, unknown>;
+  server: McpServer;
+  token?: string;
+  toolName: string;
+}
+
+/**
+ * True when the host accepts form elicitation. Hosts that declare neither
+ * mode support forms, as the spec says; a host that declares only `url` does
+ * not. The SDK's elicitInput insists on `form`, so the request is sent directly.
+ */
+function supportsFormElicitation(server: McpServer): boolean {
+  const elicitation = server.server.getClientCapabilities()?.elicitation;
+  return elicitation !== undefined && (elicitation.form !== undefined || elicitation.url === undefined);
+}
+
+/** Ask the human through MCP elicitation; undefined when the host cannot be asked. */
+async function elicitConfirmation(request: ConfirmationRequest, plan: string): Promise<boolean | undefined> {
+  const { extra, server, toolName } = request;
+  if (!supportsFormElicitation(server)) return undefined;
+  try {
+    const answer = await server.server.request(
+      {
+        method: "elicitation/create",
+        params: {
+          message: `${plan}\n\nArguments: ${JSON.stringify(request.input)}`,
+          mode: "form",
+          requestedSchema: {
+            properties: {
+              confirm: {
+                description: `Run ${toolName} now. This cannot be undone.`,
+                title: "Confirm",
+                type: "boolean",
+              },
+            },
+            required: ["confirm"],
+            type: "object",
+          },
+        },
+      },
+      ElicitResultSchema,
+      { relatedRequestId: extra?.requestId, signal: extra?.signal },
+    );
+    return answer.action === "accept" && answer.content?.confirm === true;
+  } catch (err) {
+    if (extra?.signal?.aborted) throw err;
+    logger.warn("Elicitation failed; falling back to a confirmation token", {
+      error: String((err as Error)?.message ?? err),
+      tool: toolName,
+    }).catch(() => {});
+    return undefined;
+  }
+}
+
+/**
+ * Gate a destructive tool call. Returns undefined when the call may run: it
+ * carries a valid confirm_token, or the human approved it through
+ * elicitation. Otherwise returns the result to send instead: a plan with a
+ * fresh token, a refused token, or the human's refusal.
+ */
+export async function confirmToolCall(request: ConfirmationRequest): Promise<CallToolResult | undefined> {
+  const { ctx, input, toolName } = request;
+  const store = ctx.runtime.confirmations;
+  const binding: ConfirmationBinding = {
+    args: input,
+    caller: ctx.caller?.name,
+    client: ctx.clientName,
+    tool: toolName,
+  };
+
+  if (request.token !== undefined) {
+    const problem = store.redeem(request.token, binding);
+    if (!problem) return undefined;
+    return errorContent(
+      `${toolName} was not run: ${problem}. Call it again without confirm_token to get a new plan and token.`,
+    );
+  }
+
+  const plan = `${toolName} will run against Athena client "${ctx.clientName}": ${request.description}`;
+  const approved = await elicitConfirmation(request, plan);
+  if (approved === true) return undefined;
+  if (approved === false) return errorContent(`${toolName} was not run: the user did not confirm it.`);
+
+  const { expiresAt, token } = store.issue(binding);
+  return jsonContent({
+    arguments: input,
+    client: ctx.clientName,
+    confirm_token: token,
+    confirmation_required: true,
+    expires_at: new Date(expiresAt).toISOString(),
+    next_step:
+      `Nothing has been changed yet. To execute, call ${toolName} again with exactly the same arguments ` +
+      "plus this confirm_token. The token is single-use and short-lived.",
+    plan,
+    tool: toolName,
+  });
+}
@@ -0,0 +1,83 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { runDoctor } from "./doctor.js";
+
+const ORIGINAL_ENV = { ...process.env };
+
+function useConfigFile(contents: string): void {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), "athena-mcp-doctor-"));
+  fs.mkdirSync(path.join(home, ".athena"));
+  fs.writeFileSync(path.join(home, ".athena", "config.yaml"), contents);
+  vi.spyOn(os, "homedir").mockReturnValue(home);
+}
+
+async function doctor(): Promise<{ code: number; output: string }> {
+  const lines: string[] = [];
+  const code = await runDoctor((line) => lines.push(line));
+  return { code, output: lines.join("\n") };
+}
+
+afterEach(() => {
+  process.env = { ...ORIGINAL_ENV };
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("runDoctor", () => {
+  it("reports value sources and passes when every client answers", async () => {
+    useConfigFile("athena_base_url: https://athena.example.com\nathena_available_clients: [primary]\n");
+    process.env.ATHENA_API_KEY = "env-key";
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { code, output } = await doctor();
+
+    expect(code).toBe(0);
+    expect(output).toMatch(/baseUrl\s+https:\/\/athena\.example\.com\s+<- config file \(athena_base_url\)/);
+    expect(output).toMatch(/apiKey\s+\(set\)\s+<- env ATHENA_API_KEY/);
+    expect(output).toContain("[ok]    primary: GET https://athena.example.com/management/capabilities");
+    expect(output).not.toContain("env-key");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("exits non-zero on schema errors and unreachable clients", async () => {
+    useConfigFile("athena_available_clients: [primary]\nread_only: maybe\nbase_url: https://old.example.com\n");
+    process.env.ATHENA_MAX_RETRIES = "0";
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("nope", { status: 503, statusText: "Service Unavailable" })));
+
+    const { code, output } = await doctor();
+
+    expect(code).toBe(1);
+    expect(output).toContain("[error] read_only:");
+    expect(output).toContain('[warn]  base_url: unknown key "base_url" is ignored (did you mean "athena_base_url"?)');
+    expect(output).toContain("/ping failed: HTTP 503");
+  });
+
+  it("checks merged env values against the schema bounds and summarizes policies", async () => {
+    useConfigFile(
+      "athena_base_url: https://athena.example.com\nathena_available_clients: [primary]\n" +
+        "policies:\n  '*':\n    max_rows: 10\n  primary:\n    tools:\n      deny: [drop_*]\n",
+    );
+    process.env.ATHENA_MAX_RETRIES = "-5";
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("{}")));
+
+    const { code, output } = await doctor();
+
+    expect(code).toBe(1);
+    expect(output).toMatch(/\[error\] maxRetries <- env ATHENA_MAX_RETRIES: .*\(got -5\)/);
+    expect(output).toMatch(/policies\s+rules for \*, primary\s+<- config file \(policies\)/);
+    expect(output).not.toContain("[object Object]");
+  });
+
+  it("names env variables that are not integers", async () => {
+    useConfigFile("athena_base_url: https://athena.example.com\n");
+    process.env.HTTP_PORT = "abc";
+
+    const { code, output } = await doctor();
+
+    expect(code).toBe(1);
+    expect(output).toContain("[error] HTTP_PORT must be an integer, got: abc");
+  });
+});
@@ -0,0 +1,178 @@
+import fs from "node:fs";
+import * as YAML from "yaml";
+import {
+  loadConfigWithSources,
+  type AthenaServerConfig,
+  type LoadedConfig,
+} from "./config.js";
+import { validateConfigFile, validateResolvedConfig } from "./config-schema.js";
+import { getAthenaPaths } from "./paths.js";
+import { AthenaRuntime } from "./runtime.js";
+import { getVersion } from "./version.js";
+
+const PROBE_TIMEOUT_MS = 10_000;
+const PROBE_PATHS = ["/ping", "/management/capabilities"];
+
+type Write = (line: string) => void;
+
+/** Collects doctor output and counts problems so the exit code can reflect them. */
+class DoctorReport {
+  errors = 0;
+  warnings = 0;
+
+  constructor(private readonly write: Write) {}
+
+  heading(title: string): void {
+    this.write("");
+    this.write(title);
+  }
+
+  line(text: string): void {
+    this.write(`  ${text}`);
+  }
+
+  ok(text: string): void {
+    this.line(`[ok]    ${text}`);
+  }
+
+  warn(text: string): void {
+    this.warnings += 1;
+    this.line(`[warn]  ${text}`);
+  }
+
+  error(text: string): void {
+    this.errors += 1;
+    this.line(`[error] ${text}`);
+  }
+}
+
+/** Returns false when the file exists but cannot be parsed at all. */
+function checkConfigFile(report: DoctorReport): boolean {
+  const { configFile } = getAthenaPaths();
+  report.heading(`Config file: ${configFile}`);
+  if (!fs.existsSync(configFile)) {
+    report.ok("not present; using environment variables, CLI flags and defaults");
+    return true;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(fs.readFileSync(configFile, "utf8"));
+  } catch (err) {
+    report.error(`cannot be parsed: ${String((err as Error)?.message ?? err).split("\n")[0]}`);
+    return false;
+  }
+
+  const issues = validateConfigFile(parsed);
+  if (issues.length === 0) {
+    report.ok("matches config.schema.json");
+    return true;
+  }
+  for (const issue of issues) {
+    const text = `${issue.path}: ${issue.message}`;
+    if (issue.severity === "error") report.error(text);
+    else report.warn(text);
+  }
+  return true;
+}
+
+function describeValue(key: keyof AthenaServerConfig, config: AthenaServerConfig): string {
+  switch (key) {
+    case "apiKey":
+      return config.apiKey ? "(set)" : "(empty)";
+    case "authTokens":
+      return config.authTokens.length
+        ? `${config.authTokens.length} token(s): ${config.authTokens.map((entry) => entry.name).join(", ")}`
+        : "(none)";
+    case "clientConnections": {
+      const names = Object.keys(config.clientConnections);
+      return names.length ? `overrides for ${names.join(", ")}` : "(none)";
+    }
+    case "policies": {
+      const names = Object.keys(config.policies);
+      return names.length ? `rules for ${names.join(", ")}` : "(none)";
+    }
+    default: {
+      const value = config[key];
+      if (value === undefined || value === "") return "(unset)";
+      if (Array.isArray(value)) return value.join(", ") || "(none)";
+      if (typeof value === "object") return Object.keys(value).join(", ") || "(none)";
+      return String(value);
+    }
+  }
+}
+
+function reportSettings(report: DoctorReport, loaded: LoadedConfig): void {
+  report.heading("Resolved settings (value <- source):");
+  const keys = Object.keys(loaded.sources).sort() as Array<keyof AthenaServerConfig>;
+  const width = Math.max(...keys.map((key) => key.length));
+  for (const key of keys) {
+    report.line(`${key.padEnd(width)}  ${describeValue(key, loaded.config)}  <- ${loaded.sources[key]}`);
+  }
+  for (const warning of loaded.warnings) {
+    report.warn(warning);
+  }
+  for (const issue of validateResolvedConfig(loaded.config, loaded.sources)) {
+    report.error(`${issue.path}: ${issue.message}`);
+  }
+  if (!loaded.config.apiKey && Object.values(loaded.config.clientConnections).every((entry) => !entry.apiKey)) {
+    report.warn("No API key is configured; requests are sent without apikey/x-api-key headers.");
+  }
+}
+
+async function checkClients(report: DoctorReport, config: AthenaServerConfig): Promise<void> {
+  report.heading("Client connectivity:");
+  if (config.availableClients.length === 0) {
+    report.error("No Athena clients are configured.");
+    return;
+  }
+
+  const runtime = new AthenaRuntime(config);
+  for (const client of config.availableClients) {
+    const { baseUrl } = runtime.getClientConnection(client);
+    for (const path of PROBE_PATHS) {
+      const started = Date.now();
+      try {
+        await runtime.apiFetch(path, client, { timeoutMs: PROBE_TIMEOUT_MS });
+        report.ok(`${client}: GET ${baseUrl}${path} (${Date.now() - started} ms)`);
+      } catch (err) {
+        report.error(`${client}: GET ${baseUrl}${path} failed: ${String((err as Error)?.message ?? err).slice(0, 300)}`);
+      }
+    }
+  }
+}
+
+/**
+ * `athena-mcp doctor`: validate the config file against the published schema,
+ * show where every merged setting came from, check the merged values against
+ * the same bounds, and probe each client's
+ * `/ping` and `/management/capabilities`. Resolves to the process exit code
+ * (1 when any check failed).
+ */
+export async function runDoctor(write: Write = (line) => process.stdout.write(`${line}\n`)): Promise<number> {
+  const report = new DoctorReport(write);
+  write(`athena-mcp doctor (version ${getVersion()})`);
+
+  let loaded: LoadedConfig | undefined;
+  if (checkConfigFile(report)) {
+    try {
+      loaded = loadConfigWithSources({ strict: true });
+    } catch (err) {
+      report.heading("Resolved settings:");
+      report.error(String((err as Error)?.message ?? err));
+    }
+  }
+
+  if (loaded) {
+    reportSettings(report, loaded);
+    await checkClients(report, loaded.config);
+  }
+
+  write("");
+  write(
+    report.errors > 0
+      ? `Found ${report.errors} error(s) and ${report.warnings} warning(s).`
+      : `No errors found (${report.warnings} warning(s)).`,
+  );
+  return report.errors > 0 ? 1 : 0;
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { buildDryRunBlock, dryRunSql, findDryRunBlocker, parseDryRunReport } from "./dry-run.js";
+import { parseSqlStatements } from "./query.js";
+
+function encodeReport(report: unknown): string {
+  return `athena_mcp_dry_run:${Buffer.from(JSON.stringify(report)).toString("base64")}:end`;
+}
+
+function resultText(result: { content: Array<{ text: string }> }): string {
+  return result.content[0].text;
+}
+
+describe("findDryRunBlocker", () => {
+  it("refuses statements a rollback cannot undo", () => {
+    const blocker = (sql: string) => findDryRunBlocker(parseSqlStatements(sql))?.reason;
+    expect(blocker("BEGIN; UPDATE t SET x = 1; COMMIT")).toMatch(/controls the transaction/);
+    expect(blocker("VACUUM t")).toMatch(/VACUUM/);
+    expect(blocker("CREATE INDEX CONCURRENTLY i ON t (x)")).toMatch(/CONCURRENTLY/);
+    expect(blocker("SELECT nextval('s')")).toMatch(/nextval\(\)/);
+    expect(blocker('INSERT INTO t VALUES ("nextval"(\'s\'))')).toMatch(/nextval\(\)/);
+    expect(blocker("SELECT pg_catalog.\"setval\"('s', 1)")).toMatch(/setval\(\)/);
+    expect(blocker("COPY t TO '/tmp/out.csv'")).toMatch(/COPY/);
+    expect(blocker("CREATE DATABASE other")).toMatch(/CREATE DATABASE/);
+  });
+
+  it("allows DML and DDL that PostgreSQL rolls back", () => {
+    expect(
+      findDryRunBlocker(
+        parseSqlStatements(
+          "UPDATE t SET note = 'BEGIN; COMMIT'; ALTER TABLE t ADD COLUMN y int; DELETE FROM t RETURNING id",
+        ),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("buildDryRunBlock", () => {
+  it("wraps each statement in a DO block that always raises", () => {
+    const block = buildDryRunBlock(parseSqlStatements("UPDATE t SET x = 'it''s' RETURNING id; DROP TABLE old"));
+    expect(block.startsWith("DO $athena_dry_run$\n")).toBe(true);
+    expect(block.endsWith("\n$athena_dry_run$")).toBe(true);
+    expect(block).toContain(
+      "EXECUTE 'WITH dry_run_rows AS (UPDATE t SET x = ''it''''s'' RETURNING id) SELECT count(*), ",
+    );
+    expect(block).toContain("EXECUTE 'DROP TABLE old';");
+    expect(block.trimEnd().split("\n").slice(-3, -2)[0]).toContain("RAISE EXCEPTION 'athena_mcp_dry_run:%:end'");
+  });
+
+  it("picks a dollar-quote tag that does not appear in the statements", () => {
+    const block = buildDryRunBlock(parseSqlStatements("SELECT '$athena_dry_run$'"));
+    expect(block.startsWith("DO $athena_dry_run_1$\n")).toBe(true);
+  });
+});
+
+describe("parseDryRunReport", () => {
+  it("reads the report out of an escaped gateway error body", () => {
+    const report = [{ command: "UPDATE", returning: [{ id: 1 }], rows: 1, statement: 1 }];
+    const body = JSON.stringify({ error: `ERROR: ${encodeReport(report)}`.replace(/\//g, "\\/") });
+    expect(parseDryRunReport(`HTTP 500 Internal Server Error for POST /gateway/query: ${body}`)).toEqual(report);
+  });
+
+  it("returns undefined when the marker is missing", () => {
+    expect(parseDryRunReport("HTTP 400: syntax error at or near \"DO\"")).toBeUndefined();
+  });
+});
+
+describe("dryRunSql", () => {
+  it("reports row counts and the failing statement without committing", async () => {
+    const report = [
+      { command: "UPDATE", rows: 2, statement: 1 },
+      { command: "DELETE", error: "permission denied for table t", sqlstate: "42501", statement: 2 },
+    ];
+    const sent: string[] = [];
+    const result = await dryRunSql("execute_sql", "UPDATE t SET x = 1; DELETE FROM t; SELECT 1", async (sql) => {
+      sent.push(sql);
+      throw new Error(`HTTP 500: ${encodeReport(report)}`);
+    });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].startsWith("DO ")).toBe(true);
+    expect("isError" in result).toBe(false);
+    expect(JSON.parse(resultText(result))).toEqual({
+      committed: false,
+      dry_run: true,
+      error: "permission denied for table t",
+      failed_statement: 2,
+      skipped_statements: 1,
+      statements: report,
+    });
+  });
+
+  it("refuses before sending anything when a statement cannot be rolled back", async () => {
+    let called = false;
+    const result = await dryRunSql("apply_migration", "UPDATE t SET x = 1; VACUUM t", async () => {
+      called = true;
+    });
+    expect(called).toBe(false);
+    expect(result).toMatchObject({ isError: true });
+    expect(resultText(result)).toContain("statement 2 (VACUUM) cannot be rolled back");
+  });
+
+  it("fails clearly when the backend does not run the rollback block", async () => {
+    const result = await dryRunSql("execute_sql", "DELETE FROM t", async () => {
+      throw new Error("HTTP 400: unsupported statement");
+    });
+    expect(result).toMatchObject({ isError: true });
+    expect(resultText(result)).toContain("did not run the rollback block");
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  findFunctionCall,
+  type ParsedSqlStatement,
+  parseSqlStatements,
+  quoteSqlLiteral,
+  type SqlToken,
+  statementCommand,
+} from "./query.js";
+import { errorContent, jsonContent } from "./responses.js";
+
+/**
+ * Dry runs for SQL writes.
+ *
+ * The statements are executed one by one inside a single PostgreSQL `DO`
+ * block that always ends by raising an exception, so PostgreSQL rolls the
+ * whole block back no matter how the gateway manages connections or
+ * transactions. The per-statement report (row counts, RETURNING previews,
+ * the first error) travels back inside that exception's message.
+ */
+
+const REPORT_MARKER = "athena_mcp_dry_run";
+const REPORT_PATTERN = new RegExp(`${REPORT_MARKER}:([A-Za-z0-9+/=]*):end`);
+const PREVIEW_ROWS = 10;
+
+export interface DryRunStatementReport {
+  command: string;
+  /** PostgreSQL error message when this statement failed (later statements did not run). */
+  error?: string;
+  /** Rows returned by RETURNING (at most PREVIEW_ROWS), when the statement has a RETURNING clause. */
+  returning?: unknown[];
+  /** Rows affected (or returned) by the statement. */
+  rows?: number;
+  sqlstate?: string;
+  /** 1-based position of the statement in the input. */
+  statement: number;
+}
+
+export interface DryRunBlocker {
+  command: string;
+  /** 0-based position of the statement in the input. */
+  index: number;
+  reason: string;
+}
+
+/** Statements that end, open or nest transactions themselves. */
+const TRANSACTION_COMMANDS = new Set([
+  "ABORT",
+  "BEGIN",
+  "COMMIT",
+  "END",
+  "RELEASE",
+  "ROLLBACK",
+  "SAVEPOINT",
+  "START",
+]);
+
+/** Commands PostgreSQL refuses to run inside a transaction block or function. */
+const NON_TRANSACTIONAL_COMMANDS: Record<string, string> = {
+  CHECKPOINT: "CHECKPOINT cannot be undone",
+  VACUUM: "VACUUM cannot run inside a transaction block",
+};
+
+/** Functions whose effects survive a rollback. */
+const UNDOABLE_FUNCTIONS = new Set([
+  "DBLINK",
+  "DBLINK_EXEC",
+  "LO_EXPORT",
+  "NEXTVAL",
+  "PG_ADVISORY_LOCK",
+  "PG_ADVISORY_LOCK_SHARED",
+  "PG_CANCEL_BACKEND",
+  "PG_CREATE_RESTORE_POINT",
+  "PG_FILE_WRITE",
+  "PG_PROMOTE",
+  "PG_RELOAD_CONF",
+  "PG_ROTATE_LOGFILE",
+  "PG_SWITCH_WAL",
+  "PG_TERMINATE_BACKEND",
+  "PG_TRY_ADVISORY_LOCK",
+  "SETVAL",
+]);
+
+const RETURNING_COMMANDS = new Set(["DELETE", "INSERT", "UPDATE"]);
+
+function words(tokens: SqlToken[]): string[] {
+  return tokens.filter((token) => token.type === "word").map((token) => token.value);
+}
+
+function blockerReason(tokens: SqlToken[]): string | undefined {
+  const command = statementCommand(tokens);
+  const [, second] = words(tokens);
+  if (TRANSACTION_COMMANDS.has(command) || (command === "PREPARE" && second === "TRANSACTION")) {
+    return `${command} controls the transaction itself`;
+  }
+  if (NON_TRANSACTIONAL_COMMANDS[command]) return NON_TRANSACTIONAL_COMMANDS[command];
+  if (command === "ALTER" && second === "SYSTEM") return "ALTER SYSTEM cannot run inside a transaction block";
+  if ((command === "CREATE" || command === "DROP") && (second === "DATABASE" || second === "TABLESPACE")) {
+    return `${command} ${second} cannot run inside a transaction block`;
+  }
+  if (command === "REINDEX" && (second === "SYSTEM" || second === "DATABASE")) {
+    return `REINDEX ${second} cannot run inside a transaction block`;
+  }
+  if (command === "CREATE" && second === "SUBSCRIPTION") {
+    return "CREATE SUBSCRIPTION cannot run inside a transaction block";
+  }
+  const all = words(tokens);
+  if (command === "COPY" && (all.includes("PROGRAM") || (all.includes("TO") && !all.includes("STDOUT")))) {
+    return "COPY to a file or program writes outside the database";
+  }
+  if (all.includes("CONCURRENTLY")) return `${command} CONCURRENTLY cannot run inside a transaction block`;
+  if (command === "DISCARD" && second === "ALL") return "DISCARD ALL cannot run inside a transaction block";
+
+  const call = findFunctionCall(tokens, UNDOABLE_FUNCTIONS);
+  return call ? `${call}() has effects a rollback does not undo` : undefined;
+}
+
+/** First statement that cannot be dry-run because rolling it back is impossible or meaningless. */
+export function findDryRunBlocker(statements: ParsedSqlStatement[]): DryRunBlocker | undefined {
+  for (const [index, statement] of statements.entries()) {
+    const reason = blockerReason(statement.tokens);
+    if (reason) return { command: statementCommand(statement.tokens), index, reason };
+  }
+  return undefined;
+}
+
+function hasReturning(statement: ParsedSqlStatement): boolean {
+  return (
+    RETURNING_COMMANDS.has(statement.tokens[0]?.value) &&
+    statement.tokens.some((token) => token.type === "word" && token.value === "RETURNING")
+  );
+}
+
+/** Dollar-quote tag that does not occur anywhere in `body`. */
+function dollarTag(body: string): string {
+  let tag = "$athena_dry_run$";
+  for (let n = 1; body.includes(tag); n += 1) tag = `$athena_dry_run_${n}$`;
+  return tag;
+}
+
+/**
+ * Build the `DO` block that runs `statements` and always raises, carrying a
+ * base64-encoded JSON report in the exception message.
+ */
+export function buildDryRunBlock(statements: ParsedSqlStatement[]): string {
+  const raiseReport =
+    `RAISE EXCEPTION '${REPORT_MARKER}:%:end', ` +
+    "translate(encode(convert_to(report::text, 'UTF8'), 'base64'), E'\\n', '');";
+  const lines = [
+    "DECLARE",
+    "  report jsonb := '[]'::jsonb;",
+    "  affected bigint;",
+    "  preview jsonb;",
+    "BEGIN",
+  ];
+  statements.forEach((statement, index) => {
+    const entry = `'statement', ${index + 1}, 'command', ${quoteSqlLiteral(statementCommand(statement.tokens))}`;
+    lines.push("  BEGIN");
+    if (hasReturning(statement)) {
+      const wrapped =
+        `WITH dry_run_rows AS (${statement.text}) SELECT count(*), ` +
+        `(SELECT jsonb_agg(to_jsonb(p)) FROM (SELECT * FROM dry_run_rows LIMIT ${PREVIEW_ROWS}) p) FROM dry_run_rows`;
+      lines.push(`    EXECUTE ${quoteSqlLiteral(wrapped)} INTO affected, preview;`);
+      lines.push(
+        `    report := report || jsonb_build_object(${entry}, 'rows', affected, ` +
+          "'returning', coalesce(preview, '[]'::jsonb));",
+      );
+    } else {
+      lines.push(`    EXECUTE ${quoteSqlLiteral(statement.text)};`);
+      lines.push("    GET DIAGNOSTICS affected = ROW_COUNT;");
+      lines.push(`    report := report || jsonb_build_object(${entry}, 'rows', affected);`);
+    }
+    lines.push("  EXCEPTION WHEN OTHERS THEN");
+    lines.push(`    report := report || jsonb_build_object(${entry}, 'error', SQLERRM, 'sqlstate', SQLSTATE);`);
+    lines.push(`    ${raiseReport}`);
+    lines.push("  END;");
+  });
+  lines.push(`  ${raiseReport}`, "END");
+  const body = lines.join("\n");
+  const tag = dollarTag(body);
+  return `DO ${tag}\n${body}\n${tag}`;
+}
+
+/** Extract the report from whatever the gateway returned or threw; undefined when it is not there. */
+export function parseDryRunReport(output: string): DryRunStatementReport[] | undefined {
+  const match = REPORT_PATTERN.exec(output.replace(/\\\//g, "/"));
+  if (!match) return undefined;
+  try {
+    const report = JSON.parse(Buffer.from(match[1], "base64").toString("utf8"));
+    return Array.isArray(report) ? (report as DryRunStatementReport[]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Dry-run `sql` through `execute` (which sends one SQL string to the backend)
+ * and turn the outcome into a tool result. Statements whose effects a
+ * rollback cannot undo are refused before anything is sent.
+ */
+export async function dryRunSql(
+  toolName: string,
+  sql: string,
+  execute: (sql: string) => Promise<unknown>,
+) {
+  const statements = parseSqlStatements(sql);
+  if (statements.length === 0) return errorContent(`${toolName} dry run: no SQL statements to run.`);
+
+  const blocker = findDryRunBlocker(statements);
+  if (blocker) {
+    return errorContent(
+      `${toolName} refused the dry run: statement ${blocker.index + 1} (${blocker.command}) cannot be rolled back ` +
+        `(${blocker.reason}). Nothing was executed.`,
+    );
+  }
+
+  let output: string;
+  try {
+    const result = await execute(buildDryRunBlock(statements));
+    output = typeof result === "string" ? result : JSON.stringify(result);
+  } catch (err) {
+    output = String((err as Error)?.message ?? err);
+  }
+
+  const report = parseDryRunReport(output);
+  if (!report) {
+    return errorContent(
+      `${toolName} dry run failed: the backend did not run the rollback block (it needs PostgreSQL DO support), ` +
+        `so no statements were applied.\n\n${output.slice(0, 1000)}`,
+    );
+  }
+  const failed = report.find((entry) => entry.error !== undefined);
+  return jsonContent({
+    committed: false,
+    dry_run: true,
+    ...(failed ? { error: failed.error, failed_statement: failed.statement } : {}),
+    statements: report,
+    ...(failed && failed.statement < statements.length
+      ? { skipped_statements: statements.length - failed.statement }
+      : {}),
+  });
+}
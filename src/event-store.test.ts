@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "./event-store.js";
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/progress", params: { n } } as JSONRPCMessage;
+}
+
+describe("InMemoryEventStore", () => {
+  it("replays only events after the last seen id on the same stream", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("stream-a", notification(1));
+    await store.storeEvent("stream-b", notification(2));
+    await store.storeEvent("stream-a", notification(3));
+
+    const replayed: JSONRPCMessage[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_id, message) => {
+        replayed.push(message);
+      },
+    });
+
+    expect(streamId).toBe("stream-a");
+    expect(replayed).toEqual([notification(3)]);
+  });
+
+  it("bounds the number of buffered events per stream", async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent("s", notification(1));
+    await store.storeEvent("s", notification(2));
+    await store.storeEvent("s", notification(3));
+
+    const replayed: JSONRPCMessage[] = [];
+    await store.replayEventsAfter(first, {
+      send: async (_id, message) => {
+        replayed.push(message);
+      },
+    });
+
+    expect(replayed).toEqual([notification(2), notification(3)]);
+  });
+
+  it("returns an empty stream id for unknown events", async () => {
+    const store = new InMemoryEventStore();
+    expect(await store.replayEventsAfter("missing::1", { send: async () => {} })).toBe("");
+  });
+});
@@ -0,0 +1,66 @@
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+const DEFAULT_MAX_EVENTS_PER_STREAM = 500;
+const EVENT_ID_SEPARATOR = "::";
+
+interface StoredEvent {
+  id: EventId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Bounded in-memory event store used by the Streamable HTTP transport so that
+ * clients can resume an SSE stream with `Last-Event-ID` after a dropped connection.
+ *
+ * One store is created per MCP session and discarded when the session closes,
+ * so memory is bounded by `maxEventsPerStream` x open streams.
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly streams = new Map<StreamId, StoredEvent[]>();
+  private sequence = 0;
+
+  constructor(private readonly maxEventsPerStream = DEFAULT_MAX_EVENTS_PER_STREAM) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence += 1;
+    const id = `${streamId}${EVENT_ID_SEPARATOR}${this.sequence}`;
+    let events = this.streams.get(streamId);
+    if (!events) {
+      events = [];
+      this.streams.set(streamId, events);
+    }
+    events.push({ id, message });
+    if (events.length > this.maxEventsPerStream) {
+      events.splice(0, events.length - this.maxEventsPerStream);
+    }
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const index = eventId.lastIndexOf(EVENT_ID_SEPARATOR);
+    if (index <= 0) return undefined;
+    const streamId = eventId.slice(0, index);
+    return this.streams.has(streamId) ? streamId : undefined;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const streamId = await this.getStreamIdForEventId(lastEventId);
+    if (!streamId) return "";
+
+    const events = this.streams.get(streamId) ?? [];
+    const start = events.findIndex((event) => event.id === lastEventId);
+    // When the last seen event was already evicted, replay everything still buffered.
+    for (const event of events.slice(start + 1)) {
+      await send(event.id, event.message);
+    }
+    return streamId;
+  }
+}
@@ -0,0 +1,364 @@
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { matchCallerToken, readBearerToken, toAuthInfo } from "./auth.js";
+import { InMemoryEventStore } from "./event-store.js";
+import { logger } from "./logger.js";
+import type { AthenaRuntime } from "./runtime.js";
+import { getVersion } from "./version.js";
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+/** How often idle sessions are looked for. */
+const SESSION_SWEEP_INTERVAL_MS = 60_000;
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+interface McpSession {
+  /** Requests of the session still being served (an open SSE stream counts until it closes). */
+  active: number;
+  /** Caller that opened the session; later requests must present the same identity. */
+  callerName?: string;
+  /** When the last request of the session finished or started. */
+  lastSeen: number;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+}
+
+function requestPath(req: IncomingMessage): string {
+  return (req.url ?? "/").split("?")[0];
+}
+
+/** Host name of a Host header or Origin URL, lower-cased and without port or IPv6 brackets. */
+function hostName(value: string, withScheme: boolean): string | undefined {
+  try {
+    return new URL(withScheme ? value : `http://${value}`).hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return undefined;
+  }
+}
+
+function isLoopback(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host) || host.startsWith("127.");
+}
+
+/**
+ * Host names requests may address, against DNS rebinding: `http_allowed_hosts`
+ * when set; otherwise the loopback names, plus the bind address when it is a
+ * specific one. Undefined (no check) when bound to every interface without a list.
+ */
+function allowedHosts(runtime: AthenaRuntime): string[] | undefined {
+  const { httpAllowedHosts, httpHost } = runtime.config;
+  if (httpAllowedHosts.length) return httpAllowedHosts.map((host) => hostName(host, false) ?? host.toLowerCase());
+  const bound = hostName(httpHost, false) ?? httpHost;
+  if (bound === "0.0.0.0" || bound === "::") return undefined;
+  return isLoopback(bound) ? LOOPBACK_HOSTS : [...LOOPBACK_HOSTS, bound];
+}
+
+/**
+ * Reject requests whose Host, or Origin when a browser sends one, is not an
+ * allowed host name, so a page on another domain that resolves to this server
+ * cannot drive it. Returns false (after writing a 403) when rejected.
+ */
+function checkRequestHost(runtime: AthenaRuntime, req: IncomingMessage, res: ServerResponse): boolean {
+  const allowed = allowedHosts(runtime);
+  if (!allowed) return true;
+  const host = hostName(req.headers.host ?? "", false);
+  const origin = req.headers.origin;
+  const originHost = origin && origin !== "null" ? hostName(origin, true) : undefined;
+  let rejected: string | undefined;
+  if (!host || !allowed.includes(host)) rejected = `Host ${req.headers.host ?? "(none)"}`;
+  else if (origin && !(originHost && allowed.includes(originHost))) rejected = `Origin ${origin}`;
+  if (!rejected) return true;
+  logger.warn("Rejected MCP HTTP request for a host that is not allowed", {
+    host: req.headers.host,
+    origin,
+    remoteAddress: req.socket.remoteAddress,
+  }).catch(() => {});
+  writeJsonRpcError(res, 403, `Forbidden: ${rejected} is not allowed (see http_allowed_hosts)`);
+  return false;
+}
+
+/**
+ * Serve GET /health (and GET /) with the server version and each client's
+ * circuit state and request counts. Reports "degraded" while any circuit is
+ * not closed. Returns true when handled.
+ */
+function handleHealthRequest(req: IncomingMessage, res: ServerResponse, runtime: AthenaRuntime): boolean {
+  const path = requestPath(req);
+  if (req.method === "GET" && (path === "/health" || path === "/")) {
+    const clients = Object.fromEntries(
+      Object.entries(runtime.getClientHealth()).map(([name, health]) => [
+        name,
+        { active: health.concurrency.active, circuit: health.circuit.state, queued: health.concurrency.queued },
+      ]),
+    );
+    const degraded = Object.values(clients).some((client) => client.circuit !== "closed");
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ clients, status: degraded ? "degraded" : "ok", version: getVersion() }));
+    return true;
+  }
+  return false;
+}
+
+function writeJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+function writeUnauthorized(res: ServerResponse, message: string, error = "invalid_token"): void {
+  res.writeHead(401, {
+    "Content-Type": "application/json",
+    "WWW-Authenticate": `Bearer realm="athena-mcp", error="${error}"`,
+  });
+  res.end(JSON.stringify({ error, error_description: message }));
+}
+
+/**
+ * Attach `req.auth` from the bearer token when caller tokens are configured.
+ * Returns false (after writing a 401) when the request must be rejected.
+ */
+function authenticateRequest(
+  runtime: AthenaRuntime,
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+): boolean {
+  const tokens = runtime.config.authTokens;
+  if (tokens.length === 0) return true;
+
+  const presented = readBearerToken(req);
+  if (!presented) {
+    writeUnauthorized(res, "Missing bearer token", "invalid_request");
+    return false;
+  }
+  const entry = matchCallerToken(tokens, presented);
+  if (!entry) {
+    logger.warn("Rejected MCP HTTP request with unknown bearer token", {
+      remoteAddress: req.socket.remoteAddress,
+    }).catch(() => {});
+    writeUnauthorized(res, "Unknown bearer token");
+    return false;
+  }
+  req.auth = toAuthInfo(presented, entry);
+  return true;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(buf);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function listen(server: Server, port: number, host?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
+
+export function startHealthServer(runtime: AthenaRuntime): void {
+  const { config } = runtime;
+  if (config.healthPort == null || config.healthPort <= 0) return;
+
+  const healthServer = createServer((req, res) => {
+    if (handleHealthRequest(req, res, runtime)) return;
+    res.writeHead(404);
+    res.end();
+  });
+
+  healthServer.on("error", (err) => {
+    logger.error(`Health server error on port ${config.healthPort}`, { error: err.message }).catch(() => {});
+    process.stderr.write(`athena-mcp health server error on port ${config.healthPort}: ${err.message}\n`);
+  });
+
+  healthServer.listen(config.healthPort, () => {
+    const msg = `athena-mcp health server listening on port ${config.healthPort}`;
+    process.stderr.write(msg + "\n");
+    logger.info(msg).catch(() => {});
+  });
+}
+
+/**
+ * Serve MCP over Streamable HTTP at `/mcp` (plus `/health`) on `config.httpPort`.
+ *
+ * Each initialize request opens a new session with its own McpServer built by
+ * `createSessionServer`; subsequent POST/GET/DELETE requests are routed by the
+ * `Mcp-Session-Id` header. SSE streams are resumable via `Last-Event-ID`.
+ * When `auth_tokens` are configured every request must carry a known bearer token,
+ * and a session can only be used by the caller that opened it. Requests for
+ * host names that are not allowed are refused (checkRequestHost), and a
+ * session with no request in flight for `http_session_idle_ms` is closed.
+ */
+export async function startHttpServer(
+  runtime: AthenaRuntime,
+  createSessionServer: () => McpServer,
+): Promise<Server> {
+  const config = runtime.config;
+  const sessions = new Map<string, McpSession>();
+
+  async function handleMcpRequest(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    if (!authenticateRequest(runtime, req, res)) return;
+    const callerName = req.auth?.clientId;
+
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing && existing.callerName !== callerName) {
+      writeJsonRpcError(res, 403, "Forbidden: session belongs to a different caller");
+      return;
+    }
+    if (existing) {
+      existing.active += 1;
+      existing.lastSeen = Date.now();
+      res.once("close", () => {
+        existing.active -= 1;
+        existing.lastSeen = Date.now();
+      });
+    }
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        writeJsonRpcError(res, 400, `Parse error: ${String((err as Error)?.message ?? err)}`);
+        return;
+      }
+
+      if (existing) {
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        writeJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        writeJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+        return;
+      }
+
+      const server = createSessionServer();
+      const transport = new StreamableHTTPServerTransport({
+        eventStore: new InMemoryEventStore(),
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { active: 0, callerName, lastSeen: Date.now(), server, transport });
+          logger.info("MCP HTTP session opened", { sessionId: id, caller: callerName, activeSessions: sessions.size }).catch(() => {});
+        },
+      });
+      transport.onclose = () => {
+        const id = transport.sessionId;
+        if (id && sessions.delete(id)) {
+          logger.info("MCP HTTP session closed", { sessionId: id, activeSessions: sessions.size }).catch(() => {});
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!existing) {
+        writeJsonRpcError(res, sessionId ? 404 : 400, sessionId ? `Session not found: ${sessionId}` : "Bad Request: No valid session ID provided");
+        return;
+      }
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" });
+    res.end();
+  }
+
+  const httpServer = createServer((req, res) => {
+    if (handleHealthRequest(req, res, runtime)) return;
+
+    if (requestPath(req) !== MCP_PATH) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    if (!checkRequestHost(runtime, req, res)) return;
+
+    handleMcpRequest(req, res).catch((err) => {
+      logger.error("MCP HTTP request failed", {
+        error: String(err?.message ?? err),
+        stack: err?.stack,
+      }).catch(() => {});
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // Abandoned sessions would otherwise keep their server, transport and runtime listeners forever.
+  const sweep = setInterval(() => {
+    const idleMs = runtime.config.httpSessionIdleMs;
+    if (idleMs <= 0) return;
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.active > 0 || now - session.lastSeen < idleMs) continue;
+      logger.info("Closing idle MCP HTTP session", { sessionId: id, idleMs: now - session.lastSeen }).catch(() => {});
+      session.server.close().catch(() => {});
+    }
+  }, SESSION_SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(sweep);
+    for (const session of sessions.values()) {
+      session.transport.close().catch(() => {});
+      session.server.close().catch(() => {});
+    }
+    sessions.clear();
+  });
+
+  await listen(httpServer, config.httpPort, config.httpHost);
+
+  const msg = `athena-mcp Streamable HTTP transport listening on http://${config.httpHost}:${config.httpPort}${MCP_PATH}`;
+  process.stderr.write(msg + "\n");
+  await logger.info(msg, { authTokens: config.authTokens.length });
+  if (!allowedHosts(runtime)) {
+    await logger.warn("Streamable HTTP transport is bound to every interface without http_allowed_hosts; Host and Origin headers are not checked");
+  }
+  if (config.authTokens.length === 0) {
+    await logger.warn("Streamable HTTP transport has no auth_tokens configured; anyone who can reach the port can use the server's Athena credentials");
+  }
+
+  return httpServer;
+}
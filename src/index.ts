@@ -1,15 +1,10 @@
-import { createServer } from "node:http";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { loadConfig } from "./config.js";
+import { loadConfig, redactConfigForLog } from "./config.js";
+import { watchConfigFile } from "./config-watcher.js";
+import { startHealthServer, startHttpServer } from "./http.js";
 import { AthenaRuntime } from "./runtime.js";
-import { registerAdminTools } from "./tools/admin-tools.js";
-import { registerAuthTools } from "./tools/auth-tools.js";
-import { registerChatTools } from "./tools/chat-tools.js";
-import { registerDataTools } from "./tools/data-tools.js";
-import { registerGatewayTools } from "./tools/gateway-tools.js";
-import { registerSdkDbTools } from "./tools/sdk-db-tools.js";
-import { registerStorageTools } from "./tools/storage-tools.js";
+import { createMcpServer } from "./server.js";
+import { runDoctor } from "./doctor.js";
 import { getVersion } from "./version.js";
 import { logger } from "./logger.js";
 import { getAthenaPaths } from "./paths.js";
@@ -47,55 +42,12 @@ function setupGlobalErrorHandlers(): void {
   });
 }
 
-const config = loadConfig();
-const runtime = new AthenaRuntime(config);
-const server = new McpServer({
-  name: "athena-mcp",
-  version: VERSION,
-});
-
-registerDataTools(server, runtime);
-registerStorageTools(server, runtime);
-registerAdminTools(server, runtime);
-registerAuthTools(server, runtime);
-registerChatTools(server, runtime);
-registerSdkDbTools(server, runtime);
-registerGatewayTools(server, runtime);
-
-function startHealthServer(): void {
-  if (config.healthPort == null || config.healthPort <= 0) return;
-
-  const healthServer = createServer((req, res) => {
-    if (req.method === "GET" && (req.url === "/health" || req.url === "/")) {
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ status: "ok", version: VERSION }));
-      return;
-    }
-    res.writeHead(404);
-    res.end();
-  });
-
-  healthServer.on("error", (err) => {
-    logger.error(`Health server error on port ${config.healthPort}`, { error: err.message }).catch(() => {});
-    process.stderr.write(`athena-mcp health server error on port ${config.healthPort}: ${err.message}\n`);
-  });
-
-  healthServer.listen(config.healthPort, () => {
-    const msg = `athena-mcp health server listening on port ${config.healthPort}`;
-    process.stderr.write(msg + "\n");
-    logger.info(msg).catch(() => {});
-  });
-}
-
-function redactConfigForLog(cfg: any) {
-  const copy = { ...cfg };
-  if (copy.apiKey) copy.apiKey = copy.apiKey ? "[REDACTED]" : "";
-  return copy;
-}
-
 async function main(): Promise<void> {
   setupGlobalErrorHandlers();
 
+  const config = loadConfig();
+  const runtime = new AthenaRuntime(config);
+
   // Ensure ~/.athena structure + start logging to files
   await logger.init();
 
@@ -107,12 +59,17 @@ async function main(): Promise<void> {
     logsDir: paths.logsDir,
   });
 
-  startHealthServer();
-
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-
-  const startupMsg = `athena-mcp started (base_url=${config.baseUrl}, client=${config.defaultClient}, allowed_clients=${config.availableClients.join(",")}, read_only=${config.readOnly}, admin_experimental=${config.adminExperimentalEnabled}, version=${VERSION})`;
+  if (config.transport === "http") {
+    // /health is served by the MCP listener; only start a separate one on a different port.
+    if (config.healthPort !== config.httpPort) startHealthServer(runtime);
+    await startHttpServer(runtime, () => createMcpServer(runtime));
+  } else {
+    startHealthServer(runtime);
+    const server = createMcpServer(runtime);
+    await server.connect(new StdioServerTransport());
+  }
+
+  const startupMsg = `athena-mcp started (transport=${config.transport}, profile=${config.profile ?? "none"}, base_url=${config.baseUrl}, client=${config.defaultClient}, allowed_clients=${config.availableClients.join(",")}, read_only=${config.readOnly}, admin_experimental=${config.adminExperimentalEnabled}, version=${VERSION})`;
   process.stderr.write(startupMsg + "\n");
 
   await logger.info("MCP server connected and ready", {
@@ -120,10 +77,22 @@ async function main(): Promise<void> {
     paths,
     statsSnapshot: logger.getStatsSnapshot(),
   });
+
+  watchConfigFile(runtime);
 }
 
-main().catch(async (error) => {
-  await logger.error("Fatal startup error", { error: String(error), stack: (error as any)?.stack }).catch(() => {});
-  process.stderr.write(`Fatal error: ${String(error)}\n`);
-  process.exit(1);
-});
+if (process.argv[2] === "doctor") {
+  runDoctor().then(
+    (code) => process.exit(code),
+    (error) => {
+      process.stderr.write(`athena-mcp doctor failed: ${String(error)}\n`);
+      process.exit(1);
+    },
+  );
+} else {
+  main().catch(async (error) => {
+    await logger.error("Fatal startup error", { error: String(error), stack: (error as any)?.stack }).catch(() => {});
+    process.stderr.write(`Fatal error: ${String(error)}\n`);
+    process.exit(1);
+  });
+}
@@ -13,11 +13,13 @@ export interface ToolCallLogEntry {
   timestamp: string;
   tool: string;
   client: string;
+  caller?: string; // authenticated HTTP caller name
   durationMs: number;
   success: boolean;
   input?: unknown; // may be redacted
   outputPreview?: string; // truncated success
   error?: string; // message + stack summary
+  mirror?: string; // Athena base URL that served the last request
 }
 
 interface StatsData {
@@ -0,0 +1,197 @@
+import { matchesPattern, type PolicyTableRef } from "./policy.js";
+
+/**
+ * PII masking for rows returned to the model.
+ *
+ * Two kinds of rules: column patterns (`mask_columns`, same glob syntax as
+ * policy column rules) replace the whole value, and value detectors
+ * (`mask_detectors`) replace the matching part of any string value, including
+ * strings nested in JSON columns. Detectors are heuristics: they err towards
+ * masking, and values they miss are only covered by a column pattern.
+ */
+
+export const PII_DETECTORS = ["credit_card", "email", "jwt", "phone"] as const;
+export type PiiDetector = (typeof PII_DETECTORS)[number];
+
+export interface MaskingRules {
+  /** Column patterns over `schema.table.column` whose values are always masked. */
+  columns: string[];
+  detectors: PiiDetector[];
+}
+
+export const MASKED_VALUE = "[masked]";
+
+interface Detector {
+  pattern: RegExp;
+  /** Extra check on a pattern match; the match is masked only when this passes. */
+  accept?: (match: string) => boolean;
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i += 1) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Dates, times and IPv4 addresses look like separated digit runs too. */
+const NOT_A_PHONE = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{1,3}(\.\d{1,3}){3}|\d{1,2}:\d{2}(:\d{2})?)$/;
+
+const DETECTORS: Record<PiiDetector, Detector> = {
+  credit_card: {
+    accept: (match) => {
+      const digits = digitsOf(match);
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    },
+    pattern: /(?<![\w.-])\d(?:[ -]?\d){12,18}(?![\w.-])/g,
+  },
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  jwt: {
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  phone: {
+    // A leading + or at least one separator: bare digit runs are usually ids.
+    accept: (match) => {
+      const digits = digitsOf(match).length;
+      return digits >= 7 && digits <= 15 && (match.startsWith("+") || /[\s().-]/.test(match)) && !NOT_A_PHONE.test(match);
+    },
+    pattern: /(?<![\w.+-])\+?\(?\d[\d\s().-]{5,}\d(?![\w.-])/g,
+  },
+};
+
+/** Parse a detector list; `all` selects every detector, unknown names are returned separately. */
+export function parseDetectorList(values: string[]): { detectors: PiiDetector[]; unknown: string[] } {
+  const detectors = new Set<PiiDetector>();
+  const unknown: string[] = [];
+  for (const value of values.map((entry) => entry.trim().toLowerCase()).filter(Boolean)) {
+    if (value === "all") PII_DETECTORS.forEach((detector) => detectors.add(detector));
+    else if ((PII_DETECTORS as readonly string[]).includes(value)) detectors.add(value as PiiDetector);
+    else unknown.push(value);
+  }
+  return { detectors: [...detectors].sort(), unknown };
+}
+
+/** `value` with every detector match replaced by `[masked:<detector>]`. */
+export function maskString(value: string, detectors: PiiDetector[]): string {
+  let masked = value;
+  for (const name of detectors) {
+    const { accept, pattern } = DETECTORS[name];
+    masked = masked.replace(pattern, (match) => (!accept || accept(match) ? `[masked:${name}]` : match));
+  }
+  return masked;
+}
+
+/** Mask strings anywhere inside `value`; `onMask` is called when something was replaced. */
+function maskValue(value: unknown, detectors: PiiDetector[], onMask: () => void): unknown {
+  if (typeof value === "string") {
+    const masked = maskString(value, detectors);
+    if (masked !== value) onMask();
+    return masked;
+  }
+  if (Array.isArray(value)) return value.map((entry) => maskValue(entry, detectors, onMask));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        maskValue(entry, detectors, onMask),
+      ]),
+    );
+  }
+  return value;
+}
+
+export function hasMaskingRules(rules: MaskingRules): boolean {
+  return rules.columns.length > 0 || rules.detectors.length > 0;
+}
+
+/**
+ * Mask query result rows. `tables` are the relations the rows came from, so
+ * column patterns like `users.email` can match; with no tables a pattern only
+ * matches by its last segment. Returns the masked rows (same order and count)
+ * and the columns that had something masked.
+ */
+export function maskRows(
+  rules: MaskingRules,
+  tables: PolicyTableRef[],
+  rows: unknown[],
+): { maskedColumns: string[]; rows: unknown[] } {
+  if (!hasMaskingRules(rules)) return { maskedColumns: [], rows };
+  const masked = new Set<string>();
+  const byColumn = new Map<string, boolean>();
+  const columnMasked = (column: string) => {
+    let hit = byColumn.get(column);
+    if (hit === undefined) {
+      const names = tables.length
+        ? tables.map((ref) => `${ref.schema}.${ref.table}.${column}`)
+        : [column];
+      hit = rules.columns.some((pattern) =>
+        names.some((name) =>
+          matchesPattern(tables.length ? pattern : pattern.slice(pattern.lastIndexOf(".") + 1), name),
+        ),
+      );
+      byColumn.set(column, hit);
+    }
+    return hit;
+  };
+
+  const out = rows.map((row) => {
+    if (!row || typeof row !== "object" || Array.isArray(row)) return row;
+    const next: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(row as Record<string, unknown>)) {
+      if (value === null || value === undefined) {
+        next[column] = value;
+      } else if (columnMasked(column)) {
+        next[column] = MASKED_VALUE;
+        masked.add(column);
+      } else {
+        next[column] = rules.detectors.length
+          ? maskValue(value, rules.detectors, () => masked.add(column))
+          : value;
+      }
+    }
+    return next;
+  });
+  return { maskedColumns: [...masked].sort(), rows: out };
+}
+
+/**
+ * Mask a result that is not a row array (an object from an RPC or an
+ * endpoint, or the keys around the rows): every object inside it is masked
+ * like a row, so column patterns match its keys at any depth, and detectors
+ * apply to every string.
+ */
+export function maskResult(
+  rules: MaskingRules,
+  tables: PolicyTableRef[],
+  value: unknown,
+): { maskedColumns: string[]; value: unknown } {
+  if (!hasMaskingRules(rules)) return { maskedColumns: [], value };
+  const masked = new Set<string>();
+  const walk = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(walk);
+    if (typeof node === "string") return maskString(node, rules.detectors);
+    if (!node || typeof node !== "object") return node;
+    const { maskedColumns, rows } = maskRows(rules, tables, [node]);
+    maskedColumns.forEach((column) => masked.add(column));
+    return Object.fromEntries(
+      Object.entries(rows[0] as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        entry === MASKED_VALUE ? entry : walk(entry),
+      ]),
+    );
+  };
+  const out = walk(value);
+  return { maskedColumns: [...masked].sort(), value: out };
+}
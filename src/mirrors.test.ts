@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isMirrorFailureStatus, MirrorPool } from "./mirrors.js";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isMirrorFailureStatus", () => {
+  it("only counts gateway errors against a mirror", () => {
+    expect(isMirrorFailureStatus(502)).toBe(true);
+    expect(isMirrorFailureStatus(504)).toBe(true);
+    expect(isMirrorFailureStatus(500)).toBe(false);
+    expect(isMirrorFailureStatus(429)).toBe(false);
+  });
+});
+
+describe("MirrorPool", () => {
+  it("prefers the first mirror that is up and falls back to the primary when all are down", () => {
+    const pool = new MirrorPool(["https://a", "https://b"]);
+    pool.markDown("https://a", "ECONNREFUSED");
+    expect(pool.active()).toBe("https://b");
+    expect(pool.nextUntried(new Set(["https://b"]))).toBeUndefined();
+
+    pool.markDown("https://b", "HTTP 503");
+    expect(pool.active()).toBe("https://a");
+    pool.dispose();
+  });
+
+  it("never marks down the only mirror", () => {
+    const pool = new MirrorPool(["https://a"]);
+    pool.markDown("https://a", "ECONNREFUSED");
+    expect(pool.snapshot()).toEqual([{ lastError: undefined, since: undefined, status: "up", url: "https://a" }]);
+  });
+
+  it("brings a mirror back once its /ping probe answers", async () => {
+    const fetchMock = vi.fn(async () => new Response("pong"));
+    vi.stubGlobal("fetch", fetchMock);
+    const pool = new MirrorPool(["https://a", "https://b"]);
+    pool.markDown("https://a", "ECONNREFUSED");
+
+    await pool.probeDownMirrors();
+
+    expect(fetchMock).toHaveBeenCalledWith("https://a/ping", expect.anything());
+    expect(pool.active()).toBe("https://a");
+    expect(pool.snapshot()[0].status).toBe("up");
+    pool.dispose();
+  });
+});
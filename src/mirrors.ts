@@ -0,0 +1,139 @@
+import { logger } from "./logger.js";
+
+const PROBE_INTERVAL_MS = 15_000;
+const PROBE_TIMEOUT_MS = 5_000;
+
+/**
+ * 502/503/504 mean the mirror (or the proxy in front of it) is unavailable.
+ * A plain 500 is usually an application error such as a failing query and says
+ * nothing about the mirror, so it does not mark it down.
+ */
+const MIRROR_DOWN_STATUSES = new Set([502, 503, 504]);
+
+export function isMirrorFailureStatus(status: number): boolean {
+  return MIRROR_DOWN_STATUSES.has(status);
+}
+
+export interface MirrorStatus {
+  lastError?: string;
+  /** ISO timestamp of the last up/down transition. */
+  since?: string;
+  status: "down" | "up";
+  url: string;
+}
+
+interface MirrorState {
+  downSince?: number;
+  lastError?: string;
+  upSince?: number;
+}
+
+/**
+ * Ordered set of base URLs serving the same Athena deployment. Requests go to
+ * the first mirror that is up; a mirror marked down is skipped until a
+ * background `/ping` probe sees it answer again. When every mirror is down the
+ * first one is used so requests still surface a real error.
+ */
+export class MirrorPool {
+  private readonly states = new Map<string, MirrorState>();
+  private probeTimer?: NodeJS.Timeout;
+
+  constructor(
+    public readonly urls: string[],
+    private readonly probeIntervalMs = PROBE_INTERVAL_MS,
+  ) {
+    for (const url of urls) this.states.set(url, {});
+  }
+
+  /** The mirror new requests should use. */
+  public active(): string {
+    return this.urls.find((url) => this.isUp(url)) ?? this.urls[0];
+  }
+
+  /** Next mirror that is up and not in `tried`, for failing over within one request. */
+  public nextUntried(tried: Set<string>): string | undefined {
+    return this.urls.find((url) => !tried.has(url) && this.isUp(url));
+  }
+
+  public isUp(url: string): boolean {
+    return this.states.get(url)?.downSince === undefined;
+  }
+
+  public markDown(url: string, reason: string): void {
+    const state = this.states.get(url);
+    if (!state || this.urls.length < 2) return;
+    state.lastError = reason;
+    if (state.downSince !== undefined) return;
+    state.downSince = Date.now();
+    state.upSince = undefined;
+    logger.warn("Athena mirror marked down", {
+      activeMirror: this.active(),
+      mirror: url,
+      reason,
+    }).catch(() => {});
+    this.scheduleProbe();
+  }
+
+  public markUp(url: string): void {
+    const state = this.states.get(url);
+    if (!state || state.downSince === undefined) return;
+    state.downSince = undefined;
+    state.upSince = Date.now();
+    logger.info("Athena mirror recovered", { activeMirror: this.active(), mirror: url }).catch(() => {});
+    if (this.urls.every((candidate) => this.isUp(candidate))) this.stopProbe();
+  }
+
+  public snapshot(): MirrorStatus[] {
+    return this.urls.map((url) => {
+      const state = this.states.get(url) ?? {};
+      const since = state.downSince ?? state.upSince;
+      return {
+        lastError: state.lastError,
+        since: since !== undefined ? new Date(since).toISOString() : undefined,
+        status: state.downSince === undefined ? "up" : "down",
+        url,
+      };
+    });
+  }
+
+  /** Stop background probing (used when the config is replaced). */
+  public dispose(): void {
+    this.stopProbe();
+  }
+
+  /** Probe every down mirror once; any HTTP answer below 500 counts as recovered. */
+  public async probeDownMirrors(): Promise<void> {
+    const down = this.urls.filter((url) => !this.isUp(url));
+    await Promise.all(
+      down.map(async (url) => {
+        try {
+          const response = await fetch(`${url}/ping`, {
+            signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+          });
+          if (response.status < 500) this.markUp(url);
+          else this.recordProbeFailure(url, `HTTP ${response.status}`);
+        } catch (err) {
+          this.recordProbeFailure(url, String((err as Error)?.message ?? err));
+        }
+      }),
+    );
+  }
+
+  private recordProbeFailure(url: string, reason: string): void {
+    const state = this.states.get(url);
+    if (state) state.lastError = reason;
+  }
+
+  private scheduleProbe(): void {
+    if (this.probeTimer) return;
+    this.probeTimer = setInterval(() => {
+      this.probeDownMirrors().catch(() => {});
+    }, this.probeIntervalMs);
+    this.probeTimer.unref();
+  }
+
+  private stopProbe(): void {
+    if (this.probeTimer) clearInterval(this.probeTimer);
+    this.probeTimer = undefined;
+  }
+}
@@ -38,14 +38,16 @@ export async function ensureAthenaDirs(): Promise<AthenaPaths> {
   try {
     await access(paths.configFile);
   } catch {
-    const example = `# Athena MCP configuration (~/.athena/config.yaml)
+    const example = `# yaml-language-server: $schema=https://unpkg.com/@xylex-group/athena-mcp/config.schema.json
+# Athena MCP configuration (~/.athena/config.yaml)
 # These values are used as defaults. Environment variables and CLI flags take precedence.
+# Run \`athena-mcp doctor\` to validate this file and check connectivity.
 #
 # athena:
-#   base_url: https://mirror2.athena-cluster.com
-#   api_key: "your-api-key-here"
-#   default_client: "primary"
-#   available_clients:
+#   athena_base_url: https://mirror2.athena-cluster.com
+#   athena_api_key: "your-api-key-here"   # or env:NAME, file:/path, cmd:<command>
+#   athena_default_client: "primary"
+#   athena_available_clients:
 #     - primary
 #     - analytics
 #   read_only: false
@@ -55,10 +57,10 @@ export async function ensureAthenaDirs(): Promise<AthenaPaths> {
 # You can also use the flat form without the 'athena:' wrapper.
 
 athena:
-  base_url: https://mirror2.athena-cluster.com
-  # api_key: ""
-  # default_client: ""
-  # available_clients: []
+  athena_base_url: https://mirror2.athena-cluster.com
+  # athena_api_key: ""
+  # athena_default_client: ""
+  # athena_available_clients: []
   read_only: false
   athena_admin_experimental_enabled: false
 `;
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { applyReadPolicy, ClientPolicy, matchesPattern, parsePolicyTableRef, scanSqlRelations } from "./policy.js";
+
+describe("matchesPattern", () => {
+  it("matches globs segment by segment against the trailing segments", () => {
+    expect(matchesPattern("orders", "public.orders")).toBe(true);
+    expect(matchesPattern("audit.*", "audit.events")).toBe(true);
+    expect(matchesPattern("audit.*", "public.events")).toBe(false);
+    expect(matchesPattern("*", "billing.invoices")).toBe(true);
+    expect(matchesPattern("sdk_db_*", "sdk_db_delete")).toBe(true);
+    expect(matchesPattern("users.pass*", "public.users.password_hash")).toBe(true);
+    expect(matchesPattern("Users", "public.users")).toBe(true);
+    expect(matchesPattern("public.users.ssn", "users.ssn")).toBe(false);
+  });
+});
+
+describe("ClientPolicy", () => {
+  const policies = {
+    "*": { maxRows: 500, tools: { deny: ["drop_*"] }, write: { schemas: { deny: ["audit"] } } },
+    analytics: {
+      maxRows: 100,
+      read: { columns: { deny: ["password_hash", "users.ssn"] }, tables: { allow: ["public.*", "reporting.*"] } },
+      tools: { allow: ["list_*", "get_*", "execute_sql"] },
+    },
+  };
+
+  it("layers the * entry with the client's own entry and reports the matching rule", () => {
+    const policy = ClientPolicy.forClient(policies, "analytics");
+    expect(policy.maxRows).toBe(100);
+    expect(policy.checkTool("get_table_sample")).toBeUndefined();
+    expect(policy.checkTool("drop_table")).toEqual({
+      rule: 'policies.*.tools.deny "drop_*"',
+      target: "tool drop_table",
+    });
+    expect(policy.checkTool("insert_row")).toEqual({
+      rule: "policies.analytics.tools.allow (no pattern matches)",
+      target: "tool insert_row",
+    });
+  });
+
+  it("checks schemas, tables and columns per access kind", () => {
+    const policy = ClientPolicy.forClient(policies, "analytics");
+    expect(policy.checkTable("read", { schema: "reporting", table: "daily" })).toBeUndefined();
+    expect(policy.checkTable("read", { schema: "billing", table: "invoices" })?.rule).toBe(
+      "policies.analytics.read.tables.allow (no pattern matches)",
+    );
+    expect(policy.checkTable("write", { schema: "audit", table: "events" })?.target).toBe(
+      "write access to table audit.events",
+    );
+    expect(policy.checkColumn("read", { schema: "public", table: "users" }, "ssn")?.rule).toBe(
+      'policies.analytics.read.columns.deny "users.ssn"',
+    );
+    expect(policy.checkColumn("write", { schema: "public", table: "users" }, "ssn")).toBeUndefined();
+  });
+
+  it("refuses raw SQL on tables that column rules may cover", () => {
+    const policy = ClientPolicy.forClient(
+      { "*": { read: { columns: { deny: ["users.ssn"] } }, write: { columns: { deny: ["billing.*.amount"] } } } },
+      "primary",
+    );
+    expect(policy.checkRawSql({ schema: "public", table: "users" })?.rule).toBe('policies.*.read.columns.deny "users.ssn"');
+    expect(policy.checkRawSql({ schema: "billing", table: "invoices" })?.rule).toBe(
+      'policies.*.write.columns.deny "billing.*.amount"',
+    );
+    expect(policy.checkRawSql({ schema: "public", table: "orders" })).toBeUndefined();
+    expect(ClientPolicy.forClient(policies, "analytics").checkRawSql({ schema: "public", table: "orders" })?.rule).toBe(
+      'policies.analytics.read.columns.deny "password_hash"',
+    );
+  });
+
+  it("allows everything for clients without policies", () => {
+    const policy = ClientPolicy.forClient({}, "primary");
+    expect(policy.maxRows).toBeUndefined();
+    expect(policy.restrictsData).toBe(false);
+    expect(policy.checkTool("drop_table")).toBeUndefined();
+  });
+});
+
+describe("applyReadPolicy", () => {
+  const policy = ClientPolicy.forClient(
+    { "*": { maxRows: 2, read: { columns: { deny: ["users.password_hash"] } } } },
+    "primary",
+  );
+  const users = parsePolicyTableRef("users");
+
+  it("drops hidden columns and marks truncated results", () => {
+    const rows = [
+      { id: 1, password_hash: "x" },
+      { id: 2, password_hash: "y" },
+      { id: 3, password_hash: "z" },
+    ];
+    expect(applyReadPolicy(policy, [users], rows)).toEqual({
+      hiddenColumns: ["password_hash"],
+      result: { max_rows: 2, rows: [{ id: 1 }, { id: 2 }], truncated: true },
+      truncated: true,
+    });
+  });
+
+  it("keeps the envelope of wrapped results", () => {
+    expect(applyReadPolicy(policy, [users], { count: 1, rows: [{ id: 1, password_hash: "x" }] })).toEqual({
+      hiddenColumns: ["password_hash"],
+      result: { count: 1, rows: [{ id: 1 }] },
+      truncated: false,
+    });
+  });
+});
+
+describe("scanSqlRelations", () => {
+  const relations = (sql: string) =>
+    scanSqlRelations(sql).relations.map(({ access, ref }) => `${access} ${ref.schema}.${ref.table}`);
+
+  it("finds read and write relations", () => {
+    expect(relations("SELECT * FROM users u JOIN billing.invoices i ON i.user_id = u.id")).toEqual([
+      "read public.users",
+      "read billing.invoices",
+    ]);
+    expect(relations("INSERT INTO audit.events SELECT * FROM staging")).toEqual([
+      "write audit.events",
+      "read public.staging",
+    ]);
+    expect(relations("UPDATE orders SET total = 0 FROM refunds WHERE refunds.id = orders.id")).toEqual([
+      "write public.orders",
+      "read public.refunds",
+    ]);
+    expect(relations("DELETE FROM sessions; DROP TABLE IF EXISTS tmp")).toEqual([
+      "write public.sessions",
+      "write public.tmp",
+    ]);
+  });
+
+  it("follows comma lists and skips CTE names, function calls and FROM inside functions", () => {
+    expect(
+      relations(
+        "WITH recent AS (SELECT * FROM orders) " +
+          "SELECT extract(year FROM created_at) FROM recent, customers c, generate_series(1, 3)",
+      ),
+    ).toEqual(["read public.orders", "read public.customers"]);
+  });
+
+  it("steps over subqueries, function calls and column aliases to the tables after them", () => {
+    expect(relations("SELECT * FROM (SELECT 1) x, secrets")).toEqual(["read public.secrets"]);
+    expect(relations("SELECT * FROM generate_series(1,2) g, secrets")).toEqual(["read public.secrets"]);
+    expect(relations("SELECT * FROM orders o(a), secrets")).toEqual(["read public.orders", "read public.secrets"]);
+    expect(relations("SELECT * FROM unnest(ARRAY[1]) WITH ORDINALITY AS u(v, n), LATERAL (SELECT * FROM a) l, b")).toEqual([
+      "read public.b",
+      "read public.a",
+    ]);
+    expect(relations("SELECT * FROM ((billing.invoices i JOIN users u ON true)) , secrets")).toEqual([
+      "read billing.invoices",
+      "read public.secrets",
+      "read public.users",
+    ]);
+    expect(scanSqlRelations("SELECT * FROM (SELECT 1) x, secrets WHERE true FOR UPDATE").unparsed).toEqual([]);
+  });
+
+  it("reports FROM items it cannot read", () => {
+    expect(scanSqlRelations("SELECT * FROM orders o TABLESAMPLE SYSTEM (10), secrets").unparsed).toEqual([
+      "orders o TABLESAMPLE",
+    ]);
+    expect(scanSqlRelations("SELECT * FROM orders, 'x'").unparsed).toEqual(["'x'"]);
+  });
+});
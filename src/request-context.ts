@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface RequestContext {
+  /** Last Athena mirror the request talked to; filled in by apiFetch. */
+  mirror?: string;
+  /** Cancellation signal of the MCP request being served. */
+  signal?: AbortSignal;
+  /** Name of the tool being called, for logs written deep in the runtime. */
+  tool?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with the MCP request's context attached, so runtime helpers deep in a
+ * tool handler (apiFetch, runQuery, ...) can honour cancellation without every
+ * call site passing the signal along.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function currentRequestSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+export function currentRequestTool(): string | undefined {
+  return storage.getStore()?.tool;
+}
+
+export function recordRequestMirror(baseUrl: string): void {
+  const context = storage.getStore();
+  if (context) context.mirror = baseUrl;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { maskResult, maskRows } from "./masking.js";
+import { nextPageContent, ResultCursorStore, rowsContent, truncateUtf8 } from "./result-pages.js";
+
+function pageContext(
+  limits: { maxResultBytes?: number; maxResultRows?: number },
+  caller?: string,
+  resultCursors = new ResultCursorStore(),
+) {
+  const runtime = {
+    applyReadPolicy: (_client: string, _tables: unknown, result: unknown) => result,
+    config: { maxResultBytes: limits.maxResultBytes ?? 0, maxResultRows: limits.maxResultRows ?? 0 },
+    maskResult: (_tables: unknown, value: unknown) => ({ maskedColumns: [], value }),
+    maskRows: (_tables: unknown, rows: unknown[]) => ({ maskedColumns: [], rows }),
+    resultCursors,
+  };
+  return { caller: caller ? { name: caller } : undefined, clientName: "primary", runtime } as never;
+}
+
+function resultJson(result: { content: Array<{ text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+const rows = (count: number) => Array.from({ length: count }, (_, index) => ({ id: index + 1, name: `row ${index + 1}` }));
+
+describe("rowsContent", () => {
+  it("cuts at the row cap and pages through the rest with single-use cursors", () => {
+    const ctx = pageContext({ maxResultRows: 2 });
+    const first = resultJson(rowsContent(ctx, [], { command: "SELECT", rows: rows(5) }));
+    expect(first).toMatchObject({
+      command: "SELECT",
+      returned_rows: 2,
+      row_offset: 0,
+      rows: rows(2),
+      total_rows: 5,
+      truncated: true,
+      truncated_by: "max_result_rows",
+    });
+    expect(first.next_cursor).toMatch(/^page_/);
+
+    const second = resultJson(nextPageContent(ctx, first.next_cursor));
+    expect(second).toMatchObject({ command: "SELECT", row_offset: 2, rows: rows(4).slice(2), truncated: true });
+
+    const last = resultJson(nextPageContent(ctx, second.next_cursor));
+    expect(last).toEqual({ command: "SELECT", returned_rows: 1, row_offset: 4, rows: [rows(5)[4]], total_rows: 5 });
+
+    const reused = nextPageContent(ctx, second.next_cursor);
+    expect(reused).toMatchObject({ isError: true });
+  });
+
+  it("fits pages into the byte budget, always returning at least one row", () => {
+    const ctx = pageContext({ maxResultBytes: 600 });
+    const result = rowsContent(ctx, [], rows(50), "compact");
+    const text = result.content[0].text;
+    expect(Buffer.byteLength(text)).toBeLessThanOrEqual(600);
+    expect(text).not.toContain("\n");
+    const page = JSON.parse(text);
+    expect(page.truncated_by).toBe("max_result_bytes");
+    expect(page.rows.length).toBe(page.returned_rows);
+    expect(page.rows.length).toBeGreaterThan(1);
+
+    const tiny = resultJson(rowsContent(pageContext({ maxResultBytes: 10 }), [], rows(3)));
+    expect(tiny.rows).toHaveLength(1);
+  });
+
+  it("returns small results unchanged", () => {
+    expect(resultJson(rowsContent(pageContext({ maxResultBytes: 10_000, maxResultRows: 10 }), [], rows(3)))).toEqual(
+      rows(3),
+    );
+  });
+
+  it("renders tabular formats with the same columns on every page and the marker after the rows", () => {
+    const ctx = pageContext({ maxResultRows: 2 });
+    const first = rowsContent(ctx, [], [{ id: 1 }, { id: 2 }, { id: 3, name: "late" }], "csv").content[0].text;
+    const [table, meta] = first.split("\n\n");
+    expect(table).toBe("id,name\n1,NULL\n2,NULL");
+    const marker = JSON.parse(meta);
+    expect(marker).toMatchObject({ returned_rows: 2, truncated: true });
+
+    expect(nextPageContent(ctx, marker.next_cursor, "csv").content[0].text).toBe(
+      'id,name\n3,late\n\n{"returned_rows":1,"row_offset":2,"total_rows":3}',
+    );
+  });
+
+  it("cuts results without rows at the byte budget", () => {
+    const text = rowsContent(pageContext({ maxResultBytes: 20 }), [], { report: "x".repeat(100) }).content[0].text;
+    expect(text).toContain("[truncated: the result is");
+  });
+
+  it("cuts at character boundaries and says so when the rest is too large to keep", () => {
+    const text = rowsContent(pageContext({ maxResultBytes: 9 }), [], "é€😀".repeat(4)).content[0].text;
+    expect(text.split("\n\n")[0]).toBe('"é€');
+    expect(truncateUtf8("a😀b", 3)).toBe("a");
+    expect(truncateUtf8("aé", 2)).toBe("a");
+    expect(truncateUtf8("aé", 3)).toBe("aé");
+
+    const ctx = pageContext({ maxResultRows: 2 }, undefined, new ResultCursorStore(1000, 32, () => 0, 100));
+    const page = resultJson(rowsContent(ctx, [], rows(10)));
+    expect(page).toMatchObject({ returned_rows: 2, total_rows: 10, truncated: true });
+    expect(page.next_cursor).toBeUndefined();
+    expect(page.next_step).toMatch(/too large to keep/);
+  });
+
+  it("masks results without rows and the keys around rows", () => {
+    const rules = { columns: ["ssn"], detectors: ["email" as const] };
+    const ctx = pageContext({});
+    Object.assign((ctx as { runtime: object }).runtime, {
+      maskResult: (tables: [], value: unknown) => maskResult(rules, tables, value),
+      maskRows: (tables: [], rows: unknown[]) => maskRows(rules, tables, rows),
+    });
+
+    expect(resultJson(rowsContent(ctx, [], { user: { email: "ada@example.com", ssn: "000-00-0000" } }))).toEqual({
+      user: { email: "[masked:email]", ssn: "[masked]" },
+    });
+    expect(resultJson(rowsContent(ctx, [], { owner: "bob@example.org", rows: [{ ssn: "1" }] }))).toEqual({
+      masked_columns: ["ssn"],
+      owner: "[masked:email]",
+      rows: [{ ssn: "[masked]" }],
+    });
+  });
+});
+
+describe("ResultCursorStore", () => {
+  it("refuses expired cursors and cursors of another caller", () => {
+    let now = 0;
+    const store = new ResultCursorStore(1000, 2, () => now);
+    const page = { caller: "alice", client: "primary", columns: [], offset: 1, rows: [{}], tables: [], total: 2 };
+
+    expect(store.take(store.issue(page)?.cursor ?? "", "bob")).toBe("cursor was issued to a different caller");
+    const cursor = store.issue(page)?.cursor ?? "";
+    now = 1000;
+    expect(store.take(cursor, "alice")).toBe("cursor has expired");
+  });
+
+  it("evicts the oldest cursor when full", () => {
+    const store = new ResultCursorStore(1000, 2, () => 0);
+    const page = { client: "primary", columns: [], offset: 1, rows: [{}], tables: [], total: 2 };
+    const first = store.issue(page)?.cursor ?? "";
+    store.issue(page);
+    const third = store.issue(page)?.cursor ?? "";
+    expect(store.take(first)).toMatch(/unknown/);
+    expect(store.take(third)).toEqual(page);
+  });
+
+  it("drops the oldest cursors to stay within the size budget", () => {
+    const store = new ResultCursorStore(1000, 32, () => 0, 100);
+    const page = (size: number) => ({ client: "primary", columns: [], offset: 1, rows: ["x".repeat(size)], tables: [], total: 2 });
+    const first = store.issue(page(40))?.cursor ?? "";
+    const second = store.issue(page(40))?.cursor ?? "";
+    const third = store.issue(page(40))?.cursor ?? "";
+    expect(store.take(first)).toMatch(/unknown/);
+    expect(store.take(second)).toEqual(page(40));
+    expect(store.take(third)).toEqual(page(40));
+    expect(store.issue(page(200))).toBeUndefined();
+  });
+});
@@ -0,0 +1,277 @@
+import { randomBytes } from "node:crypto";
+import type { PolicyTableRef } from "./policy.js";
+import { errorContent, textContent } from "./responses.js";
+import { normalizeRows, renderRows, rowColumns, type ResultFormat } from "./row-formats.js";
+import type { ToolContext } from "./runtime.js";
+
+/**
+ * Result limits for row-returning tools.
+ *
+ * Every response is cut at the server-wide row cap (`max_result_rows`) and
+ * byte budget (`max_result_bytes`). The rows that did not fit are kept in
+ * memory under an opaque cursor, and `fetch_next_page` returns them page by
+ * page without querying Athena again.
+ */
+
+/** How long the rest of a cut result stays available. */
+export const RESULT_CURSOR_TTL_MS = 10 * 60_000;
+/** Open cursors kept at once; the oldest is dropped first. */
+export const MAX_OPEN_CURSORS = 32;
+/** Serialized size of the rows all open cursors may hold together; the oldest is dropped first. */
+export const MAX_CURSOR_BYTES = 32 * 1024 * 1024;
+
+/** The part of a cut result that has not been returned yet. */
+export interface PendingPage {
+  caller?: string;
+  client: string;
+  /** Columns of the whole result, so every page renders them in the same order. */
+  columns: string[];
+  /** The object around the rows (other keys of the result), when the rows were not a bare array. */
+  envelope?: Record<string, unknown>;
+  /** Rows returned by earlier pages. */
+  offset: number;
+  rows: unknown[];
+  rowsKey?: string;
+  /** Relations the rows came from, for masking later pages. */
+  tables: PolicyTableRef[];
+  total: number;
+}
+
+interface StoredPage {
+  bytes: number;
+  expiresAt: number;
+  page: PendingPage;
+}
+
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, "utf8");
+}
+
+function rowsBytes(rows: unknown[]): number {
+  return byteLength(JSON.stringify(rows));
+}
+
+/** The longest prefix of `text` that is at most `maxBytes` in UTF-8, cut between characters. */
+export function truncateUtf8(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text, "utf8");
+  if (bytes.length <= maxBytes) return text;
+  let end = Math.max(0, maxBytes);
+  // Back off over continuation bytes (10xxxxxx) so a multi-byte character is never split.
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end -= 1;
+  return bytes.subarray(0, end).toString("utf8");
+}
+
+/** Single-use cursors for the remaining rows of cut results, bound to the client and caller. */
+export class ResultCursorStore {
+  private readonly pages = new Map<string, StoredPage>();
+  private bytes = 0;
+
+  constructor(
+    private readonly ttlMs = RESULT_CURSOR_TTL_MS,
+    private readonly maxOpen = MAX_OPEN_CURSORS,
+    private readonly now: () => number = Date.now,
+    private readonly maxBytes = MAX_CURSOR_BYTES,
+  ) {}
+
+  /** Whether rows of this serialized size can be kept at all. */
+  public canHold(bytes: number): boolean {
+    return bytes <= this.maxBytes;
+  }
+
+  /** Keep `page` under a new cursor; undefined when its rows alone exceed the size budget. */
+  public issue(page: PendingPage): { expiresAt: number; cursor: string } | undefined {
+    const bytes = rowsBytes(page.rows);
+    if (!this.canHold(bytes)) return undefined;
+    this.sweep();
+    while (this.pages.size >= this.maxOpen || this.bytes + bytes > this.maxBytes) {
+      const oldest = this.pages.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+    const cursor = `page_${randomBytes(16).toString("base64url")}`;
+    const expiresAt = this.now() + this.ttlMs;
+    this.pages.set(cursor, { bytes, expiresAt, page });
+    this.bytes += bytes;
+    return { cursor, expiresAt };
+  }
+
+  /** Spend `cursor`; returns the pending rows, or why the cursor cannot be used. */
+  public take(cursor: string, caller?: string): PendingPage | string {
+    const entry = this.pages.get(cursor);
+    this.remove(cursor);
+    if (!entry) return "cursor is unknown, was already used or was evicted";
+    if (entry.expiresAt <= this.now()) return "cursor has expired";
+    if (entry.page.caller !== caller) return "cursor was issued to a different caller";
+    return entry.page;
+  }
+
+  private remove(cursor: string): void {
+    const entry = this.pages.get(cursor);
+    if (!entry) return;
+    this.pages.delete(cursor);
+    this.bytes -= entry.bytes;
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [cursor, entry] of this.pages) {
+      if (entry.expiresAt <= now) this.remove(cursor);
+    }
+  }
+}
+
+const ROW_KEYS = ["rows", "data", "result"];
+
+function serialize(data: unknown, format: ResultFormat): string {
+  return format === "compact" ? JSON.stringify(data) : JSON.stringify(data, null, 2);
+}
+
+/**
+ * Text for one page. JSON formats keep the result's shape (a bare array stays
+ * one unless there is something to report); `compact` also normalizes the
+ * columns. Tabular formats print the rows, then everything else (the
+ * result's other keys, truncation marker, masked columns) after a blank line
+ * as one compact JSON object.
+ */
+function renderPage(
+  rows: unknown[],
+  meta: Record<string, unknown>,
+  pending: Pick<PendingPage, "columns" | "rowsKey">,
+  format: ResultFormat,
+): string {
+  if (format === "json" || format === "compact") {
+    const shaped = format === "compact" ? normalizeRows(rows, pending.columns) : rows;
+    const wrap = pending.rowsKey || Object.keys(meta).length > 0;
+    return serialize(wrap ? { ...meta, [pending.rowsKey ?? "rows"]: shaped } : shaped, format);
+  }
+  const table = renderRows(rows, format, pending.columns);
+  return Object.keys(meta).length ? `${table}\n\n${JSON.stringify(meta)}` : table;
+}
+
+/** Split a result into its row array and the object around it; undefined when it has no rows. */
+function splitRows(result: unknown): Omit<PendingPage, "caller" | "client" | "columns" | "offset" | "tables" | "total"> | undefined {
+  if (Array.isArray(result)) return { rows: result };
+  if (result && typeof result === "object") {
+    const record = result as Record<string, unknown>;
+    const rowsKey = ROW_KEYS.find((key) => Array.isArray(record[key]));
+    if (rowsKey) {
+      const { [rowsKey]: rows, ...envelope } = record;
+      return { envelope, rows: rows as unknown[], rowsKey };
+    }
+  }
+  return undefined;
+}
+
+type PageContext = Pick<ToolContext, "caller" | "clientName" | "runtime">;
+
+/** Render one page of `pending.rows` and keep the rest under a new cursor. */
+function pageContent(ctx: PageContext, pending: PendingPage, format: ResultFormat) {
+  const { maxResultBytes, maxResultRows } = ctx.runtime.config;
+  const capped = maxResultRows > 0 && pending.rows.length > maxResultRows;
+  const candidates = capped ? pending.rows.slice(0, maxResultRows) : pending.rows;
+  const masked = ctx.runtime.maskRows(pending.tables, candidates);
+
+  // Rows too large for the cursor store are not kept; a cut page then says so instead of offering a cursor.
+  const keepable = ctx.runtime.resultCursors.canHold(rowsBytes(pending.rows));
+
+  const render = (count: number, cursor?: { cursor: string; expiresAt: number }, reason?: string) => {
+    const rest = cursor
+      ? {
+          cursor_expires_at: new Date(cursor.expiresAt).toISOString(),
+          next_cursor: cursor.cursor,
+          next_step: "Call fetch_next_page with next_cursor to get the following rows.",
+        }
+      : { next_step: "The remaining rows are too large to keep for fetch_next_page; narrow the query to see them." };
+    const marker = {
+      ...(masked.maskedColumns.length ? { masked_columns: masked.maskedColumns } : {}),
+      ...(count < pending.rows.length
+        ? {
+            ...rest,
+            returned_rows: count,
+            row_offset: pending.offset,
+            total_rows: pending.total,
+            truncated: true,
+            truncated_by: reason,
+          }
+        : pending.offset > 0
+          ? { returned_rows: count, row_offset: pending.offset, total_rows: pending.total }
+          : {}),
+    };
+    return renderPage(masked.rows.slice(0, count), { ...pending.envelope, ...marker }, pending, format);
+  };
+
+  let count = candidates.length;
+  let reason = capped ? "max_result_rows" : undefined;
+  // Placeholder cursor of the real length, so the measured size matches the final text.
+  const sizing = keepable ? { cursor: `page_${"x".repeat(22)}`, expiresAt: 0 } : undefined;
+  const fits = (rows: number) => byteLength(render(rows, sizing, "max_result_bytes")) <= maxResultBytes;
+  if (maxResultBytes > 0 && !fits(count)) {
+    // Largest row count that fits; at least one row so the cursor always moves forward.
+    let low = 1;
+    let high = count - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fits(middle)) low = middle;
+      else high = middle - 1;
+    }
+    count = Math.max(1, Math.min(low, count));
+    reason = "max_result_bytes";
+  }
+
+  if (count >= pending.rows.length) return textContent(render(count));
+  const next = keepable
+    ? ctx.runtime.resultCursors.issue({ ...pending, offset: pending.offset + count, rows: pending.rows.slice(count) })
+    : undefined;
+  return textContent(render(count, next, reason));
+}
+
+/**
+ * Tool result for rows read from `tables`: applies the client's read policy,
+ * the row cap and byte budget (issuing a cursor for the rest) and PII masking,
+ * then serializes in `format`. Results without a row array are masked as a
+ * whole and only held to the byte budget.
+ */
+export function rowsContent(
+  ctx: PageContext,
+  tables: PolicyTableRef[],
+  result: unknown,
+  format: ResultFormat = "json",
+) {
+  const shaped = ctx.runtime.applyReadPolicy(ctx.clientName, tables, result);
+  const split = splitRows(shaped);
+  if (!split) {
+    // Nothing tabular to render: the tabular formats fall back to indented JSON.
+    const text = serialize(ctx.runtime.maskResult(tables, shaped).value, format === "compact" ? "compact" : "json");
+    const limit = ctx.runtime.config.maxResultBytes;
+    if (limit <= 0 || byteLength(text) <= limit) return textContent(text);
+    return textContent(
+      `${truncateUtf8(text, limit)}\n\n[truncated: the result is ${byteLength(text)} bytes and max_result_bytes is ${limit}; ` +
+        "narrow the query to see the rest]",
+    );
+  }
+  // The rows are masked page by page; the keys around them are masked once here.
+  const envelope = split.envelope && (ctx.runtime.maskResult(tables, split.envelope).value as Record<string, unknown>);
+  return pageContent(
+    ctx,
+    {
+      ...split,
+      envelope,
+      caller: ctx.caller?.name,
+      client: ctx.clientName,
+      columns: rowColumns(split.rows),
+      offset: 0,
+      tables,
+      total: split.rows.length,
+    },
+    format,
+  );
+}
+
+/** Tool result for the next page behind `cursor`. */
+export function nextPageContent(ctx: PageContext, cursor: string, format: ResultFormat = "json") {
+  const pending = ctx.runtime.resultCursors.take(cursor, ctx.caller?.name);
+  if (typeof pending === "string") {
+    return errorContent(`fetch_next_page: ${pending}. Run the original query again to get a fresh cursor.`);
+  }
+  return pageContent({ ...ctx, clientName: pending.client }, pending, format);
+}
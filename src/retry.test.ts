@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { isRetryableStatus, parseRetryAfter, retryDelayMs, type RetryPolicy } from "./retry.js";
+
+const POLICY: RetryPolicy = { baseDelayMs: 100, maxDelayMs: 1_000, maxRetries: 3, timeoutMs: 0 };
+
+describe("isRetryableStatus", () => {
+  it("retries 429 for every method and gateway errors only for idempotent methods", () => {
+    expect(isRetryableStatus("POST", 429)).toBe(true);
+    expect(isRetryableStatus("GET", 503)).toBe(true);
+    expect(isRetryableStatus("POST", 503)).toBe(false);
+    expect(isRetryableStatus("GET", 500)).toBe(false);
+    expect(isRetryableStatus("PUT", 503)).toBe(false);
+    expect(isRetryableStatus("PUT", 503, true)).toBe(true);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("accepts delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("3", now)).toBe(3_000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", now)).toBe(5_000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("backs off exponentially with jitter and caps at maxDelayMs", () => {
+    expect(retryDelayMs(0, POLICY, undefined, () => 0)).toBe(50);
+    expect(retryDelayMs(2, POLICY, undefined, () => 1)).toBe(400);
+    expect(retryDelayMs(8, POLICY, undefined, () => 1)).toBe(1_000);
+  });
+
+  it("uses Retry-After but gives up when it exceeds the cap", () => {
+    expect(retryDelayMs(0, POLICY, 700)).toBe(700);
+    expect(retryDelayMs(0, POLICY, 60_000)).toBeUndefined();
+  });
+});
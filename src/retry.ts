@@ -0,0 +1,116 @@
+/** Retry and timeout settings applied to every Athena HTTP request. */
+export interface RetryPolicy {
+  /** First backoff delay; doubles on each further attempt. */
+  baseDelayMs: number;
+  /** Retries after the first attempt (0 disables retrying). */
+  maxRetries: number;
+  /** Upper bound for any single wait, including one requested by Retry-After. */
+  maxDelayMs: number;
+  /** Per-attempt timeout; 0 disables it. */
+  timeoutMs: number;
+}
+
+/**
+ * Methods replayed automatically. PUT and DELETE are idempotent in HTTP, but
+ * Athena routes like `PUT /gateway/insert` are not, so those are only replayed
+ * when the caller marks the request idempotent.
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * 429 means the request was rejected before it ran, so it is retried for any
+ * method. 502/503/504 may arrive after a write was applied, so those are only
+ * retried for idempotent requests (by default, requests with a safe method).
+ */
+export function isRetryableStatus(method: string, status: number, idempotent = isIdempotentMethod(method)): boolean {
+  if (status === 429) return true;
+  return RETRYABLE_STATUSES.has(status) && idempotent;
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number.parseInt(trimmed, 10) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential backoff with
+ * jitter in [50%, 100%] of the step, or the server's Retry-After when given.
+ * Returns undefined when Retry-After asks for longer than `maxDelayMs`, in
+ * which case the caller should give up rather than hold the tool call open.
+ */
+export function retryDelayMs(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(step / 2 + random() * (step / 2));
+}
+
+/** Resolve after `ms`, or reject as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export interface AttemptSignal {
+  cleanup: () => void;
+  signal: AbortSignal;
+  timedOut: () => boolean;
+}
+
+/**
+ * Signal for a single attempt: aborts when the caller's signal aborts or the
+ * timeout elapses. (AbortSignal.any is not available on Node 18.)
+ */
+export function attemptSignal(callerSignal: AbortSignal | undefined, timeoutMs: number): AttemptSignal {
+  const controller = new AbortController();
+  let expired = false;
+  const onAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    controller.abort(callerSignal.reason);
+  } else {
+    callerSignal?.addEventListener("abort", onAbort, { once: true });
+  }
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+        expired = true;
+        controller.abort(new Error(`timed out after ${timeoutMs} ms`));
+      }, timeoutMs)
+    : undefined;
+
+  return {
+    cleanup: () => {
+      if (timer) clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onAbort);
+    },
+    signal: controller.signal,
+    timedOut: () => expired,
+  };
+}
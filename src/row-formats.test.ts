@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { normalizeRows, renderCsv, renderMarkdown, renderNdjson, rowColumns } from "./row-formats.js";
+
+const rows = [
+  { id: 1, name: "Ada, Countess", note: null },
+  { id: 2, name: "NULL", tags: ["a", "b"] },
+  { id: 3, name: "line\nbreak | pipe", note: " padded" },
+];
+
+describe("row formats", () => {
+  it("orders columns by first appearance and fills missing keys with null", () => {
+    expect(rowColumns(rows)).toEqual(["id", "name", "note", "tags"]);
+    const normalized = normalizeRows([{ b: 1 }, { a: 2 }, 7]);
+    expect(normalized).toEqual([
+      { a: null, b: 1, value: null },
+      { a: 2, b: null, value: null },
+      { a: null, b: null, value: 7 },
+    ]);
+    expect(normalized.map((row) => Object.keys(row).join())).toEqual(["b,a,value", "b,a,value", "b,a,value"]);
+  });
+
+  it("renders csv with NULL unquoted and the text NULL quoted", () => {
+    expect(renderCsv(rows)).toBe(
+      [
+        "id,name,note,tags",
+        '1,"Ada, Countess",NULL,NULL',
+        '2,"NULL",NULL,"[""a"",""b""]"',
+        '3,"line\nbreak | pipe"," padded",NULL',
+      ].join("\n"),
+    );
+    expect(renderCsv([])).toBe("");
+  });
+
+  it("renders markdown tables with escaped cells", () => {
+    expect(renderMarkdown(rows)).toBe(
+      [
+        "| id | name | note | tags |",
+        "| --- | --- | --- | --- |",
+        "| 1 | Ada, Countess | NULL | NULL |",
+        '| 2 | "NULL" | NULL | ["a","b"] |',
+        "| 3 | line<br>break \\| pipe |  padded | NULL |",
+      ].join("\n"),
+    );
+    expect(renderMarkdown([])).toBe("_(no rows)_");
+  });
+
+  it("renders ndjson with the same columns on every line", () => {
+    expect(renderNdjson([{ a: 1 }, { b: 2 }])).toBe('{"a":1,"b":null}\n{"a":null,"b":2}');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Text renderings of result rows for the `format` argument of row-returning
+ * tools. All of them share one column order (keys in order of first
+ * appearance across the rows) and render SQL NULL, and keys a row lacks, the
+ * same way: `NULL` in CSV and Markdown, `null` in JSON.
+ */
+
+export const RESULT_FORMATS = ["json", "compact", "csv", "markdown", "ndjson"] as const;
+export type ResultFormat = (typeof RESULT_FORMATS)[number];
+
+export const NULL_TEXT = "NULL";
+
+type Row = Record<string, unknown>;
+
+/** Non-object rows (e.g. a function returning scalars) become `{ value }`. */
+function asRow(row: unknown): Row {
+  return row && typeof row === "object" && !Array.isArray(row) ? (row as Row) : { value: row };
+}
+
+/** Union of the rows' keys, in order of first appearance. */
+export function rowColumns(rows: unknown[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(asRow(row))) columns.add(key);
+  }
+  return [...columns];
+}
+
+/** Rows with exactly `columns`, in that order; missing keys become null. */
+export function normalizeRows(rows: unknown[], columns = rowColumns(rows)): Row[] {
+  return rows.map((row) => {
+    const source = asRow(row);
+    return Object.fromEntries(columns.map((column) => [column, source[column] ?? null]));
+  });
+}
+
+/** Cell text for a non-null value; objects and arrays are written as JSON. */
+function cellText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return NULL_TEXT;
+  const text = cellText(value);
+  // Quote anything that could be misread, including the literal string NULL.
+  return text === "" || text === NULL_TEXT || /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: unknown): string {
+  if (value === null || value === undefined) return NULL_TEXT;
+  const text = cellText(value);
+  if (text === NULL_TEXT) return `"${NULL_TEXT}"`;
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+export function renderCsv(rows: unknown[], columns = rowColumns(rows)): string {
+  if (columns.length === 0) return "";
+  const lines = [columns.map(csvField).join(",")];
+  for (const row of normalizeRows(rows, columns)) lines.push(columns.map((column) => csvField(row[column])).join(","));
+  return lines.join("\n");
+}
+
+export function renderMarkdown(rows: unknown[], columns = rowColumns(rows)): string {
+  if (columns.length === 0) return "_(no rows)_";
+  const lines = [
+    `| ${columns.map(markdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of normalizeRows(rows, columns)) {
+    lines.push(`| ${columns.map((column) => markdownCell(row[column])).join(" | ")} |`);
+  }
+  return lines.join("\n");
+}
+
+export function renderNdjson(rows: unknown[], columns = rowColumns(rows)): string {
+  return normalizeRows(rows, columns)
+    .map((row) => JSON.stringify(row))
+    .join("\n");
+}
+
+/**
+ * Rows in a tabular format (`csv`, `markdown` or `ndjson`). Pass `columns`
+ * to keep the same order across pages of one result.
+ */
+export function renderRows(
+  rows: unknown[],
+  format: Exclude<ResultFormat, "compact" | "json">,
+  columns = rowColumns(rows),
+): string {
+  if (format === "csv") return renderCsv(rows, columns);
+  if (format === "markdown") return renderMarkdown(rows, columns);
+  return renderNdjson(rows, columns);
+}
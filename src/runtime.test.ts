@@ -0,0 +1,387 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AthenaServerConfig } from "./config.js";
+import { AthenaRuntime } from "./runtime.js";
+
+function runtimeConfig(overrides: Partial<AthenaServerConfig> = {}): AthenaServerConfig {
+  return {
+    adminExperimentalEnabled: false,
+    apiKey: "server-key",
+    authTokens: [],
+    availableClients: ["primary", "analytics"],
+    baseUrl: "https://athena.example.com",
+    baseUrls: ["https://athena.example.com"],
+    circuitFailureThreshold: 5,
+    circuitResetMs: 30_000,
+    clientConnections: {
+      analytics: { apiKey: "analytics-key", baseUrls: ["https://analytics.example.com"] },
+    },
+    confirmTools: [],
+    defaultClient: "primary",
+    httpAllowedHosts: [],
+    httpHost: "127.0.0.1",
+    httpPort: 8787,
+    httpSessionIdleMs: 0,
+    maxConcurrency: 8,
+    maxRetries: 0,
+    maskColumns: [],
+    maskDetectors: [],
+    maxResultBytes: 0,
+    maxResultRows: 0,
+    policies: {},
+    readOnly: false,
+    requestTimeoutMs: 30_000,
+    retryBaseDelayMs: 1,
+    schemaCacheTtlMs: 0,
+    transport: "stdio",
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("AthenaRuntime.apiFetch", () => {
+  it("sends each client's requests to its own base URL with its own API key", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ ok: true })));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig());
+
+    await runtime.apiFetch("/ping", "primary");
+    await runtime.apiFetch("/ping", "analytics");
+
+    const calls = fetchMock.mock.calls as unknown as Array<[string, RequestInit]>;
+    expect(calls[0][0]).toBe("https://athena.example.com/ping");
+    expect((calls[0][1].headers as Record<string, string>)["x-api-key"]).toBe("server-key");
+    expect(calls[1][0]).toBe("https://analytics.example.com/ping");
+    expect((calls[1][1].headers as Record<string, string>)["x-api-key"]).toBe("analytics-key");
+  });
+
+  it("lets a client's read_only tighten the server-wide flag but never loosen it", () => {
+    const serverWide = new AthenaRuntime(
+      runtimeConfig({
+        clientConnections: { analytics: { readOnly: false } },
+        readOnly: true,
+      }),
+    );
+    expect(serverWide.isReadOnly(undefined, "primary")).toBe(true);
+    expect(serverWide.isReadOnly(undefined, "analytics")).toBe(true);
+
+    const perClient = new AthenaRuntime(runtimeConfig({ clientConnections: { analytics: { readOnly: true } } }));
+    expect(perClient.isReadOnly(undefined, "primary")).toBe(false);
+    expect(perClient.isReadOnly(undefined, "analytics")).toBe(true);
+    expect(perClient.isReadOnly({ name: "viewer", readOnly: true }, "primary")).toBe(true);
+  });
+});
+
+describe("AthenaRuntime.applyConfig", () => {
+  it("rebuilds cached SDK clients and the client selector", () => {
+    const runtime = new AthenaRuntime(runtimeConfig());
+    const before = runtime.getSdkClient("primary");
+    const listener = vi.fn();
+    runtime.onConfigChange(listener);
+
+    const change = runtime.applyConfig(
+      runtimeConfig({ apiKey: "rotated-key", availableClients: ["primary"] }),
+    );
+
+    expect(change.changedKeys).toEqual(["apiKey", "availableClients"]);
+    expect(change.toolsChanged).toBe(true);
+    expect(listener).toHaveBeenCalledWith(change);
+    expect(runtime.getSdkClient("primary")).not.toBe(before);
+    expect(runtime.getClientSelectorSchema()).toBeUndefined();
+    expect(runtime.getClientConnection("primary").apiKey).toBe("rotated-key");
+  });
+
+  it("leaves the tool set alone when only credentials change", () => {
+    const runtime = new AthenaRuntime(runtimeConfig());
+
+    expect(runtime.applyConfig(runtimeConfig({ apiKey: "rotated-key" }))).toEqual({
+      changedKeys: ["apiKey"],
+      toolsChanged: false,
+    });
+  });
+
+  it("changes the tool set when read_only changes, since the annotations follow it", () => {
+    const runtime = new AthenaRuntime(runtimeConfig());
+
+    const change = runtime.applyConfig(runtimeConfig({ readOnly: true }));
+
+    expect(change).toEqual({ changedKeys: ["readOnly"], toolsChanged: true });
+    expect(runtime.isReadOnly(undefined, "primary")).toBe(true);
+  });
+});
+
+describe("AthenaRuntime.apiFetch retries", () => {
+  const retrying = { maxRetries: 2, retryBaseDelayMs: 1 };
+
+  it("retries idempotent requests on 503 and honours Retry-After", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("busy", { headers: { "Retry-After": "0" }, status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true })));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig(retrying));
+
+    await expect(runtime.apiFetch("/ping", "primary")).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry a POST that failed with 502", async () => {
+    const fetchMock = vi.fn(async () => new Response("bad gateway", { status: 502 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig(retrying));
+
+    await expect(runtime.apiFetch("/gateway/query", "primary", { method: "POST", body: {} })).rejects.toThrow("HTTP 502");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out each attempt and reports the attempt count", async () => {
+    const fetchMock = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig({ ...retrying, requestTimeoutMs: 20 }));
+
+    await expect(runtime.apiFetch("/ping", "primary")).rejects.toThrow(
+      "timed out after 20 ms (after 3 attempts)",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops immediately when the caller's signal aborts", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+          controller.abort();
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig(retrying));
+
+    await expect(runtime.apiFetch("/ping", "primary", { signal: controller.signal })).rejects.toThrow(
+      "Request cancelled: GET https://athena.example.com/ping (client=primary)",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("AthenaRuntime.apiFetch mirror failover", () => {
+  const mirrors = ["https://a.example.com", "https://b.example.com"];
+
+  it("fails over to the next mirror on a network error and keeps using it", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.startsWith("https://a.")) throw new Error("ECONNREFUSED");
+      return new Response(JSON.stringify({ ok: true }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig({ baseUrl: mirrors[0], baseUrls: mirrors }));
+
+    await expect(runtime.apiFetch("/ping", "primary")).resolves.toEqual({ ok: true });
+    await runtime.apiFetch("/ping", "primary");
+
+    expect(fetchMock.mock.calls.map((call) => call[0])).toEqual([
+      "https://a.example.com/ping",
+      "https://b.example.com/ping",
+      "https://b.example.com/ping",
+    ]);
+    expect(runtime.getClientConnection("primary").baseUrl).toBe("https://b.example.com");
+    expect(runtime.getMirrorStatus(["primary"]).primary.map((mirror) => mirror.status)).toEqual(["down", "up"]);
+  });
+
+  it("marks a mirror down on 503 but does not replay a POST elsewhere", async () => {
+    const fetchMock = vi.fn(async () => new Response("unavailable", { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig({ baseUrl: mirrors[0], baseUrls: mirrors }));
+
+    await expect(runtime.apiFetch("/gateway/insert", "primary", { method: "POST", body: {} })).rejects.toThrow(
+      /HTTP 503/,
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(runtime.getClientConnection("primary").baseUrl).toBe("https://b.example.com");
+  });
+
+  it("never resends an insert that failed, but replays writes marked idempotent", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.startsWith("https://a.")) throw new Error("socket hang up");
+      return new Response(JSON.stringify({ ok: true }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig({ baseUrl: mirrors[0], baseUrls: mirrors, maxRetries: 2 }));
+
+    await expect(
+      runtime.apiFetch("/gateway/insert", "primary", { body: { insert_body: {} }, method: "PUT" }),
+    ).rejects.toThrow(/socket hang up/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    const fresh = new AthenaRuntime(runtimeConfig({ baseUrl: mirrors[0], baseUrls: mirrors, maxRetries: 2 }));
+    await expect(
+      fresh.apiFetch("/admin/api-key-config", "primary", { body: {}, idempotent: true, method: "PUT" }),
+    ).resolves.toEqual({ ok: true });
+    expect(fetchMock.mock.calls.map((call) => call[0])).toEqual([
+      "https://a.example.com/admin/api-key-config",
+      "https://b.example.com/admin/api-key-config",
+    ]);
+  });
+
+  it("treats a plain 500 as an application error", async () => {
+    const fetchMock = vi.fn(async () => new Response("bad query", { status: 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig({ baseUrl: mirrors[0], baseUrls: mirrors }));
+
+    await expect(runtime.apiFetch("/ping", "primary")).rejects.toThrow(/HTTP 500/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(runtime.getClientConnection("primary").baseUrl).toBe("https://a.example.com");
+  });
+});
+
+describe("AthenaRuntime client limits", () => {
+  it("caps in-flight requests per client", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return new Response("{}");
+    }));
+    const runtime = new AthenaRuntime(runtimeConfig({ maxConcurrency: 2 }));
+
+    await Promise.all(Array.from({ length: 6 }, () => runtime.apiFetch("/ping", "primary")));
+
+    expect(peak).toBe(2);
+  });
+
+  it("opens the circuit after repeated network failures and fails fast", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new Error("ECONNREFUSED");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(
+      runtimeConfig({
+        circuitFailureThreshold: 3,
+        clientConnections: { analytics: { circuitFailureThreshold: 1 } },
+      }),
+    );
+
+    await expect(runtime.apiFetch("/ping", "analytics")).rejects.toThrow(/ECONNREFUSED/);
+    await expect(runtime.apiFetch("/ping", "analytics")).rejects.toThrow(/Circuit open for Athena client "analytics"/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(runtime.getClientHealth(["analytics", "primary"])).toMatchObject({
+      analytics: { circuit: { state: "open" }, concurrency: { active: 0, queued: 0 } },
+      primary: { circuit: { state: "closed" } },
+    });
+  });
+
+  it("runs auth and chat module calls under the client's circuit breaker", async () => {
+    const runtime = new AthenaRuntime(runtimeConfig({ circuitFailureThreshold: 1 }));
+    const send = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const signIn = vi.fn(async () => ({ session: {} }));
+    vi.spyOn(runtime, "getChatModule").mockReturnValue({ message: { send } });
+    vi.spyOn(runtime, "getAuthModule").mockReturnValue({ signIn });
+
+    await expect(runtime.performChat("primary", "message", "send", { text: "hi" })).rejects.toThrow(/fetch failed/);
+    await expect(runtime.performChat("primary", "message", "send", { text: "hi" })).rejects.toThrow(/Circuit open/);
+    await expect(runtime.performAuth("primary", "signIn", {})).rejects.toThrow(/Circuit open/);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(signIn).not.toHaveBeenCalled();
+  });
+
+  it("does not count errors Athena returned against the circuit", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("syntax error", { status: 400 })));
+    const runtime = new AthenaRuntime(runtimeConfig({ circuitFailureThreshold: 1 }));
+
+    await expect(runtime.apiFetch("/gateway/query", "primary")).rejects.toThrow(/HTTP 400/);
+    await expect(runtime.apiFetch("/gateway/query", "primary")).rejects.toThrow(/HTTP 400/);
+    expect(runtime.getClientHealth(["primary"]).primary.circuit.state).toBe("closed");
+  });
+});
+
+describe("AthenaRuntime.runQuery parameters", () => {
+  it("sends positional parameters for the gateway to bind", async () => {
+    const fetchMock = vi.fn(async () => new Response("[]"));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(runtimeConfig());
+
+    await runtime.runQuery("SELECT * FROM t WHERE a = $1;", "primary", ["x"]);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(String(init.body))).toEqual({ params: ["x"], query: "SELECT * FROM t WHERE a = $1" });
+  });
+
+  it("falls back to inlined literals once the gateway rejects parameters", async () => {
+    const bodies: unknown[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body));
+      bodies.push(body);
+      return body.params
+        ? new Response('{"error":"there is no parameter $1"}', { status: 400 })
+        : new Response("[]");
+    }));
+    const runtime = new AthenaRuntime(runtimeConfig());
+
+    await runtime.runQuery("SELECT * FROM t WHERE a = $1", "primary", ["it's"]);
+    await runtime.runQuery("SELECT * FROM t WHERE a = $1", "primary", ["again"]);
+
+    expect(bodies).toEqual([
+      { params: ["it's"], query: "SELECT * FROM t WHERE a = $1" },
+      { query: "SELECT * FROM t WHERE a = 'it''s'" },
+      { query: "SELECT * FROM t WHERE a = 'again'" },
+    ]);
+  });
+
+  it("binds parameters again once the fallback expires", async () => {
+    let now = 1_000_000;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    const bodies: unknown[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body));
+      bodies.push(body);
+      return body.params && bodies.length === 1
+        ? new Response("{\"error\":\"unknown field `params`\"}", { status: 400 })
+        : new Response("[]");
+    }));
+    const runtime = new AthenaRuntime(runtimeConfig());
+
+    await runtime.runQuery("SELECT $1", "primary", [1]);
+    now += 10 * 60_000;
+    await runtime.runQuery("SELECT $1", "primary", [2]);
+
+    expect(bodies).toEqual([
+      { params: [1], query: "SELECT $1" },
+      { query: "SELECT 1" },
+      { params: [2], query: "SELECT $1" },
+    ]);
+  });
+
+  it("keeps bound parameters when the query fails for other reasons", async () => {
+    const bodies: unknown[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(String(init.body)));
+      return new Response('{"error":"invalid input syntax for type integer: \\"abc\\" (parameter $2)"}', { status: 400 });
+    }));
+    const runtime = new AthenaRuntime(runtimeConfig());
+
+    await expect(runtime.runQuery("SELECT * FROM t WHERE a = $1 AND b = $2", "primary", [1, "abc"])).rejects.toThrow(
+      /HTTP 400/,
+    );
+    await expect(runtime.runQuery("SELECT * FROM t WHERE a = $1 AND b = $2", "primary", [1, "abc"])).rejects.toThrow(
+      /HTTP 400/,
+    );
+
+    expect(bodies).toEqual([
+      { params: [1, "abc"], query: "SELECT * FROM t WHERE a = $1 AND b = $2" },
+      { params: [1, "abc"], query: "SELECT * FROM t WHERE a = $1 AND b = $2" },
+    ]);
+  });
+});
@@ -3,15 +3,76 @@ import {
   type AthenaSdkClientWithStorage,
   type AthenaClient,
 } from "@xylex-group/athena";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { z } from "zod";
+import { matchCallerToken, toCallerIdentity, type CallerIdentity } from "./auth.js";
 import type { AthenaServerConfig } from "./config.js";
+import { ClientCache } from "./client-cache.js";
+import { ConfirmationStore } from "./confirmation.js";
 import { errorContent } from "./responses.js";
 import { logger } from "./logger.js";
+import {
+  CircuitBreaker,
+  ConcurrencyLimiter,
+  type CircuitStatus,
+  type ConcurrencyStatus,
+} from "./client-limits.js";
+import { maskResult, maskRows } from "./masking.js";
+import { isMirrorFailureStatus, MirrorPool, type MirrorStatus } from "./mirrors.js";
+import {
+  type AccessKind,
+  applyReadPolicy,
+  ClientPolicy,
+  type PolicyDenial,
+  type PolicyTableRef,
+  scanSqlRelations,
+} from "./policy.js";
+import { inlineSqlParams, type SqlParam, type SqlStatement } from "./query.js";
+import { currentRequestSignal, currentRequestTool, recordRequestMirror } from "./request-context.js";
+import { ResultCursorStore } from "./result-pages.js";
+import {
+  attemptSignal,
+  isIdempotentMethod,
+  isRetryableStatus,
+  parseRetryAfter,
+  retryDelayMs,
+  sleep,
+  type RetryPolicy,
+} from "./retry.js";
+
+const MAX_RETRY_DELAY_MS = 10_000;
+/** How long completion candidates are reused before Athena is asked again. */
+const COMPLETION_CACHE_TTL_MS = 30_000;
+/** How long a client keeps inlining parameters before bound parameters are tried again. */
+const INLINE_PARAMS_TTL_MS = 10 * 60_000;
 
 interface FetchOptions {
   body?: unknown;
   headers?: Record<string, string>;
+  /**
+   * The request may be replayed (retried, or sent to another mirror) after a
+   * network error or 502/503/504. Defaults to true for GET, HEAD and OPTIONS
+   * only; set it for writes that are safe to apply twice.
+   */
+  idempotent?: boolean;
   method?: string;
+  /** Cancels the request; defaults to the signal of the tool call being served. */
+  signal?: AbortSignal;
+  /** Overrides the configured per-attempt timeout for this request. */
+  timeoutMs?: number;
+}
+
+interface RetryingFetchRequest {
+  clientName: string;
+  /** Builds the thrown message for network errors and timeouts. */
+  describeFailure: (reason: string, url: string) => string;
+  idempotent?: boolean;
+  init: RequestInit;
+  method: string;
+  /** Normalized path ("/..."), appended to whichever mirror serves the attempt. */
+  path: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface BinarySummary {
@@ -23,30 +84,388 @@ export interface BinarySummary {
   statusText: string;
 }
 
+/** Credentials resolved for a single Athena client. */
+export interface ClientConnection {
+  apiKey: string;
+  /** Mirror currently serving this client. */
+  baseUrl: string;
+  /** All mirrors for this client, in failover order. */
+  baseUrls: string[];
+}
+
+function apiKeyHeaders(apiKey: string): Record<string, string> {
+  return apiKey ? { apikey: apiKey, "x-api-key": apiKey } : {};
+}
+
+interface ClientLimits {
+  breaker: CircuitBreaker;
+  limiter: ConcurrencyLimiter;
+  /** Settings the breaker and limiter were built from; a reload that changes them rebuilds both. */
+  settingsKey: string;
+}
+
+/** Circuit breaker, concurrency and mirror state of one client, as shown by get_client_health and /health. */
+export interface ClientHealth {
+  circuit: CircuitStatus;
+  concurrency: ConcurrencyStatus;
+  mirrors: MirrorStatus[];
+}
+
+/** Network failures from fetch (TypeError) and timeouts count against the circuit; errors Athena returned do not. */
+function sdkFailureReason(error: unknown): string | undefined {
+  if (error instanceof TypeError || (error as Error)?.name === "TimeoutError") {
+    return String((error as Error).message);
+  }
+  return undefined;
+}
+
+/**
+ * An HTTP error from Athena saying the `params` field was not used: either
+ * the gateway refused the unknown field, or it dropped it and PostgreSQL
+ * reported the first $n as unbound. Other errors that mention parameters
+ * are ordinary query errors.
+ */
+function gatewayRejectedParams(error: unknown): boolean {
+  const message = String((error as Error)?.message ?? error);
+  return (
+    /^HTTP [45]\d\d/.test(message) &&
+    (/unknown field [`'"]?params\b/i.test(message) || /there is no parameter \$1\b/.test(message))
+  );
+}
+
+/** What changed when a new config was applied with `AthenaRuntime.applyConfig`. */
+export interface ConfigChange {
+  /** Top-level config keys whose values differ (names only, never values). */
+  changedKeys: string[];
+  /** True when the registered tool set or its input schemas must be rebuilt. */
+  toolsChanged: boolean;
+}
+
+function buildClientSelectorSchema(
+  config: AthenaServerConfig,
+): z.ZodType<string | undefined> | undefined {
+  if (config.availableClients.length <= 1) return undefined;
+  return z
+    .enum(config.availableClients as [string, ...string[]])
+    .optional()
+    .describe(
+      `Optional Athena client override. Allowed values: ${config.availableClients.join(", ")}`,
+    );
+}
+
+/** Config values that decide which tools are registered and what their schemas look like. */
+function toolSetKey(config: AthenaServerConfig): string {
+  return JSON.stringify({
+    adminExperimentalEnabled: config.adminExperimentalEnabled,
+    // Gated tools take an extra confirm_token argument.
+    confirmTools: [...config.confirmTools].sort(),
+    clientSelector: config.availableClients.length > 1 ? config.availableClients : [],
+    // Mutating tools are annotated read-only when every client is (see isReadOnlyEverywhere).
+    readOnly: config.availableClients.map((name) => config.readOnly || config.clientConnections[name]?.readOnly === true),
+  });
+}
+
 export class AthenaRuntime {
-  private readonly clientSelectorSchema?: z.ZodType<string | undefined>;
+  private clientSelectorSchema?: z.ZodType<string | undefined>;
+  private currentConfig: AthenaServerConfig;
+  private readonly configListeners = new Set<(change: ConfigChange) => void>();
+  private readonly schemaListeners = new Set<(clientName: string) => void>();
+  private readonly clientLimits = new Map<string, ClientLimits>();
+  /** Pending confirmation tokens for gated destructive tools; kept across config reloads. */
+  public readonly confirmations = new ConfirmationStore();
+  public readonly resultCursors = new ResultCursorStore();
+  /** Schema routes and primary keys per client; rebuilt on config reload so the TTL follows the config. */
+  private schemaCache: ClientCache<unknown>;
+  /** Completion candidates (tables, columns, buckets, rooms) per client; see completions.ts. */
+  public readonly completionCache = new ClientCache<string[]>(COMPLETION_CACHE_TTL_MS);
+  /** Clients whose gateway rejected bound parameters, and when to try binding again; until then parameters are inlined. */
+  private readonly inlineParamClients = new Map<string, number>();
+  private readonly mirrorPools = new Map<string, MirrorPool>();
   private readonly storageClients = new Map<
     string,
     AthenaSdkClientWithStorage<false>
   >();
 
-  constructor(public readonly config: AthenaServerConfig) {
-    if (config.availableClients.length > 1) {
-      this.clientSelectorSchema = z
-        .enum(config.availableClients as [string, ...string[]])
-        .optional()
-        .describe(
-          `Optional Athena client override. Allowed values: ${config.availableClients.join(", ")}`,
-        );
+  constructor(config: AthenaServerConfig) {
+    this.currentConfig = config;
+    this.clientSelectorSchema = buildClientSelectorSchema(config);
+    this.schemaCache = new ClientCache(config.schemaCacheTtlMs);
+  }
+
+  /** The active config. Replaced as a whole by applyConfig, so read it per call rather than caching it. */
+  public get config(): AthenaServerConfig {
+    return this.currentConfig;
+  }
+
+  /**
+   * Swap in a freshly loaded config: cached SDK clients are dropped so they are
+   * rebuilt with the new credentials, the client selector is regenerated, and
+   * listeners (one per MCP server) are told whether their tools need re-registering.
+   */
+  public applyConfig(next: AthenaServerConfig): ConfigChange {
+    const previous = this.currentConfig;
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    const changedKeys = [...keys].filter(
+      (key) =>
+        JSON.stringify(previous[key as keyof AthenaServerConfig]) !==
+        JSON.stringify(next[key as keyof AthenaServerConfig]),
+    );
+    const change: ConfigChange = {
+      changedKeys,
+      toolsChanged: toolSetKey(previous) !== toolSetKey(next),
+    };
+
+    this.currentConfig = next;
+    this.clientSelectorSchema = buildClientSelectorSchema(next);
+    this.sdkClients.clear();
+    this.storageClients.clear();
+    for (const pool of this.mirrorPools.values()) pool.dispose();
+    this.mirrorPools.clear();
+    this.inlineParamClients.clear();
+    this.schemaCache = new ClientCache(next.schemaCacheTtlMs);
+    this.completionCache.invalidate();
+
+    for (const listener of this.configListeners) {
+      listener(change);
     }
+    return change;
+  }
+
+  /** Subscribe to applied config changes. Returns an unsubscribe function. */
+  public onConfigChange(listener: (change: ConfigChange) => void): () => void {
+    this.configListeners.add(listener);
+    return () => {
+      this.configListeners.delete(listener);
+    };
+  }
+
+  /** Report that a tool changed `clientName`'s schema (DDL, migrations); drops its cached schema metadata. */
+  public schemaChanged(clientName: string): void {
+    this.schemaCache.invalidate(clientName);
+    this.completionCache.invalidate(clientName);
+    for (const listener of this.schemaListeners) {
+      listener(clientName);
+    }
+  }
+
+  /** Subscribe to schema changes made through this server. Returns an unsubscribe function. */
+  public onSchemaChange(listener: (clientName: string) => void): () => void {
+    this.schemaListeners.add(listener);
+    return () => {
+      this.schemaListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Schema metadata of `clientName` under `key`, reused for schema_cache_ttl_ms
+   * until a tool changes the client's schema or the config is reloaded.
+   * Callers share the cached value and must not modify it.
+   */
+  public schemaMetadata<T>(clientName: string, key: string, load: () => Promise<T>): Promise<T> {
+    if (this.config.schemaCacheTtlMs <= 0) return load();
+    return this.schemaCache.get(clientName, key, load) as Promise<T>;
+  }
+
+  /** apiFetch of a schema route (`/schema/...`) through the schema cache, keyed by path. */
+  public fetchSchema(path: string, clientName: string): Promise<unknown> {
+    return this.schemaMetadata(clientName, path, () => this.apiFetch(path, clientName));
+  }
+
+  /** Live schema cache entries of `clientName`. */
+  public getSchemaCacheEntries(clientName: string): Array<{ expiresAt: number; key: string }> {
+    return this.schemaCache.entries(clientName);
+  }
+
+  /** Drop `clientName`'s cached schema metadata; returns how many entries were dropped. */
+  public flushSchemaCache(clientName: string): number {
+    return this.schemaCache.invalidate(clientName);
   }
 
   public getClientSelectorSchema(): z.ZodType<string | undefined> | undefined {
     return this.clientSelectorSchema;
   }
 
-  public resolveClientName(clientOverride?: string): string {
-    const selected = (clientOverride ?? this.config.defaultClient).trim();
+  /**
+   * Resolve the authenticated caller for a tool call from the transport's auth info.
+   * The token is re-checked against the current config on every call, so a removed
+   * token stops working immediately. stdio calls carry no auth info and act as the server.
+   */
+  public resolveCaller(authInfo?: AuthInfo): CallerIdentity | undefined {
+    if (!authInfo?.token) {
+      if (this.config.transport === "http" && this.config.authTokens.length > 0) {
+        throw new Error("Unauthenticated request: a bearer token is required.");
+      }
+      return undefined;
+    }
+    const entry = matchCallerToken(this.config.authTokens, authInfo.token);
+    if (!entry) {
+      throw new Error("Caller token is not recognised by this server.");
+    }
+    return toCallerIdentity(entry);
+  }
+
+  /** Clients the caller may route to: its token allowlist intersected with availableClients. */
+  public getAllowedClients(caller?: CallerIdentity): string[] {
+    const clients = caller?.clients;
+    if (!clients) return this.config.availableClients;
+    return this.config.availableClients.filter((name) => clients.includes(name));
+  }
+
+  /**
+   * Effective read-only flag. The server-wide setting, a client's own
+   * `read_only` and a read-only caller token can each only make it stricter.
+   */
+  public isReadOnly(caller?: CallerIdentity, clientName?: string): boolean {
+    const clientReadOnly = clientName
+      ? this.config.clientConnections[clientName]?.readOnly
+      : undefined;
+    return this.config.readOnly || clientReadOnly === true || caller?.readOnly === true;
+  }
+
+  /** Whether every configured client is read-only, so no tool call can write. */
+  public isReadOnlyEverywhere(): boolean {
+    return this.config.availableClients.every((name) => this.isReadOnly(undefined, name));
+  }
+
+  /** Active mirror and API key for a client, falling back to the server-wide values. */
+  public getClientConnection(clientName: string): ClientConnection {
+    const override = this.config.clientConnections[clientName];
+    const pool = this.getMirrorPool(clientName);
+    return {
+      apiKey: override?.apiKey ?? this.config.apiKey,
+      baseUrl: pool.active(),
+      baseUrls: pool.urls,
+    };
+  }
+
+  /** Mirror pools are shared by every client that uses the same mirror list. */
+  private getMirrorPool(clientName: string): MirrorPool {
+    const urls = this.config.clientConnections[clientName]?.baseUrls ?? this.config.baseUrls;
+    const key = urls.join(" ");
+    let pool = this.mirrorPools.get(key);
+    if (!pool) {
+      pool = new MirrorPool(urls);
+      this.mirrorPools.set(key, pool);
+    }
+    return pool;
+  }
+
+  private getClientLimits(clientName: string): ClientLimits {
+    const override = this.config.clientConnections[clientName];
+    const maxConcurrency = override?.maxConcurrency ?? this.config.maxConcurrency;
+    const failureThreshold = override?.circuitFailureThreshold ?? this.config.circuitFailureThreshold;
+    const resetMs = override?.circuitResetMs ?? this.config.circuitResetMs;
+    const settingsKey = `${maxConcurrency}/${failureThreshold}/${resetMs}`;
+    let limits = this.clientLimits.get(clientName);
+    if (!limits || limits.settingsKey !== settingsKey) {
+      limits = {
+        breaker: new CircuitBreaker(clientName, failureThreshold, resetMs),
+        limiter: new ConcurrencyLimiter(maxConcurrency),
+        settingsKey,
+      };
+      this.clientLimits.set(clientName, limits);
+    }
+    return limits;
+  }
+
+  /**
+   * Run `run` under the client's concurrency cap and circuit breaker.
+   * `failureOf` says whether the outcome should count against the circuit
+   * (returning the reason) or as a success (returning undefined).
+   */
+  private async runLimited<T>(
+    clientName: string,
+    run: () => Promise<T>,
+    failureOf: (outcome: { error?: unknown; result?: T }) => string | undefined,
+    signal: AbortSignal | undefined = currentRequestSignal(),
+  ): Promise<T> {
+    const { breaker, limiter } = this.getClientLimits(clientName);
+    let release: () => void;
+    try {
+      release = await limiter.acquire(signal);
+    } catch {
+      throw new Error(`Request cancelled while waiting for a free slot (client=${clientName})`);
+    }
+    try {
+      breaker.assertCanRequest();
+      let result: T;
+      try {
+        result = await run();
+      } catch (error) {
+        const reason = signal?.aborted ? undefined : failureOf({ error });
+        if (signal?.aborted) breaker.abandonTrial();
+        else if (reason !== undefined) breaker.recordFailure(reason);
+        else breaker.recordSuccess();
+        throw error;
+      }
+      const reason = failureOf({ result });
+      if (reason !== undefined) breaker.recordFailure(reason);
+      else breaker.recordSuccess();
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Run an SDK call for `clientName` under the same concurrency cap and circuit
+   * breaker as apiFetch. Only network failures and timeouts trip the breaker.
+   */
+  public withClientLimits<T>(clientName: string, run: () => Promise<T>): Promise<T> {
+    return this.runLimited(clientName, run, ({ error }) => sdkFailureReason(error));
+  }
+
+  /** Circuit, concurrency and mirror state per client (default: all configured clients). */
+  public getClientHealth(clientNames: string[] = this.config.availableClients): Record<string, ClientHealth> {
+    return Object.fromEntries(
+      clientNames.map((name) => {
+        const { breaker, limiter } = this.getClientLimits(name);
+        return [
+          name,
+          {
+            circuit: breaker.snapshot(),
+            concurrency: limiter.snapshot(),
+            mirrors: this.getMirrorPool(name).snapshot(),
+          },
+        ];
+      }),
+    );
+  }
+
+  /** Up/down state of every mirror used by the given clients (default: all configured clients). */
+  public getMirrorStatus(clientNames: string[] = this.config.availableClients): Record<string, MirrorStatus[]> {
+    return Object.fromEntries(
+      clientNames.map((name) => [name, this.getMirrorPool(name).snapshot()]),
+    );
+  }
+
+  /** Whether `toolName` needs a confirmation round trip (see confirmation.ts) before it runs. */
+  public requiresConfirmation(toolName: string): boolean {
+    return this.config.confirmTools.includes(toolName);
+  }
+
+  public assertToolAllowed(toolName: string, caller?: CallerIdentity): void {
+    if (caller?.tools && !caller.tools.includes(toolName)) {
+      throw new Error(
+        `Tool "${toolName}" is not allowed for caller "${caller.name}".`,
+      );
+    }
+  }
+
+  /** The server default client, or the caller's first allowed client when the default is off-limits. */
+  public getDefaultClient(caller?: CallerIdentity): string {
+    const allowed = this.getAllowedClients(caller);
+    return caller && !allowed.includes(this.config.defaultClient)
+      ? (allowed[0] ?? "")
+      : this.config.defaultClient;
+  }
+
+  public resolveClientName(
+    clientOverride?: string,
+    caller?: CallerIdentity,
+  ): string {
+    const allowed = this.getAllowedClients(caller);
+    const selected = (clientOverride ?? this.getDefaultClient(caller)).trim();
     if (!selected) {
       throw new Error("No Athena client was selected.");
     }
@@ -55,43 +474,277 @@ export class AthenaRuntime {
         `Athena client "${selected}" is not allowed. Configure ATHENA_AVAILABLE_CLIENTS to include it.`,
       );
     }
+    if (caller && !allowed.includes(selected)) {
+      throw new Error(
+        `Athena client "${selected}" is not allowed for caller "${caller.name}".`,
+      );
+    }
     return selected;
   }
 
+  /** Access policy for a client: the `*` entry of `policies` plus the client's own entry. */
+  public getPolicy(clientName: string): ClientPolicy {
+    return ClientPolicy.forClient(this.config.policies, clientName);
+  }
+
+  public assertToolPolicy(toolName: string, clientName: string): void {
+    const denial = this.getPolicy(clientName).checkTool(toolName);
+    if (denial) this.policyDenied(clientName, denial, toolName);
+  }
+
+  /** Throw when the client's policy denies `access` to the table or to any of `columns`. */
+  public assertTableAccess(
+    clientName: string,
+    access: AccessKind,
+    ref: PolicyTableRef,
+    columns: string[] = [],
+  ): void {
+    const policy = this.getPolicy(clientName);
+    const denial =
+      policy.checkTable(access, ref) ??
+      columns.map((column) => policy.checkColumn(access, ref, column)).find(Boolean);
+    if (denial) this.policyDenied(clientName, denial);
+  }
+
+  /**
+   * Check the tables raw SQL reads and writes (best effort, see scanSqlRelations),
+   * refuse tables with column rules (see checkRawSql) and SQL whose FROM list
+   * could not be read; returns the tables it names.
+   */
+  public assertSqlAccess(clientName: string, sql: string): PolicyTableRef[] {
+    const policy = this.getPolicy(clientName);
+    const { relations, unparsed } = scanSqlRelations(sql);
+    if (policy.restrictsData) {
+      const unchecked = unparsed.length ? policy.checkUnparsedSql(unparsed[0]) : undefined;
+      if (unchecked) this.policyDenied(clientName, unchecked);
+      for (const { access, ref } of relations) {
+        const denial = policy.checkTable(access, ref) ?? policy.checkRawSql(ref);
+        if (denial) this.policyDenied(clientName, denial);
+      }
+    }
+    return relations.map((relation) => relation.ref);
+  }
+
+  /** Remove read-denied columns of `tables` from result rows and cap them at the policy's max_rows. */
+  public applyReadPolicy(clientName: string, tables: PolicyTableRef[], result: unknown): unknown {
+    const policy = this.getPolicy(clientName);
+    const shaped = applyReadPolicy(policy, tables, result);
+    if (shaped.hiddenColumns.length || shaped.truncated) {
+      logger.info("Policy shaped query result", {
+        client: clientName,
+        hiddenColumns: shaped.hiddenColumns,
+        maxRows: shaped.truncated ? policy.maxRows : undefined,
+        tool: currentRequestTool(),
+      }).catch(() => {});
+    }
+    return shaped.result;
+  }
+
+  /** Mask PII in rows read from `tables` per mask_columns and mask_detectors. */
+  public maskRows(tables: PolicyTableRef[], rows: unknown[]): { maskedColumns: string[]; rows: unknown[] } {
+    const masked = maskRows({ columns: this.config.maskColumns, detectors: this.config.maskDetectors }, tables, rows);
+    if (masked.maskedColumns.length) {
+      logger.info("Masked PII in query result", {
+        maskedColumns: masked.maskedColumns,
+        tool: currentRequestTool(),
+      }).catch(() => {});
+    }
+    return masked;
+  }
+
+  /** Mask PII anywhere in a result that is not a row array (see maskResult). */
+  public maskResult(tables: PolicyTableRef[], value: unknown): { maskedColumns: string[]; value: unknown } {
+    const masked = maskResult({ columns: this.config.maskColumns, detectors: this.config.maskDetectors }, tables, value);
+    if (masked.maskedColumns.length) {
+      logger.info("Masked PII in query result", {
+        maskedColumns: masked.maskedColumns,
+        tool: currentRequestTool(),
+      }).catch(() => {});
+    }
+    return masked;
+  }
+
+  /** `limit` clamped to the client's policy max_rows (unchanged when there is none). */
+  public clampLimit(clientName: string, limit: number): number {
+    const maxRows = this.getPolicy(clientName).maxRows;
+    return maxRows !== undefined ? Math.min(limit, maxRows) : limit;
+  }
+
+  private policyDenied(clientName: string, denial: PolicyDenial, toolName = currentRequestTool()): never {
+    logger.warn("Policy denied access", {
+      client: clientName,
+      rule: denial.rule,
+      target: denial.target,
+      tool: toolName,
+    }).catch(() => {});
+    throw new Error(`Policy denies ${denial.target} for Athena client "${clientName}" (rule: ${denial.rule}).`);
+  }
+
+  private getRetryPolicy(timeoutMs?: number): RetryPolicy {
+    return {
+      baseDelayMs: this.config.retryBaseDelayMs,
+      maxDelayMs: MAX_RETRY_DELAY_MS,
+      maxRetries: Math.max(0, this.config.maxRetries),
+      timeoutMs: timeoutMs ?? this.config.requestTimeoutMs,
+    };
+  }
+
+  /**
+   * fetch() with a per-attempt timeout, cancellation, retries and mirror failover.
+   *
+   * Network errors and timeouts are retried for idempotent requests; retryable
+   * statuses follow isRetryableStatus. A mirror that fails with a network error
+   * or 502/503/504 is marked down, and an eligible request moves straight on to
+   * the next healthy mirror before falling back to jittered exponential backoff
+   * (or the server's Retry-After). The body is read inside the attempt so a
+   * stalled body counts against the timeout too.
+   */
+  private async fetchWithRetry<T>(
+    request: RetryingFetchRequest,
+    readBody: (response: Response) => Promise<T>,
+  ): Promise<{ body: T; response: Response; url: string }> {
+    const { clientName, method, path } = request;
+    const policy = this.getRetryPolicy(request.timeoutMs);
+    const idempotent = request.idempotent ?? isIdempotentMethod(method);
+    const callerSignal = request.signal ?? currentRequestSignal();
+    const pool = this.getMirrorPool(clientName);
+    const tried = new Set<string>();
+    let retries = 0;
+    let baseUrl = pool.active();
+
+    for (;;) {
+      const url = `${baseUrl}${path}`;
+      const cancelled = () => new Error(`Request cancelled: ${method} ${url} (client=${clientName})`);
+      if (callerSignal?.aborted) throw cancelled();
+      tried.add(baseUrl);
+      recordRequestMirror(baseUrl);
+
+      const attemptAbort = attemptSignal(callerSignal, policy.timeoutMs);
+      let failure: string;
+      let eligible: boolean;
+      let retryAfterMs: number | undefined;
+      let result: { body: T; response: Response; url: string } | undefined;
+      try {
+        const response = await fetch(url, { ...request.init, method, signal: attemptAbort.signal });
+        const body = await readBody(response);
+        if (isMirrorFailureStatus(response.status)) pool.markDown(baseUrl, `HTTP ${response.status}`);
+        else pool.markUp(baseUrl);
+        result = { body, response, url };
+        failure = `HTTP ${response.status}`;
+        eligible = isRetryableStatus(method, response.status, idempotent);
+        retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      } catch (fetchErr: unknown) {
+        if (callerSignal?.aborted) throw cancelled();
+        failure = attemptAbort.timedOut()
+          ? `timed out after ${policy.timeoutMs} ms`
+          : String((fetchErr as Error)?.message ?? fetchErr);
+        pool.markDown(baseUrl, failure);
+        eligible = idempotent;
+      } finally {
+        attemptAbort.cleanup();
+      }
+      if (result && !eligible) return result;
+
+      // Another healthy mirror is tried straight away; backoff retries are for when none is left.
+      const next = eligible ? pool.nextUntried(tried) : undefined;
+      const delay = next
+        ? 0
+        : eligible && retries < policy.maxRetries
+          ? retryDelayMs(retries, policy, retryAfterMs)
+          : undefined;
+
+      if (delay === undefined) {
+        if (result) return result;
+        const attempts = tried.size + retries;
+        const msg = request.describeFailure(
+          attempts > 1 ? `${failure} (after ${attempts} attempts)` : failure,
+          url,
+        );
+        logger.error(msg, { path, client: clientName, method, mirror: baseUrl }).catch(() => {});
+        throw new Error(msg);
+      }
+
+      if (next) {
+        logger.warn("Failing over to next Athena mirror", {
+          client: clientName,
+          error: failure,
+          from: baseUrl,
+          method,
+          path,
+          to: next,
+        }).catch(() => {});
+        baseUrl = next;
+        continue;
+      }
+
+      retries += 1;
+      logger.warn("Retrying Athena request", {
+        attempt: retries,
+        client: clientName,
+        delayMs: delay,
+        error: failure,
+        method,
+        path,
+      }).catch(() => {});
+      try {
+        await sleep(delay, callerSignal);
+      } catch {
+        throw cancelled();
+      }
+      baseUrl = pool.active();
+    }
+  }
+
+  /** fetchWithRetry under the client's concurrency cap and circuit breaker. */
+  private limitedFetch<T>(
+    request: RetryingFetchRequest,
+    readBody: (response: Response) => Promise<T>,
+  ): Promise<{ body: T; response: Response; url: string }> {
+    return this.runLimited(
+      request.clientName,
+      () => this.fetchWithRetry(request, readBody),
+      ({ error, result }) => {
+        if (error) return String((error as Error)?.message ?? error);
+        return result && isMirrorFailureStatus(result.response.status)
+          ? `HTTP ${result.response.status}`
+          : undefined;
+      },
+      request.signal ?? currentRequestSignal(),
+    );
+  }
+
   public async apiFetch(
     path: string,
     clientName: string,
     opts: FetchOptions = {},
   ): Promise<unknown> {
+    const { apiKey } = this.getClientConnection(clientName);
     const normalizedPath = `/${path.replace(/^\/+/, "")}`;
-    const url = `${this.config.baseUrl}${normalizedPath}`;
     const method = opts.method ?? "GET";
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
       "X-Athena-Client": clientName,
-      ...(this.config.apiKey
-        ? {
-            apikey: this.config.apiKey,
-            "x-api-key": this.config.apiKey,
-          }
-        : {}),
+      ...apiKeyHeaders(apiKey),
       ...(opts.headers ?? {}),
     };
 
-    let response: Response;
-    try {
-      response = await fetch(url, {
+    const { body: text, response, url } = await this.limitedFetch(
+      {
+        clientName,
+        describeFailure: (reason, url) => `Network error calling ${method} ${url} (client=${clientName}): ${reason}`,
+        idempotent: opts.idempotent,
+        init: {
+          headers,
+          ...(opts.body !== undefined ? { body: JSON.stringify(opts.body) } : {}),
+        },
         method,
-        headers,
-        ...(opts.body !== undefined ? { body: JSON.stringify(opts.body) } : {}),
-      });
-    } catch (fetchErr: any) {
-      const msg = `Network error calling ${method} ${url} (client=${clientName}): ${fetchErr?.message || fetchErr}`;
-      logger.error(msg, { path, client: clientName, method }).catch(() => {});
-      throw new Error(msg);
-    }
+        path: normalizedPath,
+        signal: opts.signal,
+        timeoutMs: opts.timeoutMs,
+      },
+      (res) => res.text(),
+    );
 
-    const text = await response.text();
     let data: unknown = text;
     try {
       data = JSON.parse(text);
@@ -121,37 +774,35 @@ export class AthenaRuntime {
     clientName: string,
     opts: Omit<FetchOptions, "headers"> = {},
   ): Promise<BinarySummary> {
+    const { apiKey } = this.getClientConnection(clientName);
     const normalizedPath = `/${path.replace(/^\/+/, "")}`;
-    const url = `${this.config.baseUrl}${normalizedPath}`;
     const method = opts.method ?? "GET";
 
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method,
-        headers: {
-          "X-Athena-Client": clientName,
-          ...(this.config.apiKey
-            ? {
-                apikey: this.config.apiKey,
-                "x-api-key": this.config.apiKey,
-              }
-            : {}),
+    const { body: bodyText, response } = await this.limitedFetch(
+      {
+        clientName,
+        describeFailure: (reason, url) => `Network error (binary) ${method} ${url} (client=${clientName}): ${reason}`,
+        idempotent: opts.idempotent,
+        init: {
+          headers: {
+            "X-Athena-Client": clientName,
+            ...apiKeyHeaders(apiKey),
+          },
+          ...(opts.body !== undefined ? { body: JSON.stringify(opts.body) } : {}),
         },
-        ...(opts.body !== undefined ? { body: JSON.stringify(opts.body) } : {}),
-      });
-    } catch (fetchErr: any) {
-      const msg = `Network error (binary) ${method} ${url} (client=${clientName}): ${fetchErr?.message || fetchErr}`;
-      logger.error(msg, { path, client: clientName }).catch(() => {});
-      throw new Error(msg);
-    }
-
+        method,
+        path: normalizedPath,
+        signal: opts.signal,
+        timeoutMs: opts.timeoutMs,
+      },
+      async (res) => {
+        const type = res.headers.get("content-type");
+        return type && /json|text|xml|yaml|javascript|html/i.test(type)
+          ? await res.text()
+          : undefined;
+      },
+    );
     const contentType = response.headers.get("content-type") ?? undefined;
-    const bodyText =
-      contentType &&
-      /json|text|xml|yaml|javascript|html/i.test(contentType)
-        ? await response.text()
-        : undefined;
 
     if (!response.ok) {
       const detail = bodyText ?? response.statusText;
@@ -169,25 +820,56 @@ export class AthenaRuntime {
     };
   }
 
-  public async runQuery(sql: string, clientName: string): Promise<unknown> {
+  /**
+   * Run SQL through /gateway/query. Positional parameters ($1, $2, ...) are
+   * sent as `params` for the gateway to bind. If a gateway rejects them, the
+   * client's parameters are inlined with quoteSqlLiteral for
+   * INLINE_PARAMS_TTL_MS or until the config is reloaded.
+   */
+  public async runQuery(sql: string, clientName: string, params?: SqlParam[]): Promise<unknown> {
     const trimmed = sql.trim().replace(/;\s*$/, "");
+    if (!params?.length) {
+      return this.apiFetch("/gateway/query", clientName, {
+        body: { query: trimmed },
+        method: "POST",
+      });
+    }
+
+    if ((this.inlineParamClients.get(clientName) ?? 0) <= Date.now()) {
+      try {
+        return await this.apiFetch("/gateway/query", clientName, {
+          body: { params, query: trimmed },
+          method: "POST",
+        });
+      } catch (err) {
+        if (!gatewayRejectedParams(err)) throw err;
+        this.inlineParamClients.set(clientName, Date.now() + INLINE_PARAMS_TTL_MS);
+        logger.info("Gateway does not bind query parameters; inlining them for this client", {
+          client: clientName,
+          error: String((err as Error)?.message ?? err).slice(0, 300),
+        }).catch(() => {});
+      }
+    }
     return this.apiFetch("/gateway/query", clientName, {
-      body: { query: trimmed },
+      body: { query: inlineSqlParams(trimmed, params) },
       method: "POST",
     });
   }
 
+  // SDK clients are bound to one base URL, so they are cached per client and active mirror.
   public getStorageSdkClient(clientName: string): AthenaSdkClientWithStorage<false> {
-    let client = this.storageClients.get(clientName);
+    const { apiKey, baseUrl } = this.getClientConnection(clientName);
+    const cacheKey = `${clientName} ${baseUrl}`;
+    let client = this.storageClients.get(cacheKey);
     if (!client) {
-      client = createClient(this.config.baseUrl, this.config.apiKey, {
+      client = createClient(baseUrl, apiKey, {
         client: clientName,
         experimental: {
           athenaStorageBackend: true,
 
         },
       });
-      this.storageClients.set(clientName, client);
+      this.storageClients.set(cacheKey, client);
     }
     return client;
   }
@@ -195,12 +877,14 @@ export class AthenaRuntime {
   private readonly sdkClients = new Map<string, AthenaClient>();
 
   public getSdkClient(clientName: string): AthenaClient {
-    let client = this.sdkClients.get(clientName);
+    const { apiKey, baseUrl } = this.getClientConnection(clientName);
+    const cacheKey = `${clientName} ${baseUrl}`;
+    let client = this.sdkClients.get(cacheKey);
     if (!client) {
-      client = createClient(this.config.baseUrl, this.config.apiKey, {
+      client = createClient(baseUrl, apiKey, {
         client: clientName,
       });
-      this.sdkClients.set(clientName, client);
+      this.sdkClients.set(cacheKey, client);
     }
     return client;
   }
@@ -234,13 +918,15 @@ export class AthenaRuntime {
     const client = this.getSdkClient(clientName);
     const reqFn = (client as any).request;
     if (typeof reqFn === "function") {
-      return reqFn.call(client, {
-        service: opts.service ?? "gateway",
-        method: opts.method ?? "GET",
-        path: opts.path,
-        body: opts.body,
-        headers: opts.headers,
-      });
+      return this.withClientLimits(clientName, () =>
+        reqFn.call(client, {
+          service: opts.service ?? "gateway",
+          method: opts.method ?? "GET",
+          path: opts.path,
+          body: opts.body,
+          headers: opts.headers,
+        }),
+      );
     }
     // Fallback to direct fetch if SDK request not available
     const fullPath = opts.path.startsWith("/") ? opts.path : `/${opts.path}`;
@@ -251,11 +937,11 @@ export class AthenaRuntime {
     });
   }
 
-  /** Execute an auth action via the best available path. */
+  /** Execute an auth action via the best available path, under the client's limits (see withClientLimits). */
   public async performAuth(clientName: string, action: string, payload?: unknown): Promise<unknown> {
     const auth = this.getAuthModule(clientName);
     if (auth && typeof auth[action] === "function") {
-      return auth[action](payload);
+      return this.withClientLimits(clientName, () => auth[action](payload));
     }
     // Fallback via unified request
     return this.sdkRequest(clientName, {
@@ -266,12 +952,12 @@ export class AthenaRuntime {
     });
   }
 
-  /** Execute chat action. */
+  /** Execute chat action, under the client's limits (see withClientLimits). */
   public async performChat(clientName: string, namespace: "room" | "message", action: string, payload?: unknown): Promise<unknown> {
     const chat = this.getChatModule(clientName);
     const mod = chat?.[namespace];
     if (mod && typeof mod[action] === "function") {
-      return mod[action](payload);
+      return this.withClientLimits(clientName, () => mod[action](payload));
     }
     return this.sdkRequest(clientName, {
       service: "chat",
@@ -288,7 +974,22 @@ export function readOnlyToolError(toolName: string) {
   );
 }
 
+/** Read-only rejection that names the offending statement and why it counts as a write. */
+export function readOnlySqlError(toolName: string, statement: SqlStatement) {
+  const preview = statement.text.length > 200 ? `${statement.text.slice(0, 200)}...` : statement.text;
+  return errorContent(
+    `${toolName} blocked statement ${statement.index + 1} (${statement.command}): ${statement.reason}. ` +
+      `The server is running in read-only mode.\n\n${preview}`,
+  );
+}
+
 export interface ToolContext {
+  /** Authenticated HTTP caller; undefined for stdio and unauthenticated servers. */
+  caller?: CallerIdentity;
   clientName: string;
+  /** Effective read-only flag for this call (server-wide or per-caller). */
+  readOnly: boolean;
   runtime: AthenaRuntime;
+  /** Aborts when the MCP host cancels the request; apiFetch picks it up automatically. */
+  signal?: AbortSignal;
 }
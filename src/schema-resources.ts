@@ -0,0 +1,194 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { sanitizeIdentifier } from "./identifier.js";
+import { logger } from "./logger.js";
+import type { PolicyTableRef } from "./policy.js";
+import { runWithRequestContext } from "./request-context.js";
+import type { AthenaRuntime } from "./runtime.js";
+
+/**
+ * Schema metadata as MCP resources, so hosts can attach table definitions as
+ * context without a tool call:
+ *
+ * - `athena://{client}/schema` lists the client's tables (system schemas left out)
+ * - `athena://{client}/schema/{schema}/{table}` is one table's columns and
+ *   unique constraints
+ *
+ * Both are read from Athena's `/schema/tables`, `/schema/columns` and
+ * `/schema/constraints` routes through the runtime's schema cache, with the
+ * caller's client allowlist and the client's read policy applied. Tools that change the
+ * schema call `runtime.schemaChanged`, and the server then sends
+ * `notifications/resources/list_changed`.
+ */
+
+type ResourceExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+const MIME_TYPE = "application/json";
+
+export interface SchemaTable {
+  schema: string;
+  table: string;
+}
+
+export function schemaIndexUri(client: string): string {
+  return `athena://${encodeURIComponent(client)}/schema`;
+}
+
+export function tableResourceUri(client: string, ref: SchemaTable): string {
+  return `${schemaIndexUri(client)}/${encodeURIComponent(ref.schema)}/${encodeURIComponent(ref.table)}`;
+}
+
+function isSystemSchema(schema: string): boolean {
+  return schema.startsWith("pg_") || schema === "information_schema";
+}
+
+/** Decoded value of a URI template variable. */
+function variable(value: string | string[] | undefined): string {
+  return decodeURIComponent(Array.isArray(value) ? (value[0] ?? "") : (value ?? ""));
+}
+
+/** The client named in a resource URI, checked against the caller's allowlist. */
+function resolveClient(runtime: AthenaRuntime, extra: ResourceExtra, client: string | string[] | undefined): string {
+  return runtime.resolveClientName(variable(client), runtime.resolveCaller(extra.authInfo));
+}
+
+/** Tables of `client` that its read policy allows, sorted by schema and name. */
+export async function readableTables(runtime: AthenaRuntime, client: string): Promise<SchemaTable[]> {
+  const data = (await runtime.fetchSchema("/schema/tables", client)) as {
+    tables?: Array<{ table_name?: string; table_schema?: string }>;
+  };
+  const policy = runtime.getPolicy(client);
+  return (Array.isArray(data.tables) ? data.tables : [])
+    .map((table) => ({ schema: table.table_schema ?? "public", table: table.table_name ?? "" }))
+    .filter((ref) => ref.table && !isSystemSchema(ref.schema) && !policy.checkTable("read", ref))
+    .sort((left, right) => `${left.schema}.${left.table}`.localeCompare(`${right.schema}.${right.table}`));
+}
+
+/** Columns of one table that the client's read policy shows, in table order. */
+export async function readableColumns(runtime: AthenaRuntime, client: string, ref: PolicyTableRef) {
+  runtime.assertTableAccess(client, "read", ref);
+  const policy = runtime.getPolicy(client);
+  const qualified = ref.schema === "public" ? ref.table : `${ref.schema}.${ref.table}`;
+  const columnData = (await runtime.fetchSchema(
+    `/schema/columns?table_name=${encodeURIComponent(qualified)}`,
+    client,
+  )) as {
+    columns?: Array<{
+      column_default?: string | null;
+      column_name?: string;
+      data_type?: string | null;
+      is_nullable?: string | null;
+    }>;
+  };
+  return (Array.isArray(columnData.columns) ? columnData.columns : [])
+    .filter((column) => column.column_name && !policy.checkColumn("read", ref, column.column_name))
+    .map((column) => ({
+      default: column.column_default ?? null,
+      name: column.column_name ?? "",
+      nullable: (column.is_nullable ?? "YES").toUpperCase() === "YES",
+      type: column.data_type ?? "unknown",
+    }));
+}
+
+/** Columns and unique constraints of one table, without what the client's read policy hides. */
+export async function readTableDefinition(runtime: AthenaRuntime, client: string, ref: PolicyTableRef) {
+  const columns = await readableColumns(runtime, client, ref);
+  const policy = runtime.getPolicy(client);
+  const visible = (column: string) => !policy.checkColumn("read", ref, column);
+
+  let constraints: Array<{ columns: string[]; constraint_name: string }> = [];
+  try {
+    const constraintData = (await runtime.fetchSchema(
+      `/schema/constraints?table_name=${encodeURIComponent(ref.table)}&table_schema=${encodeURIComponent(ref.schema)}`,
+      client,
+    )) as { constraints?: Array<{ columns?: string[]; constraint_name?: string }> };
+    constraints = (Array.isArray(constraintData.constraints) ? constraintData.constraints : [])
+      .map((constraint) => ({
+        columns: Array.isArray(constraint.columns) ? constraint.columns : [],
+        constraint_name: constraint.constraint_name ?? "",
+      }))
+      // A constraint over a hidden column would reveal the column's name.
+      .filter((constraint) => constraint.columns.every(visible));
+  } catch {
+    // Older Athena releases have no /schema/constraints; the columns still stand on their own.
+  }
+
+  return { client, columns, constraints, schema: ref.schema, table: ref.table };
+}
+
+function jsonResource(uri: URL, data: unknown) {
+  return { contents: [{ mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2), uri: uri.href }] };
+}
+
+export function registerSchemaResources(server: McpServer, runtime: AthenaRuntime): void {
+  server.registerResource(
+    "schema-index",
+    new ResourceTemplate("athena://{client}/schema", {
+      list: async (extra) => ({
+        resources: runtime.getAllowedClients(runtime.resolveCaller(extra.authInfo)).map((client) => ({
+          mimeType: MIME_TYPE,
+          name: `${client} schema`,
+          uri: schemaIndexUri(client),
+        })),
+      }),
+    }),
+    {
+      description: "Tables of an Athena client, with the URI of each table's definition.",
+      mimeType: MIME_TYPE,
+      title: "Athena schema",
+    },
+    async (uri, variables, extra) =>
+      runWithRequestContext({ signal: extra.signal }, async () => {
+        const client = resolveClient(runtime, extra, variables.client);
+        const tables = await readableTables(runtime, client);
+        return jsonResource(uri, {
+          client,
+          tables: tables.map((ref) => ({ ...ref, uri: tableResourceUri(client, ref) })),
+        });
+      }),
+  );
+
+  server.registerResource(
+    "schema-table",
+    new ResourceTemplate("athena://{client}/schema/{schema}/{table}", {
+      list: async (extra) =>
+        runWithRequestContext({ signal: extra.signal }, async () => {
+          const resources = [];
+          for (const client of runtime.getAllowedClients(runtime.resolveCaller(extra.authInfo))) {
+            let tables: SchemaTable[];
+            try {
+              tables = await readableTables(runtime, client);
+            } catch (error) {
+              // One unreachable client should not hide the others' tables.
+              logger.warn("Could not list schema resources", { client, error: String(error) }).catch(() => {});
+              continue;
+            }
+            for (const ref of tables) {
+              resources.push({
+                mimeType: MIME_TYPE,
+                name: `${ref.schema}.${ref.table}`,
+                title: `${ref.schema}.${ref.table} (${client})`,
+                uri: tableResourceUri(client, ref),
+              });
+            }
+          }
+          return { resources };
+        }),
+    }),
+    {
+      description: "Columns (name, type, nullable, default) and unique constraints of one table.",
+      mimeType: MIME_TYPE,
+      title: "Athena table definition",
+    },
+    async (uri, variables, extra) =>
+      runWithRequestContext({ signal: extra.signal }, async () => {
+        const client = resolveClient(runtime, extra, variables.client);
+        const ref = {
+          schema: sanitizeIdentifier(variable(variables.schema), "schema"),
+          table: sanitizeIdentifier(variable(variables.table), "table"),
+        };
+        return jsonResource(uri, await readTableDefinition(runtime, client, ref));
+      }),
+  );
+}
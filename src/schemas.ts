@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { RESULT_FORMATS } from "./row-formats.js";
 
 export const jsonScalarSchema = z.union([
   z.string(),
@@ -9,6 +10,14 @@ export const jsonScalarSchema = z.union([
 
 export const stringRecordSchema = z.record(z.string(), z.unknown());
 
+export const resultFormatSchema = z
+  .enum(RESULT_FORMATS)
+  .optional()
+  .describe(
+    "Output format: json (indented, default), compact (JSON without whitespace, every row with the same columns), " +
+      "csv, markdown (a table) or ndjson (one JSON row per line). NULL is written as NULL in csv and markdown.",
+  );
+
 export const managementColumnSchema = z.object({
   name: z.string().describe("Column name"),
   data_type: z.string().describe("PostgreSQL data type"),
@@ -109,3 +118,121 @@ export const saveAthenaClientSchema = z.object({
   pg_uri_env_var: z.string().optional(),
   is_active: z.boolean().optional(),
 });
+
+// Output schemas (`structuredContent`). Objects are loose so fields Athena
+// adds later still validate.
+
+const nullableString = z.string().nullable();
+
+export const tableMetadataOutputSchema = z.object({
+  columns: z.array(
+    z.object({
+      default: nullableString.describe("Default expression, or null"),
+      name: z.string(),
+      nullable: z.boolean(),
+      primary_key: z.boolean(),
+      type: z.string().describe("PostgreSQL data type"),
+    }),
+  ),
+  qualified: z.string().describe("Schema-qualified, quoted table name"),
+  schema: z.string(),
+  table: z.string(),
+});
+
+export const schemasOutputSchema = z.object({
+  schemas: z.array(z.object({ schema_name: z.string() })),
+});
+
+export const indexesOutputSchema = z.object({
+  indexes: z.array(z.object({ index_def: z.string(), index_name: z.string() })),
+  message: z.string().optional().describe("Set when index metadata is not available"),
+});
+
+export const constraintsOutputSchema = z.object({
+  constraints: z.array(
+    z.object({
+      column_name: z.string(),
+      constraint_name: z.string(),
+      constraint_type: z.enum(["FOREIGN KEY", "PRIMARY KEY", "UNIQUE"]),
+      foreign_column_name: nullableString,
+      foreign_table_name: nullableString,
+      foreign_table_schema: nullableString,
+    }),
+  ),
+  message: z.string().optional().describe("Set when constraint metadata is not available"),
+});
+
+export const clusterHealthOutputSchema = z.looseObject({
+  athena_api: z.string().optional(),
+  cargo_toml_version: z.string().optional(),
+  message: z.string().optional(),
+  mirrors: z
+    .array(
+      z.looseObject({
+        cargo_toml_version: nullableString.optional(),
+        download_bytes_per_sec: z.number().nullable().optional(),
+        latency_ms: z.number().nullable().optional(),
+        message: nullableString.optional(),
+        status: z.string().optional().describe("online or offline"),
+        url: z.string().optional(),
+      }),
+    )
+    .optional(),
+  version: z.string().optional(),
+});
+
+/** Keyed by client name. */
+export const clientHealthOutputSchema = z.object({}).catchall(
+  z.object({
+    circuit: z.object({
+      consecutiveFailures: z.number(),
+      failureThreshold: z.number(),
+      lastError: z.string().optional(),
+      openedAt: z.string().optional(),
+      retryAt: z.string().optional(),
+      state: z.enum(["closed", "half_open", "open"]),
+    }),
+    concurrency: z.object({ active: z.number(), limit: z.number(), queued: z.number() }),
+    mirrors: z.array(
+      z.object({
+        lastError: z.string().optional(),
+        since: z.string().optional(),
+        status: z.enum(["down", "up"]),
+        url: z.string(),
+      }),
+    ),
+  }),
+);
+
+const clientStatisticsRecordSchema = z.looseObject({
+  client_name: z.string().optional(),
+  failed_requests: z.number().optional(),
+  last_operation_at: nullableString.optional(),
+  last_request_at: nullableString.optional(),
+  successful_requests: z.number().optional(),
+  total_cached_requests: z.number().optional(),
+  total_operations: z.number().optional(),
+  total_requests: z.number().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const clientStatisticsListOutputSchema = z.looseObject({
+  statistics: z.array(clientStatisticsRecordSchema).optional(),
+});
+
+export const clientStatisticsDetailOutputSchema = z.looseObject({
+  statistics: clientStatisticsRecordSchema.optional(),
+  tables: z
+    .array(
+      z.looseObject({
+        client_name: z.string().optional(),
+        error_operations: z.number().optional(),
+        last_operation_at: nullableString.optional(),
+        operation: z.string().optional(),
+        table_name: z.string().optional(),
+        total_operations: z.number().optional(),
+        updated_at: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
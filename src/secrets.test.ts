@@ -0,0 +1,35 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { resolveSecret } from "./secrets.js";
+
+const ORIGINAL_ENV = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...ORIGINAL_ENV };
+});
+
+describe("resolveSecret", () => {
+  it("returns literals unchanged", () => {
+    expect(resolveSecret("plain-key", "athena_api_key")).toBe("plain-key");
+  });
+
+  it("resolves env:, file: and cmd: references", () => {
+    process.env.ATHENA_TEST_SECRET = "from-env";
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "athena-mcp-secret-"));
+    const file = path.join(dir, "key");
+    fs.writeFileSync(file, "from-file\n");
+
+    expect(resolveSecret("env:ATHENA_TEST_SECRET", "athena_api_key")).toBe("from-env");
+    expect(resolveSecret(`file:${file}`, "athena_api_key")).toBe("from-file");
+    expect(resolveSecret("cmd:echo from-cmd", "athena_api_key")).toBe("from-cmd");
+  });
+
+  it("names the field but not the value when a reference cannot be resolved", () => {
+    expect(() => resolveSecret("env:ATHENA_TEST_MISSING", "api_key for Athena client \"analytics\"")).toThrow(
+      'Secret reference for api_key for Athena client "analytics" points at unset environment variable ATHENA_TEST_MISSING.',
+    );
+    expect(() => resolveSecret("cmd:exit 3", "athena_api_key")).toThrow("exit code 3");
+  });
+});
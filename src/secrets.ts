@@ -0,0 +1,55 @@
+import { execSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+
+const COMMAND_TIMEOUT_MS = 10_000;
+
+/**
+ * Resolve a credential that may be a secret reference instead of a literal:
+ *
+ *  - `env:NAME`      value of environment variable NAME
+ *  - `file:/path`    contents of the file (surrounding whitespace trimmed; `~/` expands to home)
+ *  - `cmd:<command>` stdout of the shell command (e.g. `cmd:op read op://vault/athena/key`)
+ *
+ * Anything else is returned as-is. `field` names the setting in error messages;
+ * resolved values never appear in them.
+ */
+export function resolveSecret(value: string, field: string): string {
+  const match = value.match(/^(env|file|cmd):(.*)$/s);
+  if (!match) return value;
+  const [, kind, ref] = match;
+  const target = ref.trim();
+  if (!target) {
+    throw new Error(`Secret reference for ${field} is empty after "${kind}:".`);
+  }
+
+  if (kind === "env") {
+    const resolved = process.env[target];
+    if (resolved == null || resolved.trim() === "") {
+      throw new Error(`Secret reference for ${field} points at unset environment variable ${target}.`);
+    }
+    return resolved.trim();
+  }
+
+  if (kind === "file") {
+    const filePath = target.startsWith("~/") ? `${os.homedir()}${target.slice(1)}` : target;
+    try {
+      return fs.readFileSync(filePath, "utf8").trim();
+    } catch (err) {
+      const reason = (err as NodeJS.ErrnoException).code ?? String(err);
+      throw new Error(`Secret reference for ${field} could not read ${filePath}: ${reason}`);
+    }
+  }
+
+  try {
+    return execSync(target, {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+      timeout: COMMAND_TIMEOUT_MS,
+    }).trim();
+  } catch (err) {
+    const { code, status } = err as NodeJS.ErrnoException & { status?: number | null };
+    const reason = status != null ? `exit code ${status}` : (code ?? "did not complete");
+    throw new Error(`Secret reference for ${field} failed to run its command (${reason}).`);
+  }
+}
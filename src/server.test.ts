@@ -0,0 +1,639 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ElicitRequestSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AthenaServerConfig } from "./config.js";
+import { AthenaRuntime } from "./runtime.js";
+import { createMcpServer } from "./server.js";
+
+function serverConfig(overrides: Partial<AthenaServerConfig> = {}): AthenaServerConfig {
+  return {
+    adminExperimentalEnabled: false,
+    apiKey: "server-key",
+    authTokens: [],
+    availableClients: ["primary"],
+    baseUrl: "https://athena.example.com",
+    baseUrls: ["https://athena.example.com"],
+    circuitFailureThreshold: 5,
+    circuitResetMs: 30_000,
+    clientConnections: {},
+    confirmTools: [],
+    defaultClient: "primary",
+    httpAllowedHosts: [],
+    httpHost: "127.0.0.1",
+    httpPort: 8787,
+    httpSessionIdleMs: 0,
+    maxConcurrency: 8,
+    maxRetries: 0,
+    maskColumns: [],
+    maskDetectors: [],
+    maxResultBytes: 0,
+    maxResultRows: 0,
+    policies: {},
+    readOnly: false,
+    requestTimeoutMs: 30_000,
+    retryBaseDelayMs: 1,
+    schemaCacheTtlMs: 0,
+    transport: "stdio",
+    ...overrides,
+  };
+}
+
+async function connect(runtime: AthenaRuntime, options?: ConstructorParameters<typeof Client>[1]) {
+  const server = createMcpServer(runtime);
+  const client = new Client({ name: "test", version: "1.0.0" }, options);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { client, server };
+}
+
+describe("createMcpServer config reload", () => {
+  it("re-registers tools and sends one tools/list_changed when the tool set changes", async () => {
+    const runtime = new AthenaRuntime(serverConfig());
+    const { client, server } = await connect(runtime);
+    const listChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+
+    const before = await client.listTools();
+    expect(before.tools.some((tool) => tool.name === "list_api_keys")).toBe(false);
+    expect(before.tools.find((tool) => tool.name === "list_tables")?.inputSchema.properties).not.toHaveProperty("client");
+
+    runtime.applyConfig(
+      serverConfig({ adminExperimentalEnabled: true, availableClients: ["primary", "analytics"] }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const after = await client.listTools();
+    expect(after.tools.length).toBeGreaterThan(before.tools.length);
+    expect(after.tools.find((tool) => tool.name === "list_tables")?.inputSchema.properties).toHaveProperty("client");
+    expect(listChanged).toHaveBeenCalledTimes(1);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("does not notify when only non-tool settings change", async () => {
+    const runtime = new AthenaRuntime(serverConfig());
+    const { client, server } = await connect(runtime);
+    const listChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+
+    runtime.applyConfig(serverConfig({ apiKey: "rotated-key" }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(listChanged).not.toHaveBeenCalled();
+    await client.close();
+    await server.close();
+  });
+
+  it("updates tool annotations and notifies when a reload toggles read_only", async () => {
+    const runtime = new AthenaRuntime(serverConfig());
+    const { client, server } = await connect(runtime);
+    const listChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+    const dropTable = async () => (await client.listTools()).tools.find((tool) => tool.name === "drop_table")?.annotations;
+    expect(await dropTable()).toMatchObject({ destructiveHint: true, readOnlyHint: false });
+
+    runtime.applyConfig(serverConfig({ readOnly: true }));
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(1));
+    expect(await dropTable()).toMatchObject({ destructiveHint: false, readOnlyHint: true });
+
+    runtime.applyConfig(serverConfig({ readOnly: false }));
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(2));
+    expect(await dropTable()).toMatchObject({ destructiveHint: true, readOnlyHint: false });
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("destructive tool confirmation", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch() {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ dropped: true }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  function resultJson(result: Awaited<ReturnType<Client["callTool"]>>) {
+    return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+  }
+
+  it("returns a plan and token first, and runs only with a token bound to the same arguments", async () => {
+    const fetchMock = stubFetch();
+    const runtime = new AthenaRuntime(serverConfig({ confirmTools: ["drop_index"] }));
+    const { client, server } = await connect(runtime);
+
+    const tools = await client.listTools();
+    expect(tools.tools.find((tool) => tool.name === "drop_index")?.inputSchema.properties).toHaveProperty("confirm_token");
+    expect(tools.tools.find((tool) => tool.name === "drop_table")?.inputSchema.properties).not.toHaveProperty("confirm_token");
+
+    const plan = resultJson(await client.callTool({ name: "drop_index", arguments: { index_name: "idx_a" } }));
+    expect(plan).toMatchObject({ confirmation_required: true, tool: "drop_index", arguments: { index_name: "idx_a" } });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const mismatched = await client.callTool({
+      name: "drop_index",
+      arguments: { confirm_token: plan.confirm_token, index_name: "idx_b" },
+    });
+    expect(mismatched.isError).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const replan = resultJson(await client.callTool({ name: "drop_index", arguments: { index_name: "idx_a" } }));
+    const executed = await client.callTool({
+      name: "drop_index",
+      arguments: { confirm_token: replan.confirm_token, index_name: "idx_a" },
+    });
+    expect(executed.isError).toBeFalsy();
+    expect(resultJson(executed)).toEqual({ dropped: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const reused = await client.callTool({
+      name: "drop_index",
+      arguments: { confirm_token: replan.confirm_token, index_name: "idx_a" },
+    });
+    expect(reused.isError).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("asks the human through elicitation when the host supports it", async () => {
+    const fetchMock = stubFetch();
+    const runtime = new AthenaRuntime(serverConfig({ confirmTools: ["drop_index"] }));
+    const { client, server } = await connect(runtime, { capabilities: { elicitation: {} } });
+    const answers = [false, true];
+    const elicit = vi.fn(async () => ({ action: "accept" as const, content: { confirm: answers.shift() ?? false } }));
+    client.setRequestHandler(ElicitRequestSchema, elicit);
+
+    const declined = await client.callTool({ name: "drop_index", arguments: { index_name: "idx_a" } });
+    expect(declined.isError).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const approved = await client.callTool({ name: "drop_index", arguments: { index_name: "idx_a" } });
+    expect(resultJson(approved)).toEqual({ dropped: true });
+    expect(elicit).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("treats an elicitation capability without modes as form support, but not one with only url", async () => {
+    const fetchMock = stubFetch();
+    const runtime = new AthenaRuntime(serverConfig({ confirmTools: ["drop_index"] }));
+    const modeless = await connect(runtime, { capabilities: { elicitation: { applyDefaults: true } } });
+    const elicit = vi.fn(async () => ({ action: "accept" as const, content: { confirm: true } }));
+    modeless.client.setRequestHandler(ElicitRequestSchema, elicit);
+
+    const approved = await modeless.client.callTool({ name: "drop_index", arguments: { index_name: "idx_a" } });
+    expect(resultJson(approved)).toEqual({ dropped: true });
+    expect(elicit).toHaveBeenCalledTimes(1);
+    await modeless.client.close();
+    await modeless.server.close();
+
+    const urlOnly = await connect(runtime, { capabilities: { elicitation: { url: {} } } });
+    const planned = await urlOnly.client.callTool({ name: "drop_index", arguments: { index_name: "idx_a" } });
+    expect(resultJson(planned)).toHaveProperty("confirm_token");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await urlOnly.client.close();
+    await urlOnly.server.close();
+  });
+});
+
+describe("access policies", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("denies tools and tables by rule, clamps limits and hides denied columns", async () => {
+    const fetchMock = vi.fn(
+      async (_url: string, _init?: RequestInit) =>
+        new Response(JSON.stringify([{ id: 1, ssn: "000-00-0000" }]), { status: 200 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(
+      serverConfig({
+        policies: {
+          "*": {
+            maxRows: 25,
+            read: { columns: { deny: ["users.ssn"] }, tables: { deny: ["audit.*"] } },
+            tools: { deny: ["drop_*"] },
+          },
+        },
+      }),
+    );
+    const { client, server } = await connect(runtime);
+
+    const droppedTool = await client.callTool({ name: "drop_index", arguments: { index_name: "idx_a" } });
+    expect(droppedTool.isError).toBe(true);
+    expect((droppedTool.content as Array<{ text: string }>)[0].text).toContain('policies.*.tools.deny "drop_*"');
+
+    const deniedTable = await client.callTool({
+      name: "get_row_by_eq_column_of_table",
+      arguments: { column: "id", table: "audit.events", value: 1 },
+    });
+    expect(deniedTable.isError).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const rows = await client.callTool({
+      name: "get_row_by_eq_column_of_table",
+      arguments: { column: "id", limit: 1000, table: "users", value: 1 },
+    });
+    expect(JSON.parse((rows.content as Array<{ text: string }>)[0].text)).toEqual([{ id: 1 }]);
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body))).toMatchObject({ limit: 25 });
+
+    await client.close();
+    await server.close();
+  });
+
+  it("leaves hidden schemas, tables and columns out of search_columns", async () => {
+    const rows = [
+      { column_name: "id", table_name: "users", table_schema: "public" },
+      { column_name: "ssn", table_name: "users", table_schema: "public" },
+      { column_name: "id", table_name: "events", table_schema: "audit" },
+      { column_name: "id", table_name: "secrets", table_schema: "public" },
+    ];
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ rows }), { status: 200 })));
+    const runtime = new AthenaRuntime(
+      serverConfig({
+        policies: { "*": { read: { columns: { deny: ["users.ssn"] }, schemas: { deny: ["audit"] }, tables: { deny: ["secrets"] } } } },
+      }),
+    );
+    const { client, server } = await connect(runtime);
+
+    const result = await client.callTool({ name: "search_columns", arguments: { pattern: "%" } });
+    expect(JSON.parse((result.content as Array<{ text: string }>)[0].text)).toEqual({ rows: [{ column_name: "id", table_name: "users", table_schema: "public" }] });
+
+    await client.close();
+    await server.close();
+  });
+
+  it("refuses raw SQL on tables with column rules, so aliases and row values cannot expose them", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify([{ id: 1 }]), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(
+      serverConfig({
+        policies: { "*": { read: { columns: { deny: ["users.ssn"] } }, write: { columns: { deny: ["accounts.balance"] } } } },
+      }),
+    );
+    const { client, server } = await connect(runtime);
+
+    for (const query of [
+      "SELECT ssn AS x FROM users",
+      "SELECT row_to_json(u) FROM users u",
+      "UPDATE accounts SET balance = balance + 100 WHERE id = 1",
+    ]) {
+      const result = await client.callTool({ name: "execute_sql", arguments: { query } });
+      expect(result.isError, query).toBe(true);
+      expect((result.content as Array<{ text: string }>)[0].text).toMatch(/Policy denies raw SQL on column-restricted table public\.(users|accounts)/);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const orders = await client.callTool({ name: "execute_sql", arguments: { query: "SELECT id FROM orders" } });
+    expect(orders.isError).toBeFalsy();
+
+    await client.close();
+    await server.close();
+  });
+
+  it("finds denied tables listed after subqueries and function calls, and refuses FROM lists it cannot read", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify([{ id: 1 }]), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(serverConfig({ policies: { "*": { read: { tables: { deny: ["secrets"] } } } } }));
+    const { client, server } = await connect(runtime);
+
+    for (const query of [
+      "SELECT * FROM (SELECT 1) x, secrets",
+      "SELECT * FROM generate_series(1,2) g, secrets",
+      "SELECT * FROM orders o(a), secrets",
+    ]) {
+      const result = await client.callTool({ name: "execute_sql", arguments: { query } });
+      expect(result.isError, query).toBe(true);
+      expect((result.content as Array<{ text: string }>)[0].text).toMatch(/read access to table public\.secrets/);
+    }
+    const sampled = await client.callTool({
+      name: "execute_sql",
+      arguments: { query: "SELECT * FROM orders o TABLESAMPLE SYSTEM (10), secrets" },
+    });
+    expect((sampled.content as Array<{ text: string }>)[0].text).toMatch(/FROM item the server cannot check/);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("structured output", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("advertises output schemas and returns structuredContent with the JSON text fallback", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify({ tables: [{ table_schema: "public" }, { table_schema: "pg_catalog" }] }), {
+            status: 200,
+          }),
+      ),
+    );
+    const { client, server } = await connect(new AthenaRuntime(serverConfig()));
+
+    const { tools } = await client.listTools();
+    const listSchemas = tools.find((tool) => tool.name === "list_schemas");
+    expect(listSchemas?.outputSchema?.properties).toHaveProperty("schemas");
+    expect(tools.find((tool) => tool.name === "execute_sql")?.outputSchema).toBeUndefined();
+
+    const schemas = await client.callTool({ name: "list_schemas", arguments: {} });
+    expect(schemas.structuredContent).toEqual({ schemas: [{ schema_name: "public" }] });
+    expect(JSON.parse((schemas.content as Array<{ text: string }>)[0].text)).toEqual(schemas.structuredContent);
+
+    const health = await client.callTool({ name: "get_client_health", arguments: {} });
+    expect(health.isError).toBeFalsy();
+    expect(health.structuredContent).toMatchObject({ primary: { circuit: { state: "closed" } } });
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("tool annotations", () => {
+  it("annotates every registered tool", async () => {
+    const { client, server } = await connect(new AthenaRuntime(serverConfig({ adminExperimentalEnabled: true })));
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(150);
+    const missing = tools
+      .filter(({ annotations }) =>
+        ["destructiveHint", "idempotentHint", "readOnlyHint"].some(
+          (hint) => typeof annotations?.[hint as keyof typeof annotations] !== "boolean",
+        ),
+      )
+      .map((tool) => tool.name);
+    expect(missing).toEqual([]);
+    expect(tools.find((tool) => tool.name === "list_tables")?.annotations).toMatchObject({ readOnlyHint: true });
+    expect(tools.find((tool) => tool.name === "drop_table")?.annotations).toMatchObject({
+      destructiveHint: true,
+      readOnlyHint: false,
+    });
+
+    await client.close();
+    await server.close();
+  });
+
+  it("marks mutating tools read-only and rejects them when every client is read-only", async () => {
+    const { client, server } = await connect(new AthenaRuntime(serverConfig({ readOnly: true })));
+    const { tools } = await client.listTools();
+    expect(tools.find((tool) => tool.name === "drop_table")?.annotations).toMatchObject({
+      destructiveHint: false,
+      readOnlyHint: true,
+    });
+    // SQL tools still run reads, so they keep their hints.
+    expect(tools.find((tool) => tool.name === "execute_sql")?.annotations).toMatchObject({ readOnlyHint: false });
+
+    const rejected = await client.callTool({ name: "storage_bucket_delete", arguments: { input: { bucket: "media" } } });
+    expect(rejected.isError).toBe(true);
+    expect((rejected.content as Array<{ text: string }>)[0].text).toContain("read-only mode");
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("schema resources", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists and reads table definitions under the read policy, and notifies after DDL", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const { pathname } = new URL(url);
+      const body =
+        pathname === "/schema/tables"
+          ? {
+              tables: [
+                { table_name: "users", table_schema: "public" },
+                { table_name: "events", table_schema: "audit" },
+                { table_name: "pg_class", table_schema: "pg_catalog" },
+              ],
+            }
+          : pathname === "/schema/columns"
+            ? {
+                columns: [
+                  { column_name: "id", data_type: "uuid", is_nullable: "NO" },
+                  { column_name: "ssn", data_type: "text", is_nullable: "YES" },
+                ],
+              }
+            : pathname === "/schema/constraints"
+              ? { constraints: [{ columns: ["id"], constraint_name: "users_pkey" }, { columns: ["ssn"], constraint_name: "users_ssn_key" }] }
+              : {};
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(
+      serverConfig({
+        policies: { "*": { read: { columns: { deny: ["users.ssn"] }, tables: { deny: ["audit.*"] } } } },
+      }),
+    );
+    const { client, server } = await connect(runtime);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      "athena://primary/schema",
+      "athena://primary/schema/public/users",
+    ]);
+
+    const table = await client.readResource({ uri: "athena://primary/schema/public/users" });
+    expect(JSON.parse(String(table.contents[0].text))).toEqual({
+      client: "primary",
+      columns: [{ default: null, name: "id", nullable: false, type: "uuid" }],
+      constraints: [{ columns: ["id"], constraint_name: "users_pkey" }],
+      schema: "public",
+      table: "users",
+    });
+    await expect(client.readResource({ uri: "athena://primary/schema/audit/events" })).rejects.toThrow(
+      /Policy denies/,
+    );
+    await expect(client.readResource({ uri: "athena://other/schema/public/users" })).rejects.toThrow(/not allowed/);
+
+    const listChanged = vi.fn();
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, listChanged);
+    await client.callTool({ name: "create_table", arguments: { table_name: "orders" } });
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(1));
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("prompts", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("pre-loads table metadata under the tool policy and completes argument names", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const { pathname } = new URL(url);
+      const body =
+        pathname === "/schema/tables"
+          ? { tables: [{ table_name: "users", table_schema: "public" }, { table_name: "user_events", table_schema: "audit" }] }
+          : pathname === "/schema/columns"
+            ? { columns: [{ column_name: "id", data_type: "uuid", is_nullable: "NO" }] }
+            : { rows: [{ index_def: "CREATE UNIQUE INDEX users_pkey ON public.users USING btree (id)", index_name: "users_pkey" }] };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(
+      serverConfig({ availableClients: ["primary", "analytics"], policies: { "*": { tools: { deny: ["list_indexes"] } } } }),
+    );
+    const { client, server } = await connect(runtime);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "explore_schema",
+      "safe_migration",
+      "diagnose_slow_query",
+      "audit_bucket_permissions",
+      "summarize_chat_room",
+    ]);
+
+    const prompt = await client.getPrompt({
+      arguments: { change: "add a nickname column", table: "users" },
+      name: "safe_migration",
+    });
+    const text = String(prompt.messages[0].content.type === "text" ? prompt.messages[0].content.text : "");
+    expect(text).toContain("Write a migration for `public.users` on Athena client `primary`: add a nickname column");
+    expect(text).toContain('"name": "id"');
+    expect(text).toContain("_Not available (list_indexes): Policy denies tool list_indexes");
+
+    const tables = await client.complete({
+      argument: { name: "table", value: "us" },
+      ref: { name: "safe_migration", type: "ref/prompt" },
+    });
+    expect(tables.completion.values).toEqual(["audit.user_events", "users"]);
+    const clients = await client.complete({
+      argument: { name: "client", value: "a" },
+      ref: { name: "explore_schema", type: "ref/prompt" },
+    });
+    expect(clients.completion.values).toEqual(["analytics"]);
+    const free = await client.complete({
+      argument: { name: "change", value: "" },
+      ref: { name: "safe_migration", type: "ref/prompt" },
+    });
+    expect(free.completion.values).toEqual([]);
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("argument completion", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("completes tool and resource arguments from cached metadata until the schema changes", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const { pathname, searchParams } = new URL(url);
+      const body =
+        pathname === "/schema/tables"
+          ? { tables: [{ table_name: "users", table_schema: "public" }, { table_name: "orders", table_schema: "sales" }] }
+          : pathname === "/schema/columns" && searchParams.get("table_name") === "sales.orders"
+            ? { columns: [{ column_name: "id" }, { column_name: "internal_margin" }, { column_name: "items" }] }
+            : {};
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(
+      serverConfig({ policies: { "*": { read: { columns: { deny: ["sales.orders.internal_*"] } } } } }),
+    );
+    const { client, server } = await connect(runtime);
+    const complete = async (ref: unknown, name: string, value: string, context?: Record<string, string>) =>
+      (
+        await client.complete({
+          argument: { name, value },
+          ref: ref as never,
+          ...(context ? { context: { arguments: context } } : {}),
+        })
+      ).completion.values;
+    const tool = (name: string) => ({ name, type: "ref/tool" });
+
+    expect(await complete(tool("get_table_sample"), "table", "")).toEqual(["sales.orders", "users"]);
+    expect(await complete(tool("list_indexes"), "table", "o", { schema: "sales" })).toEqual(["orders"]);
+    expect(await complete(tool("list_indexes"), "schema", "s")).toEqual(["sales"]);
+    expect(await complete(tool("get_row_by_eq_column_of_table"), "column", "i", { table: "sales.orders" })).toEqual([
+      "id",
+      "items",
+    ]);
+    expect(await complete(tool("get_table_sample"), "limit", "")).toEqual([]);
+    expect(
+      await complete({ type: "ref/resource", uri: "athena://{client}/schema/{schema}/{table}" }, "table", "u", {
+        schema: "public",
+      }),
+    ).toEqual(["users"]);
+
+    const tableFetches = () => fetchMock.mock.calls.filter(([url]) => String(url).includes("/schema/tables")).length;
+    expect(tableFetches()).toBe(1);
+    runtime.schemaChanged("primary");
+    await complete(tool("get_table_sample"), "table", "");
+    expect(tableFetches()).toBe(2);
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("schema cache", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reuses schema metadata until a DDL tool succeeds or the cache is flushed", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const { pathname } = new URL(url);
+      const body =
+        pathname === "/schema/columns"
+          ? { columns: [{ column_name: "id", data_type: "uuid", is_nullable: "NO" }] }
+          : pathname === "/gateway/query"
+            ? { rows: [{ column_name: "id" }] }
+            : {};
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const runtime = new AthenaRuntime(serverConfig({ readOnly: true, schemaCacheTtlMs: 60_000 }));
+    const { client, server } = await connect(runtime);
+    const columnFetches = () => fetchMock.mock.calls.filter(([url]) => String(url).includes("/schema/columns")).length;
+    const describeUsers = () => client.callTool({ arguments: { table: "users" }, name: "get_columns_of_table" });
+    const cacheState = async (flush?: boolean) => {
+      const result = await client.callTool({ arguments: flush ? { flush } : {}, name: "schema_cache" });
+      return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+    };
+
+    await describeUsers();
+    await describeUsers();
+    expect(columnFetches()).toBe(1);
+    expect((await cacheState()).entries.map((entry: { key: string }) => entry.key)).toEqual([
+      "/schema/columns?table_name=users",
+      "primary_keys:public.users",
+    ]);
+
+    runtime.schemaChanged("primary");
+    await describeUsers();
+    expect(columnFetches()).toBe(2);
+
+    expect(await cacheState(true)).toMatchObject({ client: "primary", flushed: 2, ttl_ms: 60_000 });
+    expect((await cacheState()).entries).toEqual([]);
+
+    await client.close();
+    await server.close();
+  });
+});
@@ -0,0 +1,77 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerCompletions } from "./completions.js";
+import { logger } from "./logger.js";
+import { registerPrompts } from "./prompts.js";
+import type { AthenaRuntime } from "./runtime.js";
+import { registerSchemaResources } from "./schema-resources.js";
+import { removeRegisteredTools } from "./tooling.js";
+import { registerAdminTools } from "./tools/admin-tools.js";
+import { registerAuthTools } from "./tools/auth-tools.js";
+import { registerChatTools } from "./tools/chat-tools.js";
+import { registerDataTools } from "./tools/data-tools.js";
+import { registerGatewayTools } from "./tools/gateway-tools.js";
+import { registerSdkDbTools } from "./tools/sdk-db-tools.js";
+import { registerStorageTools } from "./tools/storage-tools.js";
+import { getVersion } from "./version.js";
+
+function registerAllTools(server: McpServer, runtime: AthenaRuntime): void {
+  registerDataTools(server, runtime);
+  registerStorageTools(server, runtime);
+  registerAdminTools(server, runtime);
+  registerAuthTools(server, runtime);
+  registerChatTools(server, runtime);
+  registerSdkDbTools(server, runtime);
+  registerGatewayTools(server, runtime);
+}
+
+/**
+ * Build a fully registered MCP server bound to the shared runtime.
+ *
+ * stdio mode creates exactly one; the Streamable HTTP transport creates one per
+ * session because an McpServer can only be connected to a single transport.
+ * When a config reload changes the tool set (admin tools, client selector) the
+ * tools are re-registered and connected hosts receive one `tools/list_changed`.
+ * Schema changes made through the tools, and changes to the client list, send
+ * `resources/list_changed` for the schema resources. Prompts and argument
+ * completion do not depend on the config and are registered once.
+ */
+export function createMcpServer(runtime: AthenaRuntime): McpServer {
+  const server = new McpServer(
+    {
+      name: "athena-mcp",
+      version: getVersion(),
+    },
+    {
+      // Re-registering every tool would otherwise send one notification per tool.
+      debouncedNotificationMethods: [
+        "notifications/tools/list_changed",
+        "notifications/resources/list_changed",
+      ],
+    },
+  );
+
+  registerAllTools(server, runtime);
+  registerSchemaResources(server, runtime);
+  registerPrompts(server, runtime);
+  registerCompletions(server, runtime);
+
+  const notifyResources = () => {
+    if (server.isConnected()) server.sendResourceListChanged();
+  };
+  const unsubscribeSchema = runtime.onSchemaChange(notifyResources);
+  const unsubscribeConfig = runtime.onConfigChange((change) => {
+    if (change.changedKeys.includes("availableClients")) notifyResources();
+    if (!change.toolsChanged) return;
+    removeRegisteredTools(server);
+    registerAllTools(server, runtime);
+    logger.info("Re-registered MCP tools after config reload", {
+      connected: server.isConnected(),
+    }).catch(() => {});
+  });
+  server.server.onclose = () => {
+    unsubscribeConfig();
+    unsubscribeSchema();
+  };
+
+  return server;
+}
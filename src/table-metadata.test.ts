@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from "vitest";
+import { ClientPolicy } from "./policy.js";
+import { listTableMetadata, selectTables } from "./table-metadata.js";
+
+const tables = [
+  { table_name: "orders", table_schema: "sales" },
+  { table_name: "order_items", table_schema: "sales" },
+  { table_name: "users", table_schema: "public" },
+  { table_name: "pg_class", table_schema: "pg_catalog" },
+  { table_name: "ledger", table_schema: "finance" },
+];
+
+function metadataRuntime(runQuery: (sql: string, client: string, params: unknown[]) => Promise<unknown>) {
+  const policy = ClientPolicy.forClient(
+    { "*": { read: { columns: { deny: ["sales.orders.internal_*"] }, tables: { deny: ["finance.*"] } } } },
+    "primary",
+  );
+  return {
+    fetchSchema: vi.fn(async (path: string) =>
+      path === "/schema/tables" ? { tables } : { columns: [{ column_name: "id", data_type: "integer", is_nullable: "NO" }] },
+    ),
+    getPolicy: () => policy,
+    runQuery: vi.fn(runQuery),
+    schemaMetadata: (_client: string, _key: string, load: () => Promise<unknown>) => load(),
+  } as never;
+}
+
+describe("selectTables", () => {
+  it("filters by schema and table globs and the read policy, sorted", () => {
+    const readable = (ref: { schema: string }) => ref.schema !== "finance";
+    expect(selectTables(tables, {}, readable)).toEqual([
+      { schema: "public", table: "users" },
+      { schema: "sales", table: "order_items" },
+      { schema: "sales", table: "orders" },
+    ]);
+    expect(selectTables(tables, { schema: "sal*", table: "order?" }, readable)).toEqual([
+      { schema: "sales", table: "orders" },
+    ]);
+    expect(selectTables(tables, { schema: "pg_catalog" }, readable)).toEqual([{ schema: "pg_catalog", table: "pg_class" }]);
+    expect(selectTables(tables, { table: "sales.*" }, readable)).toHaveLength(2);
+  });
+});
+
+describe("listTableMetadata", () => {
+  it("reads one page of tables in one query and groups columns, keys and comments", async () => {
+    const runtime = metadataRuntime(async () => ({
+      rows: [
+        {
+          column_comment: "Order number",
+          column_name: "id",
+          data_type: "integer",
+          is_nullable: "NO",
+          primary_key: true,
+          table_comment: "Customer orders",
+          table_name: "orders",
+          table_schema: "sales",
+        },
+        {
+          column_name: "user_id",
+          data_type: "uuid",
+          foreign_keys: '[{"constraint_name":"orders_user_fk","foreign_schema":"public","foreign_table":"users","foreign_column":"id"}]',
+          is_nullable: "YES",
+          primary_key: false,
+          table_name: "orders",
+          table_schema: "sales",
+        },
+        {
+          column_name: "internal_margin",
+          data_type: "numeric",
+          foreign_keys: [{ constraint_name: "orders_margin_fk", foreign_column: "id", foreign_schema: "public", foreign_table: "margins" }],
+          table_name: "orders",
+          table_schema: "sales",
+        },
+      ],
+    }));
+
+    const page = await listTableMetadata(runtime, "primary", { limit: 1, offset: 2 });
+    expect(page).toEqual([
+      {
+        columns: [
+          { comment: "Order number", default: null, name: "id", nullable: false, primary_key: true, type: "integer" },
+          { comment: null, default: null, name: "user_id", nullable: true, primary_key: false, type: "uuid" },
+        ],
+        comment: "Customer orders",
+        foreign_keys: [
+          {
+            columns: ["user_id"],
+            constraint_name: "orders_user_fk",
+            foreign_columns: ["id"],
+            foreign_schema: "public",
+            foreign_table: "users",
+          },
+        ],
+        schema: "sales",
+        table: "orders",
+      },
+    ]);
+    const { runQuery } = runtime as unknown as { runQuery: ReturnType<typeof vi.fn> };
+    expect(runQuery).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(runQuery.mock.calls[0][2][0])).toEqual([{ table_name: "orders", table_schema: "sales" }]);
+  });
+
+  it("falls back to /schema/columns per table when the gateway cannot run the query", async () => {
+    const runtime = metadataRuntime(async () =>
+      Promise.reject(new Error("HTTP 400: permission denied for table pg_constraint")),
+    );
+    const page = await listTableMetadata(runtime, "primary", { table: "users" });
+    expect(page).toEqual([
+      {
+        columns: [{ comment: null, default: null, name: "id", nullable: false, primary_key: false, type: "integer" }],
+        comment: null,
+        foreign_keys: [],
+        schema: "public",
+        table: "users",
+      },
+    ]);
+  });
+
+  it("rethrows errors other than an unsupported query", async () => {
+    for (const message of ["HTTP 401: invalid API key", "HTTP 400: syntax error at or near \"$1\"", "The operation was aborted due to timeout"]) {
+      const runtime = metadataRuntime(async () => Promise.reject(new Error(message)));
+      await expect(listTableMetadata(runtime, "primary", { table: "users" })).rejects.toThrow(message);
+      expect((runtime as unknown as { fetchSchema: ReturnType<typeof vi.fn> }).fetchSchema).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it("caches by the tables on the page, not by the filters that selected them", async () => {
+    const runtime = metadataRuntime(async () => ({ rows: [] })) as unknown as { schemaMetadata: unknown };
+    const keys: string[] = [];
+    runtime.schemaMetadata = (_client: string, key: string, load: () => Promise<unknown>) => {
+      keys.push(key);
+      return load();
+    };
+
+    await listTableMetadata(runtime as never, "primary", { table: "users" });
+    await listTableMetadata(runtime as never, "primary", { limit: 1, schema: "public" });
+    await listTableMetadata(runtime as never, "primary", { table: "orders" });
+
+    expect(keys[0]).toBe(keys[1]);
+    expect(keys[2]).not.toBe(keys[0]);
+  });
+});
@@ -0,0 +1,269 @@
+import { matchesPattern, type PolicyTableRef } from "./policy.js";
+import type { AthenaRuntime } from "./runtime.js";
+
+/**
+ * Metadata of many tables at once, for `list_all_table_metadata`.
+ *
+ * The table list comes from `/schema/tables` (through the schema cache) and is
+ * filtered by the schema and table globs and the client's read policy, then
+ * paged. One set-based query then reads the columns, primary keys, foreign
+ * keys and comments of every table on the page. The tables are passed as one
+ * JSON parameter, so the query is the same for any page. Gateways that cannot
+ * run it fall back to `/schema/columns` per table, without keys or comments.
+ */
+
+export interface TableMetadataColumn {
+  comment: string | null;
+  default: string | null;
+  name: string;
+  nullable: boolean;
+  primary_key: boolean;
+  type: string;
+}
+
+export interface TableMetadataForeignKey {
+  columns: string[];
+  constraint_name: string;
+  foreign_columns: string[];
+  foreign_schema: string;
+  foreign_table: string;
+}
+
+export interface TableMetadata {
+  columns: TableMetadataColumn[];
+  comment: string | null;
+  foreign_keys: TableMetadataForeignKey[];
+  schema: string;
+  table: string;
+}
+
+export interface TableMetadataOptions {
+  /** Tables per page (after filtering); all of them when unset. */
+  limit?: number;
+  offset?: number;
+  /** Schema glob (`*`, `?`); user schemas when unset. */
+  schema?: string;
+  /** Table glob, matched against `table` or `schema.table`. */
+  table?: string;
+}
+
+/** One row per column of the requested tables, in table and column order. */
+const TABLE_METADATA_SQL = `SELECT c.table_schema, c.table_name, c.column_name, c.data_type, c.column_default, c.is_nullable,
+  obj_description(pc.oid, 'pg_class') AS table_comment,
+  col_description(pc.oid, a.attnum) AS column_comment,
+  EXISTS (SELECT 1 FROM pg_catalog.pg_constraint p WHERE p.conrelid = pc.oid AND p.contype = 'p' AND a.attnum = ANY (p.conkey)) AS primary_key,
+  (SELECT json_agg(json_build_object('constraint_name', f.conname, 'foreign_schema', fn.nspname, 'foreign_table', fc.relname, 'foreign_column', fa.attname) ORDER BY f.conname)
+    FROM pg_catalog.pg_constraint f
+    JOIN pg_catalog.pg_class fc ON fc.oid = f.confrelid
+    JOIN pg_catalog.pg_namespace fn ON fn.oid = fc.relnamespace
+    JOIN pg_catalog.pg_attribute fa ON fa.attrelid = f.confrelid AND fa.attnum = f.confkey[array_position(f.conkey, a.attnum)]
+    WHERE f.conrelid = pc.oid AND f.contype = 'f' AND a.attnum = ANY (f.conkey)) AS foreign_keys
+FROM jsonb_to_recordset($1::jsonb) AS w(table_schema text, table_name text)
+JOIN information_schema.columns c ON c.table_schema = w.table_schema AND c.table_name = w.table_name
+JOIN pg_catalog.pg_namespace n ON n.nspname = c.table_schema
+JOIN pg_catalog.pg_class pc ON pc.relnamespace = n.oid AND pc.relname = c.table_name
+JOIN pg_catalog.pg_attribute a ON a.attrelid = pc.oid AND a.attname = c.column_name
+ORDER BY c.table_schema, c.table_name, c.ordinal_position`;
+
+interface ForeignKeyRef {
+  constraint_name?: string;
+  foreign_column?: string;
+  foreign_schema?: string;
+  foreign_table?: string;
+}
+
+interface TableMetadataRow {
+  column_comment?: string | null;
+  column_default?: string | null;
+  column_name?: string;
+  data_type?: string | null;
+  foreign_keys?: ForeignKeyRef[] | string | null;
+  is_nullable?: string | null;
+  primary_key?: boolean | string | null;
+  table_comment?: string | null;
+  table_name?: string;
+  table_schema?: string;
+}
+
+function rowsOf(result: unknown): unknown[] {
+  if (Array.isArray(result)) return result;
+  const record = (result ?? {}) as Record<string, unknown>;
+  const rows = record.rows ?? record.data ?? record.result;
+  return Array.isArray(rows) ? rows : [];
+}
+
+/** The foreign keys of a column row; some gateways return json columns as text. */
+function foreignKeysOf(row: TableMetadataRow): ForeignKeyRef[] {
+  let value: unknown = row.foreign_keys;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = [];
+    }
+  }
+  return Array.isArray(value) ? (value as ForeignKeyRef[]) : [];
+}
+
+function isSystemSchema(schema: string): boolean {
+  return schema.startsWith("pg_") || schema === "information_schema";
+}
+
+/** Tables of `tables` that pass the filters and the read policy, sorted by schema and name. */
+export function selectTables(
+  tables: Array<{ table_name?: string; table_schema?: string }>,
+  options: Pick<TableMetadataOptions, "schema" | "table">,
+  readable: (ref: PolicyTableRef) => boolean,
+): PolicyTableRef[] {
+  return tables
+    .map((table) => ({ schema: table.table_schema ?? "public", table: table.table_name ?? "" }))
+    .filter(
+      (ref) =>
+        ref.table &&
+        (options.schema ? matchesPattern(options.schema, ref.schema) : !isSystemSchema(ref.schema)) &&
+        (!options.table || matchesPattern(options.table, `${ref.schema}.${ref.table}`)) &&
+        readable(ref),
+    )
+    .sort((left, right) => `${left.schema}.${left.table}`.localeCompare(`${right.schema}.${right.table}`));
+}
+
+/**
+ * Group the column rows of TABLE_METADATA_SQL into one entry per table of
+ * `tables` (in that order), leaving out columns `visible` rejects and foreign
+ * keys over them or to tables the policy hides.
+ */
+export function groupTableMetadata(
+  tables: PolicyTableRef[],
+  rows: TableMetadataRow[],
+  visible: (ref: PolicyTableRef, column: string) => boolean,
+  readable: (ref: PolicyTableRef) => boolean,
+): TableMetadata[] {
+  const entries = new Map<string, TableMetadata>(
+    tables.map((ref) => [
+      `${ref.schema}.${ref.table}`,
+      { columns: [], comment: null, foreign_keys: [], schema: ref.schema, table: ref.table },
+    ]),
+  );
+  const hiddenKeys = new Set<string>();
+
+  for (const row of rows) {
+    const entry = entries.get(`${row.table_schema}.${row.table_name}`);
+    const name = row.column_name ?? "";
+    if (!entry || !name) continue;
+    entry.comment = row.table_comment ?? entry.comment;
+    const ref = { schema: entry.schema, table: entry.table };
+    const foreignKeys = foreignKeysOf(row);
+    if (!visible(ref, name)) {
+      for (const key of foreignKeys) hiddenKeys.add(`${entry.schema}.${entry.table}.${key.constraint_name}`);
+      continue;
+    }
+    entry.columns.push({
+      comment: row.column_comment ?? null,
+      default: row.column_default ?? null,
+      name,
+      nullable: (row.is_nullable ?? "YES").toUpperCase() === "YES",
+      primary_key: row.primary_key === true || row.primary_key === "t" || row.primary_key === "true",
+      type: row.data_type ?? "unknown",
+    });
+    for (const key of foreignKeys) {
+      const constraintName = key.constraint_name ?? "";
+      let foreignKey = entry.foreign_keys.find((candidate) => candidate.constraint_name === constraintName);
+      if (!foreignKey) {
+        foreignKey = {
+          columns: [],
+          constraint_name: constraintName,
+          foreign_columns: [],
+          foreign_schema: key.foreign_schema ?? "",
+          foreign_table: key.foreign_table ?? "",
+        };
+        entry.foreign_keys.push(foreignKey);
+      }
+      foreignKey.columns.push(name);
+      foreignKey.foreign_columns.push(key.foreign_column ?? "");
+    }
+  }
+
+  for (const entry of entries.values()) {
+    // A key over a hidden column, or to a hidden table, would reveal its name.
+    entry.foreign_keys = entry.foreign_keys.filter(
+      (key) =>
+        !hiddenKeys.has(`${entry.schema}.${entry.table}.${key.constraint_name}`) &&
+        readable({ schema: key.foreign_schema, table: key.foreign_table }),
+    );
+  }
+  return [...entries.values()];
+}
+
+/**
+ * True when the gateway or PostgreSQL refused TABLE_METADATA_SQL itself: the
+ * gateway has no query endpoint, or the catalog functions and tables it reads
+ * are missing or not granted. Auth, policy, timeout and circuit errors are not.
+ */
+function metadataQueryUnsupported(error: unknown): boolean {
+  const message = String((error as Error)?.message ?? error);
+  if (/^HTTP (404|405|501)\b/.test(message)) return true;
+  return (
+    /^HTTP [45]\d\d/.test(message) &&
+    /permission denied|does not exist/i.test(message) &&
+    /pg_catalog|pg_constraint|pg_class|pg_namespace|pg_attribute|jsonb_to_recordset|obj_description|col_description/i.test(message)
+  );
+}
+
+/** `/schema/columns` per table, for gateways that cannot run TABLE_METADATA_SQL. */
+async function columnRowsPerTable(
+  runtime: AthenaRuntime,
+  clientName: string,
+  tables: PolicyTableRef[],
+): Promise<TableMetadataRow[]> {
+  const rows: TableMetadataRow[] = [];
+  for (const ref of tables) {
+    const qualified = ref.schema === "public" ? ref.table : `${ref.schema}.${ref.table}`;
+    try {
+      const data = (await runtime.fetchSchema(
+        `/schema/columns?table_name=${encodeURIComponent(qualified)}`,
+        clientName,
+      )) as { columns?: TableMetadataRow[] };
+      for (const column of Array.isArray(data.columns) ? data.columns : []) {
+        rows.push({ ...column, table_name: ref.table, table_schema: ref.schema });
+      }
+    } catch {
+      // The table is still listed, without columns, as before.
+    }
+  }
+  return rows;
+}
+
+export async function listTableMetadata(
+  runtime: AthenaRuntime,
+  clientName: string,
+  options: TableMetadataOptions = {},
+): Promise<TableMetadata[]> {
+  const policy = runtime.getPolicy(clientName);
+  const readable = (ref: PolicyTableRef) => !policy.checkTable("read", ref);
+  const visible = (ref: PolicyTableRef, column: string) => !policy.checkColumn("read", ref, column);
+
+  const data = (await runtime.fetchSchema("/schema/tables", clientName)) as {
+    tables?: Array<{ table_name?: string; table_schema?: string }>;
+  };
+  const selected = selectTables(Array.isArray(data.tables) ? data.tables : [], options, readable);
+  const offset = options.offset ?? 0;
+  const page = selected.slice(offset, options.limit === undefined ? undefined : offset + options.limit);
+  if (page.length === 0) return [];
+
+  // Keyed by the tables on the page, so filters that select the same tables share an entry.
+  const key = `table_metadata:${JSON.stringify(page.map((ref) => [ref.schema, ref.table]))}`;
+  let rows: TableMetadataRow[];
+  try {
+    rows = await runtime.schemaMetadata(clientName, key, async () =>
+      rowsOf(
+        await runtime.runQuery(TABLE_METADATA_SQL, clientName, [
+          JSON.stringify(page.map((ref) => ({ table_name: ref.table, table_schema: ref.schema }))),
+        ]),
+      ) as TableMetadataRow[],
+    );
+  } catch (err) {
+    if (!metadataQueryUnsupported(err)) throw err;
+    rows = await columnRowsPerTable(runtime, clientName, page);
+  }
+  return groupTableMetadata(page, rows, visible, readable);
+}
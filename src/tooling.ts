@@ -1,9 +1,17 @@
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { z } from "zod";
-import type { AthenaRuntime, ToolContext } from "./runtime.js";
+import { readOnlyToolError, type AthenaRuntime, type ToolContext } from "./runtime.js";
 import { logger } from "./logger.js";
 import { errorContent } from "./responses.js";
+import { runWithRequestContext, type RequestContext } from "./request-context.js";
+import { confirmToolCall } from "./confirmation.js";
 
 type MutableRawShape<TShape extends z.ZodRawShape> = {
   -readonly [K in keyof TShape]: TShape[K];
@@ -11,9 +19,42 @@ type MutableRawShape<TShape extends z.ZodRawShape> = {
 
 type ToolInput<TShape extends z.ZodRawShape> = z.output<z.ZodObject<TShape>>;
 
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Behaviour hints for hosts (MCP tool annotations). Every tool picks one;
+ * `readOnlyHint: false` also means the call is rejected in read-only mode
+ * unless the definition sets `runsInReadOnly`.
+ */
+export const toolHints = {
+  /** Reads only. */
+  read: { destructiveHint: false, idempotentHint: true, readOnlyHint: true },
+  /** Adds something; calling again adds it again. */
+  create: { destructiveHint: false, idempotentHint: false, readOnlyHint: false },
+  /** Sets state in place; calling again with the same input changes nothing more. */
+  update: { destructiveHint: false, idempotentHint: true, readOnlyHint: false },
+  /** Deletes or discards data. */
+  delete: { destructiveHint: true, idempotentHint: true, readOnlyHint: false },
+  /** Runs caller-supplied SQL or functions, which may do anything. */
+  query: { destructiveHint: true, idempotentHint: false, readOnlyHint: false },
+} satisfies Record<string, ToolAnnotations>;
+
 interface ToolDefinitionBase {
+  /** One of the `toolHints` presets. */
+  annotations: ToolAnnotations;
   description: string;
   name: string;
+  /**
+   * Shape of the tool's JSON result. Advertised as the tool's `outputSchema`;
+   * the JSON object the handler returns as text is also sent as
+   * `structuredContent`, which the SDK validates against this schema.
+   */
+  outputSchema?: z.ZodObject;
+  /**
+   * Keep a mutating tool callable in read-only mode, because the handler
+   * decides per call (e.g. SQL tools that still run reads).
+   */
+  runsInReadOnly?: boolean;
 }
 
 interface ToolDefinitionWithoutShape extends ToolDefinitionBase {
@@ -30,6 +71,46 @@ interface ToolDefinitionWithShape<TShape extends z.ZodRawShape>
   shape: TShape;
 }
 
+const confirmTokenSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Token from a previous call's confirmation plan. Required to execute this destructive tool unless the host confirms through elicitation.",
+  );
+
+/** Tools registered through registerTool, per server, so a config reload can replace them. */
+const registeredTools = new WeakMap<McpServer, RegisteredTool[]>();
+
+function trackRegisteredTool(server: McpServer, tool: RegisteredTool | undefined): void {
+  if (!tool) return;
+  const tools = registeredTools.get(server) ?? [];
+  tools.push(tool);
+  registeredTools.set(server, tools);
+}
+
+/** Remove every tool registered on `server` through registerTool. */
+export function removeRegisteredTools(server: McpServer): void {
+  for (const tool of registeredTools.get(server) ?? []) {
+    tool.remove();
+  }
+  registeredTools.delete(server);
+}
+
+/** Whether the tool changes data and is rejected in read-only mode. */
+function isMutating(definition: ToolDefinitionBase): boolean {
+  return definition.annotations.readOnlyHint === false && !definition.runsInReadOnly;
+}
+
+/**
+ * Annotations to advertise. When every client is read-only, mutating tools
+ * cannot change anything (the wrapper rejects them), so they are marked
+ * read-only and non-destructive.
+ */
+function advertisedAnnotations(runtime: AthenaRuntime, definition: ToolDefinitionBase): ToolAnnotations {
+  if (!isMutating(definition) || !runtime.isReadOnlyEverywhere()) return definition.annotations;
+  return { ...definition.annotations, destructiveHint: false, idempotentHint: true, readOnlyHint: true };
+}
+
 function hasShape<TShape extends z.ZodRawShape>(
   definition: ToolDefinitionWithoutShape | ToolDefinitionWithShape<TShape>,
 ): definition is ToolDefinitionWithShape<TShape> {
@@ -37,30 +118,50 @@ function hasShape<TShape extends z.ZodRawShape>(
 }
 
 /** Wraps a tool handler so that:
+ *  - the HTTP caller (if any) is re-authenticated and checked against its tool/client allowlist
+ *  - mutating tools are rejected in read-only mode (see ToolDefinitionBase.runsInReadOnly)
+ *  - gated destructive tools only run once confirmed (token round trip or elicitation)
  *  - every call is timed + logged (input + success/failure + duration)
+ *  - tools with an output schema also return their JSON result as structuredContent
  *  - errors are caught, richly logged (incl stack), and turned into errorContent
  *  - never lets exceptions escape to the MCP layer (prevents abrupt stops)
  */
 function wrapHandler(
-  toolName: string,
+  server: McpServer,
+  definition: ToolDefinitionBase,
   runtime: AthenaRuntime,
   realHandler: (ctx: ToolContext, input?: unknown) => Promise<CallToolResult>,
-): (rawInput?: unknown) => Promise<CallToolResult> {
-  return async (rawInput?: unknown) => {
+): (rawInput?: unknown, extra?: ToolExtra) => Promise<CallToolResult> {
+  const toolName = definition.name;
+  const gated = runtime.requiresConfirmation(toolName);
+  return async (rawInput?: unknown, extra?: ToolExtra) => {
     const start = Date.now();
     let clientName = "unknown";
+    let callerName: string | undefined;
     let success = false;
     let result: CallToolResult | undefined;
     let errorMsg: string | undefined;
+    const requestContext: RequestContext = { signal: extra?.signal, tool: toolName };
 
     try {
+      const caller = runtime.resolveCaller(extra?.authInfo);
+      callerName = caller?.name;
+      runtime.assertToolAllowed(toolName, caller);
+
       // Resolve client early (may throw, which is a config error we want to capture)
       const override = (rawInput as any)?.client;
       clientName = runtime.resolveClientName(
         typeof override === "string" ? override : undefined,
+        caller,
       );
 
-      const ctx: ToolContext = { clientName, runtime };
+      const ctx: ToolContext = {
+        caller,
+        clientName,
+        readOnly: runtime.isReadOnly(caller, clientName),
+        runtime,
+        signal: extra?.signal,
+      };
       // call without the client field for handler
       const inputForHandler = rawInput && typeof rawInput === "object"
         ? { ...(rawInput as Record<string, unknown>) }
@@ -68,8 +169,37 @@ function wrapHandler(
       if (inputForHandler && typeof inputForHandler === "object" && "client" in (inputForHandler as any)) {
         delete (inputForHandler as any).client;
       }
+      const handlerArgs = inputForHandler && typeof inputForHandler === "object"
+        ? (inputForHandler as Record<string, unknown>)
+        : undefined;
+      const confirmToken = handlerArgs?.confirm_token;
+      if (handlerArgs) delete handlerArgs.confirm_token;
+
+      runtime.assertToolPolicy(toolName, clientName);
+      if (typeof handlerArgs?.limit === "number") {
+        handlerArgs.limit = runtime.clampLimit(clientName, handlerArgs.limit);
+      }
 
-      result = await realHandler(ctx, inputForHandler);
+      if (ctx.readOnly && isMutating(definition)) {
+        result = readOnlyToolError(toolName);
+      } else {
+        // Read-only calls are rejected by the handler itself, so they never get a token.
+        const pending = gated && !ctx.readOnly
+          ? await confirmToolCall({
+              ctx,
+              description: definition.description,
+              extra,
+              input: handlerArgs ?? {},
+              server,
+              token: typeof confirmToken === "string" ? confirmToken : undefined,
+              toolName,
+            })
+          : undefined;
+
+        result = pending ?? await runWithRequestContext(requestContext, () =>
+          realHandler(ctx, inputForHandler),
+        );
+      }
 
       success = !(result as any)?.isError;
     } catch (err: any) {
@@ -81,6 +211,7 @@ function wrapHandler(
       logger.error(`Tool execution failed: ${toolName}`, {
         tool: toolName,
         client: clientName,
+        caller: callerName,
         error: errorMsg,
         stack: stack?.split("\n").slice(0, 8).join("\n"),
         inputPreview: rawInput ? JSON.stringify(redactForLog(rawInput)).slice(0, 800) : undefined,
@@ -90,6 +221,12 @@ function wrapHandler(
         `Error in ${toolName}: ${errorMsg}${stack ? "\n" + stack.split("\n")[0] : ""}`,
       );
     } finally {
+      if (result && definition.outputSchema) {
+        result = withStructuredContent(result);
+      }
+      if (result && requestContext.mirror) {
+        result = withMirrorNote(result, requestContext.mirror, runtime, clientName);
+      }
       const durationMs = Date.now() - start;
       const outputPreview = success && result
         ? (typeof (result as any).content?.[0]?.text === "string"
@@ -101,11 +238,13 @@ function wrapHandler(
       logger.logToolCall({
         tool: toolName,
         client: clientName,
+        caller: callerName,
         durationMs,
         success,
         input: rawInput,
         outputPreview: typeof outputPreview === "string" ? outputPreview : undefined,
         error: errorMsg,
+        mirror: requestContext.mirror,
       }).catch(() => {
         // never let logging kill the response
       });
@@ -115,6 +254,46 @@ function wrapHandler(
   };
 }
 
+/**
+ * Copy the JSON object in a successful result's text into `structuredContent`,
+ * leaving the text as the fallback for hosts without structured output.
+ */
+function withStructuredContent(result: CallToolResult): CallToolResult {
+  const first = result.content[0];
+  if (result.isError || result.structuredContent || first?.type !== "text") return result;
+  try {
+    const data: unknown = JSON.parse(first.text);
+    if (data && typeof data === "object" && !Array.isArray(data)) {
+      return { ...result, structuredContent: data as Record<string, unknown> };
+    }
+  } catch {
+    // Not JSON: text only.
+  }
+  return result;
+}
+
+/**
+ * Tag a result with the Athena mirror that served it (`_meta["athena/mirror"]`),
+ * and say so in the text as well when a failover mirror was used.
+ */
+function withMirrorNote(
+  result: CallToolResult,
+  mirror: string,
+  runtime: AthenaRuntime,
+  clientName: string,
+): CallToolResult {
+  const tagged: CallToolResult = { ...result, _meta: { ...result._meta, "athena/mirror": mirror } };
+  const primary = runtime.getClientConnection(clientName).baseUrls[0];
+  if (mirror === primary) return tagged;
+  return {
+    ...tagged,
+    content: [
+      ...tagged.content,
+      { type: "text", text: `Served by failover mirror ${mirror} (primary ${primary} is unavailable).` },
+    ],
+  };
+}
+
 function redactForLog(v: unknown): unknown {
   if (!v || typeof v !== "object") return v;
   const copy: any = Array.isArray(v) ? [...v] : { ...v };
@@ -137,38 +316,44 @@ function registerToolWithoutShape(
   clientSelector?: z.ZodType<string | undefined>,
 ): void {
   const realHandler = async (ctx: ToolContext) => definition.handler(ctx);
+  const inputSchema: Record<string, z.ZodType<string | undefined>> = {
+    ...(clientSelector ? { client: clientSelector } : {}),
+    ...(runtime.requiresConfirmation(definition.name) ? { confirm_token: confirmTokenSchema } : {}),
+  };
 
-  if (clientSelector) {
-    const wrapped = wrapHandler(definition.name, runtime, async (ctx, input) => {
-      // client already resolved inside wrapHandler
-      return realHandler(ctx!);
-    });
+  if (Object.keys(inputSchema).length > 0) {
+    // client is resolved (and confirm_token checked) inside wrapHandler
+    const wrapped = wrapHandler(server, definition, runtime, async (ctx) => realHandler(ctx!));
 
-    const callback = (async (input: { client?: unknown }) => {
-      return wrapped(input);
-    }) as unknown as ToolCallback<{ client: z.ZodType<string | undefined> }>;
+    const callback = (async (input: { client?: unknown }, extra: ToolExtra) => {
+      return wrapped(input, extra);
+    }) as unknown as ToolCallback<typeof inputSchema>;
 
-    server.registerTool(
+    trackRegisteredTool(server, server.registerTool(
       definition.name,
       {
+        annotations: advertisedAnnotations(runtime, definition),
         description: definition.description,
-        inputSchema: { client: clientSelector },
+        inputSchema,
+        outputSchema: definition.outputSchema,
       },
       callback,
-    );
+    ));
     return;
   }
 
-  const wrapped = wrapHandler(definition.name, runtime, async (ctx) => realHandler(ctx!));
-  const callback = (async () => wrapped(undefined)) as unknown as ToolCallback;
+  const wrapped = wrapHandler(server, definition, runtime, async (ctx) => realHandler(ctx!));
+  const callback = (async (extra: ToolExtra) => wrapped(undefined, extra)) as unknown as ToolCallback;
 
-  server.registerTool(
+  trackRegisteredTool(server, server.registerTool(
     definition.name,
     {
+      annotations: advertisedAnnotations(runtime, definition),
       description: definition.description,
+      outputSchema: definition.outputSchema,
     },
     callback,
-  );
+  ));
 }
 
 function registerToolWithShape<TShape extends z.ZodRawShape>(
@@ -179,46 +364,57 @@ function registerToolWithShape<TShape extends z.ZodRawShape>(
 ): void {
   const realHandler = async (ctx: ToolContext, input: unknown) =>
     definition.handler(ctx, input as ToolInput<TShape>);
+  const shape = (runtime.requiresConfirmation(definition.name)
+    ? { ...definition.shape, confirm_token: confirmTokenSchema }
+    : definition.shape) as MutableRawShape<TShape>;
 
   if (!clientSelector) {
-    const wrapped = wrapHandler(definition.name, runtime, realHandler);
-    const callback = (async (input: ToolInput<TShape>) => wrapped(input)) as unknown as ToolCallback<TShape>;
+    const wrapped = wrapHandler(server, definition, runtime, realHandler);
+    const callback = (async (input: ToolInput<TShape>, extra: ToolExtra) =>
+      wrapped(input, extra)) as unknown as ToolCallback<TShape>;
 
-    server.registerTool(
+    trackRegisteredTool(server, server.registerTool(
       definition.name,
       {
+        annotations: advertisedAnnotations(runtime, definition),
         description: definition.description,
-        inputSchema: definition.shape,
+        inputSchema: shape,
+        outputSchema: definition.outputSchema,
       },
       callback,
-    );
+    ));
     return;
   }
 
   const inputSchema: MutableRawShape<TShape> & {
     client: z.ZodType<string | undefined>;
   } = {
-    ...(definition.shape as MutableRawShape<TShape>),
+    ...shape,
     client: clientSelector,
   };
 
-  const wrapped = wrapHandler(definition.name, runtime, realHandler);
-  const callback = (async (input: ToolInput<TShape> & { client?: unknown }) => {
-    return wrapped(input);
+  const wrapped = wrapHandler(server, definition, runtime, realHandler);
+  const callback = (async (
+    input: ToolInput<TShape> & { client?: unknown },
+    extra: ToolExtra,
+  ) => {
+    return wrapped(input, extra);
   }) as unknown as ToolCallback<
     MutableRawShape<TShape> & {
       client: z.ZodType<string | undefined>;
     }
   >;
 
-  server.registerTool(
+  trackRegisteredTool(server, server.registerTool(
     definition.name,
     {
+      annotations: advertisedAnnotations(runtime, definition),
       description: definition.description,
       inputSchema,
+      outputSchema: definition.outputSchema,
     },
     callback,
-  );
+  ));
 }
 
 export function registerTool(
@@ -3,13 +3,15 @@ import { z } from "zod";
 import { jsonContent } from "../responses.js";
 import {
   apiKeyRightSchema,
+  clientStatisticsDetailOutputSchema,
+  clientStatisticsListOutputSchema,
   createApiKeySchema,
   saveAthenaClientSchema,
   updateApiKeySchema,
 } from "../schemas.js";
 import type { AthenaRuntime } from "../runtime.js";
 import { readOnlyToolError } from "../runtime.js";
-import { registerTool } from "../tooling.js";
+import { registerTool, toolHints } from "../tooling.js";
 
 export function registerAdminTools(
   server: McpServer,
@@ -22,15 +24,17 @@ export function registerAdminTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/admin/api-keys", clientName)),
     name: "list_api_keys",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description:
       "Create an Athena API key. Blocked when read_only mode is enabled.",
     name: "create_api_key",
+    annotations: toolHints.create,
     shape: createApiKeySchema.shape,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("create_api_key");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("create_api_key");
       return jsonContent(
         await runtime.apiFetch("/admin/api-keys", clientName, {
           body: input,
@@ -44,9 +48,10 @@ export function registerAdminTools(
     description:
       "Update an existing Athena API key. Blocked when read_only mode is enabled.",
     name: "update_api_key",
+    annotations: toolHints.update,
     shape: updateApiKeySchema.shape,
-    handler: async ({ clientName, runtime }, { id, ...body }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("update_api_key");
+    handler: async ({ clientName, readOnly, runtime }, { id, ...body }) => {
+      if (readOnly) return readOnlyToolError("update_api_key");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/api-keys/${encodeURIComponent(id)}`,
@@ -64,11 +69,12 @@ export function registerAdminTools(
     description:
       "Delete an Athena API key. Blocked when read_only mode is enabled.",
     name: "delete_api_key",
+    annotations: toolHints.delete,
     shape: {
       id: z.string().describe("API key UUID"),
     },
-    handler: async ({ clientName, runtime }, { id }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("delete_api_key");
+    handler: async ({ clientName, readOnly, runtime }, { id }) => {
+      if (readOnly) return readOnlyToolError("delete_api_key");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/api-keys/${encodeURIComponent(id)}`,
@@ -86,15 +92,17 @@ export function registerAdminTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/admin/api-key-rights", clientName)),
     name: "list_api_key_rights",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description:
       "Create an Athena API key right. Blocked when read_only mode is enabled.",
     name: "create_api_key_right",
+    annotations: toolHints.create,
     shape: apiKeyRightSchema.shape,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("create_api_key_right");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("create_api_key_right");
       return jsonContent(
         await runtime.apiFetch("/admin/api-key-rights", clientName, {
           body: input,
@@ -108,13 +116,14 @@ export function registerAdminTools(
     description:
       "Update an Athena API key right. Blocked when read_only mode is enabled.",
     name: "update_api_key_right",
+    annotations: toolHints.update,
     shape: {
       description: z.string().optional(),
       id: z.string().describe("API key right UUID"),
       name: z.string().optional(),
     },
-    handler: async ({ clientName, runtime }, { id, ...body }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("update_api_key_right");
+    handler: async ({ clientName, readOnly, runtime }, { id, ...body }) => {
+      if (readOnly) return readOnlyToolError("update_api_key_right");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/api-key-rights/${encodeURIComponent(id)}`,
@@ -132,11 +141,12 @@ export function registerAdminTools(
     description:
       "Delete an Athena API key right. Blocked when read_only mode is enabled.",
     name: "delete_api_key_right",
+    annotations: toolHints.delete,
     shape: {
       id: z.string().describe("API key right UUID"),
     },
-    handler: async ({ clientName, runtime }, { id }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("delete_api_key_right");
+    handler: async ({ clientName, readOnly, runtime }, { id }) => {
+      if (readOnly) return readOnlyToolError("delete_api_key_right");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/api-key-rights/${encodeURIComponent(id)}`,
@@ -154,22 +164,25 @@ export function registerAdminTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/admin/api-key-config", clientName)),
     name: "get_api_key_config",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description:
       "Update global Athena API key enforcement. Blocked when read_only mode is enabled.",
     name: "update_api_key_config",
+    annotations: toolHints.update,
     shape: {
       enforce_api_keys: z
         .boolean()
         .describe("Whether API keys are globally enforced"),
     },
-    handler: async ({ clientName, runtime }, { enforce_api_keys }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("update_api_key_config");
+    handler: async ({ clientName, readOnly, runtime }, { enforce_api_keys }) => {
+      if (readOnly) return readOnlyToolError("update_api_key_config");
       return jsonContent(
         await runtime.apiFetch("/admin/api-key-config", clientName, {
           body: { enforce_api_keys },
+          idempotent: true,
           method: "PUT",
         }),
       );
@@ -181,26 +194,29 @@ export function registerAdminTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/admin/api-key-clients", clientName)),
     name: "list_api_key_clients",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description:
       "Create or update a per-client Athena API key enforcement override. Blocked when read_only mode is enabled.",
     name: "save_api_key_client",
+    annotations: toolHints.update,
     shape: {
       client_name: z.string().describe("Athena client name"),
       enforce_api_keys: z
         .boolean()
         .describe("Whether API keys are enforced for this client"),
     },
-    handler: async ({ clientName, runtime }, { client_name, enforce_api_keys }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("save_api_key_client");
+    handler: async ({ clientName, readOnly, runtime }, { client_name, enforce_api_keys }) => {
+      if (readOnly) return readOnlyToolError("save_api_key_client");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/api-key-clients/${encodeURIComponent(client_name)}`,
           clientName,
           {
             body: { enforce_api_keys },
+            idempotent: true,
             method: "PUT",
           },
         ),
@@ -212,11 +228,12 @@ export function registerAdminTools(
     description:
       "Delete a per-client Athena API key enforcement override. Blocked when read_only mode is enabled.",
     name: "delete_api_key_client",
+    annotations: toolHints.delete,
     shape: {
       client_name: z.string().describe("Athena client name"),
     },
-    handler: async ({ clientName, runtime }, { client_name }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("delete_api_key_client");
+    handler: async ({ clientName, readOnly, runtime }, { client_name }) => {
+      if (readOnly) return readOnlyToolError("delete_api_key_client");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/api-key-clients/${encodeURIComponent(client_name)}`,
@@ -234,15 +251,17 @@ export function registerAdminTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/admin/clients", clientName)),
     name: "list_athena_clients_admin",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description:
       "Create an Athena client in the admin catalog. Blocked when read_only mode is enabled.",
     name: "create_athena_client",
+    annotations: toolHints.create,
     shape: saveAthenaClientSchema.shape,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("create_athena_client");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("create_athena_client");
       return jsonContent(
         await runtime.apiFetch("/admin/clients", clientName, {
           body: input,
@@ -256,9 +275,10 @@ export function registerAdminTools(
     description:
       "Update an Athena client in the admin catalog. Blocked when read_only mode is enabled.",
     name: "update_athena_client",
+    annotations: toolHints.update,
     shape: saveAthenaClientSchema.shape,
-    handler: async ({ clientName, runtime }, { client_name, ...body }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("update_athena_client");
+    handler: async ({ clientName, readOnly, runtime }, { client_name, ...body }) => {
+      if (readOnly) return readOnlyToolError("update_athena_client");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/clients/${encodeURIComponent(client_name)}`,
@@ -276,11 +296,12 @@ export function registerAdminTools(
     description:
       "Soft-delete an Athena client from the admin catalog. Blocked when read_only mode is enabled.",
     name: "delete_athena_client",
+    annotations: toolHints.delete,
     shape: {
       client_name: z.string().describe("Athena client name"),
     },
-    handler: async ({ clientName, runtime }, { client_name }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("delete_athena_client");
+    handler: async ({ clientName, readOnly, runtime }, { client_name }) => {
+      if (readOnly) return readOnlyToolError("delete_athena_client");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/clients/${encodeURIComponent(client_name)}`,
@@ -297,18 +318,20 @@ export function registerAdminTools(
     description:
       "Freeze or unfreeze an Athena client. Blocked when read_only mode is enabled.",
     name: "freeze_athena_client",
+    annotations: toolHints.update,
     shape: {
       client_name: z.string().describe("Athena client name"),
       is_frozen: z.boolean().describe("Whether the client should be frozen"),
     },
-    handler: async ({ clientName, runtime }, { client_name, is_frozen }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("freeze_athena_client");
+    handler: async ({ clientName, readOnly, runtime }, { client_name, is_frozen }) => {
+      if (readOnly) return readOnlyToolError("freeze_athena_client");
       return jsonContent(
         await runtime.apiFetch(
           `/admin/clients/${encodeURIComponent(client_name)}/freeze`,
           clientName,
           {
             body: { is_frozen },
+            idempotent: true,
             method: "PUT",
           },
         ),
@@ -323,14 +346,18 @@ export function registerAdminTools(
         await runtime.apiFetch("/admin/clients/statistics", clientName),
       ),
     name: "list_client_statistics",
+    annotations: toolHints.read,
+    outputSchema: clientStatisticsListOutputSchema,
   });
 
   registerTool(server, runtime, {
     description:
       "Rebuild Athena client statistics from gateway logs. Blocked when read_only mode is enabled.",
     name: "refresh_client_statistics",
-    handler: async ({ clientName, runtime }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("refresh_client_statistics");
+    annotations: toolHints.update,
+    outputSchema: clientStatisticsListOutputSchema,
+    handler: async ({ clientName, readOnly, runtime }) => {
+      if (readOnly) return readOnlyToolError("refresh_client_statistics");
       return jsonContent(
         await runtime.apiFetch(
           "/admin/clients/statistics/refresh",
@@ -346,6 +373,8 @@ export function registerAdminTools(
   registerTool(server, runtime, {
     description: "Inspect per-client Athena statistics and touched tables.",
     name: "get_client_statistics",
+    annotations: toolHints.read,
+    outputSchema: clientStatisticsDetailOutputSchema,
     shape: {
       client_name: z.string().describe("Athena client name"),
     },
@@ -362,6 +391,7 @@ export function registerAdminTools(
     description:
       "Enable or disable Supabase SSL enforcement for a project. Blocked when read_only mode is enabled.",
     name: "toggle_supabase_ssl_enforcement",
+    annotations: toolHints.update,
     shape: {
       access_token: z
         .string()
@@ -375,8 +405,8 @@ export function registerAdminTools(
         .optional()
         .describe("Optional override for PROJECT_REF"),
     },
-    handler: async ({ clientName, runtime }, { access_token, enabled, project_ref }) => {
-      if (runtime.config.readOnly) {
+    handler: async ({ clientName, readOnly, runtime }, { access_token, enabled, project_ref }) => {
+      if (readOnly) {
         return readOnlyToolError("toggle_supabase_ssl_enforcement");
       }
       return jsonContent(
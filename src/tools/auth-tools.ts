@@ -3,7 +3,7 @@ import { z } from "zod";
 import { jsonContent } from "../responses.js";
 import type { AthenaRuntime } from "../runtime.js";
 import { readOnlyToolError } from "../runtime.js";
-import { registerTool } from "../tooling.js";
+import { registerTool, toolHints } from "../tooling.js";
 
 /**
  * Athena Auth SDK surface exposed as individual MCP tools.
@@ -52,10 +52,13 @@ export function registerAuthTools(
       "Returns session details or an error object if no active session. " +
       "This is the recommended way to inspect who is currently authenticated in agent flows.",
     name: "auth_get_session",
+    annotations: toolHints.read,
     handler: async ({ clientName, runtime }) => {
       try {
         const auth = runtime.getAuthModule(clientName);
-        const res = await (typeof auth?.getSession === "function" ? auth.getSession() : runtime.performAuth(clientName, "get-session"));
+        const res = typeof auth?.getSession === "function"
+          ? await runtime.withClientLimits(clientName, () => auth.getSession())
+          : await runtime.performAuth(clientName, "get-session");
         return jsonContent(res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
@@ -68,10 +71,13 @@ export function registerAuthTools(
       "Fetch the current user profile via the Athena Auth SDK (getUser). " +
       "Includes id, email, metadata, email_confirmed_at, etc. when available.",
     name: "auth_get_user",
+    annotations: toolHints.read,
     handler: async ({ clientName, runtime }) => {
       try {
         const auth = runtime.getAuthModule(clientName);
-        const res = await (typeof auth?.getUser === "function" ? auth.getUser() : runtime.performAuth(clientName, "get-user"));
+        const res = typeof auth?.getUser === "function"
+          ? await runtime.withClientLimits(clientName, () => auth.getUser())
+          : await runtime.performAuth(clientName, "get-user");
         return jsonContent(res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
@@ -86,11 +92,14 @@ export function registerAuthTools(
       "Sign out / invalidate the current session using the Athena auth SDK. " +
       "Blocked when READ_ONLY=true.",
     name: "auth_sign_out",
-    handler: async ({ clientName, runtime }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("auth_sign_out");
+    annotations: toolHints.update,
+    handler: async ({ clientName, readOnly, runtime }) => {
+      if (readOnly) return readOnlyToolError("auth_sign_out");
       try {
         const auth = runtime.getAuthModule(clientName);
-        const res = await (typeof auth?.signOut === "function" ? auth.signOut() : runtime.performAuth(clientName, "sign-out"));
+        const res = typeof auth?.signOut === "function"
+          ? await runtime.withClientLimits(clientName, () => auth.signOut())
+          : await runtime.performAuth(clientName, "sign-out");
         return jsonContent(res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
@@ -103,12 +112,13 @@ export function registerAuthTools(
       "Exchange a refresh_token for a fresh access token (and possibly new refresh token). " +
       "Useful for long-running agent sessions.",
     name: "auth_refresh_token",
+    annotations: toolHints.create,
     shape: refreshTokenSchema,
     handler: async ({ clientName, runtime }, input) => {
       try {
         const auth = runtime.getAuthModule(clientName);
         const res = typeof auth?.refreshToken === "function"
-          ? await auth.refreshToken(input.refresh_token)
+          ? await runtime.withClientLimits(clientName, () => auth.refreshToken(input.refresh_token))
           : await runtime.performAuth(clientName, "refresh", input);
         return jsonContent(res);
       } catch (e: any) {
@@ -123,14 +133,15 @@ export function registerAuthTools(
       "Blocked when READ_ONLY=true. " +
       "Depending on server config this may send a confirmation email.",
     name: "auth_sign_up",
+    annotations: toolHints.create,
     shape: signUpSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("auth_sign_up");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("auth_sign_up");
       try {
         const auth = runtime.getAuthModule(clientName);
         const payload = { email: input.email, password: input.password, data: input.data };
         const res = typeof auth?.signUp === "function"
-          ? await auth.signUp(payload)
+          ? await runtime.withClientLimits(clientName, () => auth.signUp(payload))
           : await runtime.performAuth(clientName, "sign-up", payload);
         return jsonContent(res);
       } catch (e: any) {
@@ -144,13 +155,14 @@ export function registerAuthTools(
       "Authenticate with email + password. Returns session (access + refresh tokens, user). " +
       "Blocked when READ_ONLY=true.",
     name: "auth_sign_in",
+    annotations: toolHints.create,
     shape: signInSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("auth_sign_in");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("auth_sign_in");
       try {
         const auth = runtime.getAuthModule(clientName);
         const res = typeof auth?.signIn === "function"
-          ? await auth.signIn(input)
+          ? await runtime.withClientLimits(clientName, () => auth.signIn(input))
           : await runtime.performAuth(clientName, "sign-in", input);
         return jsonContent(res);
       } catch (e: any) {
@@ -164,13 +176,14 @@ export function registerAuthTools(
       "Trigger the forgot password flow (sends reset email if the user exists). " +
       "Blocked in read-only mode.",
     name: "auth_forgot_password",
+    annotations: toolHints.create,
     shape: { email: z.string().email().describe("Email of the account that needs a password reset") },
-    handler: async ({ clientName, runtime }, { email }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("auth_forgot_password");
+    handler: async ({ clientName, readOnly, runtime }, { email }) => {
+      if (readOnly) return readOnlyToolError("auth_forgot_password");
       try {
         const auth = runtime.getAuthModule(clientName);
         const res = typeof auth?.forgetPassword === "function"
-          ? await auth.forgetPassword(email)
+          ? await runtime.withClientLimits(clientName, () => auth.forgetPassword(email))
           : await runtime.performAuth(clientName, "forgot-password", { email });
         return jsonContent(res);
       } catch (e: any) {
@@ -184,16 +197,17 @@ export function registerAuthTools(
       "Complete a password reset using the token from the email + the new password. " +
       "Blocked in read-only mode.",
     name: "auth_reset_password",
+    annotations: toolHints.update,
     shape: {
       token: z.string().describe("One-time reset token from the password reset email"),
       new_password: z.string().min(8).describe("The new password to set"),
     },
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("auth_reset_password");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("auth_reset_password");
       try {
         const auth = runtime.getAuthModule(clientName);
         const res = typeof auth?.resetPassword === "function"
-          ? await auth.resetPassword(input.new_password, input.token)
+          ? await runtime.withClientLimits(clientName, () => auth.resetPassword(input.new_password, input.token))
           : await runtime.performAuth(clientName, "reset-password", input);
         return jsonContent(res);
       } catch (e: any) {
@@ -210,12 +224,13 @@ export function registerAuthTools(
       "May require a special admin key or elevated rights on the Athena client. " +
       "Not subject to normal client scoping in all deployments.",
     name: "auth_admin_list_users",
+    annotations: toolHints.read,
     handler: async ({ clientName, runtime }) => {
       try {
         const auth = runtime.getAuthModule(clientName);
         const admin = auth?.admin;
         if (admin && typeof admin.listUsers === "function") {
-          return jsonContent(await admin.listUsers());
+          return jsonContent(await runtime.withClientLimits(clientName, () => admin.listUsers()));
         }
         return jsonContent(await runtime.sdkRequest(clientName, { service: "auth", path: "/admin/users" }));
       } catch (e: any) {
@@ -229,14 +244,15 @@ export function registerAuthTools(
       "ADMIN ONLY: Create a user directly (bypassing normal signup). " +
       "Blocked when READ_ONLY=true. Requires elevated privileges.",
     name: "auth_admin_create_user",
+    annotations: toolHints.create,
     shape: adminCreateUserSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("auth_admin_create_user");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("auth_admin_create_user");
       try {
         const auth = runtime.getAuthModule(clientName);
         const admin = auth?.admin;
         if (admin && typeof admin.createUser === "function") {
-          return jsonContent(await admin.createUser(input));
+          return jsonContent(await runtime.withClientLimits(clientName, () => admin.createUser(input)));
         }
         return jsonContent(await runtime.sdkRequest(clientName, { service: "auth", path: "/admin/users", method: "POST", body: input }));
       } catch (e: any) {
@@ -3,7 +3,7 @@ import { z } from "zod";
 import { jsonContent } from "../responses.js";
 import type { AthenaRuntime } from "../runtime.js";
 import { readOnlyToolError } from "../runtime.js";
-import { registerTool } from "../tooling.js";
+import { registerTool, toolHints } from "../tooling.js";
 
 /**
  * Athena Chat (real-time + persistent rooms/messages) tools backed by the SDK.
@@ -51,6 +51,7 @@ export function registerChatTools(
       "Supports pagination and optionally archived rooms. " +
       "Returns room list with metadata.",
     name: "chat_list_rooms",
+    annotations: toolHints.read,
     shape: listRoomsSchema,
     handler: async ({ clientName, runtime }, input) => {
       try {
@@ -67,9 +68,10 @@ export function registerChatTools(
       "Create a new chat room. " +
       "Requires a unique slug. Blocked when READ_ONLY=true.",
     name: "chat_create_room",
+    annotations: toolHints.create,
     shape: roomCreateSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("chat_create_room");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("chat_create_room");
       try {
         const res = await runtime.performChat(clientName, "room", "create", input);
         return jsonContent(res);
@@ -83,6 +85,7 @@ export function registerChatTools(
     description:
       "Fetch a single chat room by ID or slug, including current metadata and membership info when available.",
     name: "chat_get_room",
+    annotations: toolHints.read,
     shape: { room_id: z.string().describe("Room ID or slug") },
     handler: async ({ clientName, runtime }, { room_id }) => {
       try {
@@ -98,9 +101,10 @@ export function registerChatTools(
     description:
       "Archive (soft-delete / hide) a chat room. Blocked in read-only mode.",
     name: "chat_archive_room",
+    annotations: toolHints.update,
     shape: { room_id: z.string().describe("Room to archive") },
-    handler: async ({ clientName, runtime }, { room_id }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("chat_archive_room");
+    handler: async ({ clientName, readOnly, runtime }, { room_id }) => {
+      if (readOnly) return readOnlyToolError("chat_archive_room");
       try {
         const res = await runtime.performChat(clientName, "room", "archive", { room_id });
         return jsonContent(res);
@@ -115,6 +119,7 @@ export function registerChatTools(
       "Fetch messages for a given room. Supports cursor-based pagination via before_id. " +
       "Returns messages in reverse chronological order (newest first) by default.",
     name: "chat_list_messages",
+    annotations: toolHints.read,
     shape: listMessagesSchema,
     handler: async ({ clientName, runtime }, input) => {
       try {
@@ -131,9 +136,10 @@ export function registerChatTools(
       "Post a new message into a chat room. " +
       "Blocked when READ_ONLY=true. Supports optional metadata (for attachments, formatting hints, etc.).",
     name: "chat_send_message",
+    annotations: toolHints.create,
     shape: messageSendSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("chat_send_message");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("chat_send_message");
       try {
         const res = await runtime.performChat(clientName, "message", "send", input);
         return jsonContent(res);
@@ -148,11 +154,12 @@ export function registerChatTools(
       "Return connection / contract metadata for the Athena chat realtime (WebSocket) gateway. " +
       "Useful for agents that want to establish live subscriptions.",
     name: "chat_get_realtime_info",
+    annotations: toolHints.read,
     handler: async ({ clientName, runtime }) => {
       try {
         const chat = runtime.getChatModule(clientName);
         const rt = chat?.realtime;
-        const info = typeof rt === "function" ? await rt() : rt || (await runtime.sdkRequest(clientName, { service: "chat", path: "/realtime" }));
+        const info = typeof rt === "function" ? await runtime.withClientLimits(clientName, () => rt()) : rt || (await runtime.sdkRequest(clientName, { service: "chat", path: "/realtime" }));
         return jsonContent(info ?? { note: "Realtime info returned by SDK or /chat/realtime contract" });
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
@@ -165,6 +172,7 @@ export function registerChatTools(
       "Search across chat messages (full-text or metadata search). " +
       "Optional room scoping.",
     name: "chat_search_messages",
+    annotations: toolHints.read,
     shape: {
       query: z.string().min(1).describe("Search query string"),
       room_id: z.string().optional().describe("Limit search to a specific room"),
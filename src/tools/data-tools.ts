@@ -1,18 +1,29 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { sanitizeIdentifier } from "../identifier.js";
-import { isWriteQuery } from "../query.js";
+import { dryRunSql } from "../dry-run.js";
+import { mapResultRows, parsePolicyTableRef } from "../policy.js";
+import { changesSchema, findWriteStatement, inlineSqlParams } from "../query.js";
 import { jsonContent, textContent } from "../responses.js";
+import { nextPageContent, rowsContent } from "../result-pages.js";
 import {
+  clientHealthOutputSchema,
+  clusterHealthOutputSchema,
+  constraintsOutputSchema,
   editTableOperationSchema,
+  indexesOutputSchema,
   managementColumnSchema,
   pipelineSinkSchema,
   pipelineSourceSchema,
   pipelineTransformSchema,
+  resultFormatSchema,
+  schemasOutputSchema,
+  tableMetadataOutputSchema,
 } from "../schemas.js";
 import type { AthenaRuntime } from "../runtime.js";
-import { readOnlyToolError } from "../runtime.js";
-import { registerTool } from "../tooling.js";
+import { readOnlySqlError, readOnlyToolError } from "../runtime.js";
+import { listTableMetadata } from "../table-metadata.js";
+import { registerTool, toolHints } from "../tooling.js";
 
 interface TableRef {
   qualified: string;
@@ -53,6 +64,28 @@ function parseTableRef(table: string, defaultSchema?: string): TableRef {
   };
 }
 
+/** Await a call that changed the schema, then report the change (see AthenaRuntime.schemaChanged). */
+async function schemaChange<T>(runtime: AthenaRuntime, clientName: string, call: Promise<T>): Promise<T> {
+  const result = await call;
+  runtime.schemaChanged(clientName);
+  return result;
+}
+
+const INFORMATION_SCHEMA_COLUMNS_SQL =
+  "SELECT column_name, data_type, column_default, is_nullable FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2 ORDER BY ordinal_position";
+
+/** information_schema columns of one table (fallback when /schema/columns returns none), through the schema cache. */
+async function informationSchemaColumns(
+  runtime: AthenaRuntime,
+  clientName: string,
+  schema: string,
+  table: string,
+): Promise<unknown[]> {
+  return runtime.schemaMetadata(clientName, `information_schema.columns:${schema}.${table}`, async () =>
+    queryResultToArray(await runtime.runQuery(INFORMATION_SCHEMA_COLUMNS_SQL, clientName, [schema, table])),
+  );
+}
+
 async function getPrimaryKeyColumns(
   runtime: AthenaRuntime,
   clientName: string,
@@ -60,27 +93,22 @@ async function getPrimaryKeyColumns(
   table: string,
 ): Promise<Set<string>> {
   try {
-    const schemaLit = schema.replace(/'/g, "''");
-    const tableLit = table.replace(/'/g, "''");
-    const rows = queryResultToArray(
-      await runtime.runQuery(
-        `SELECT kcu.column_name FROM information_schema.table_constraints tc JOIN information_schema.key_column_usage kcu ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema AND tc.table_name = kcu.table_name WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_schema = '${schemaLit}' AND tc.table_name = '${tableLit}'`,
-        clientName,
-      ),
-    ) as Array<{ column_name?: string }>;
-    return new Set(rows.map((row) => (row.column_name ?? "").toLowerCase()));
+    const names = await runtime.schemaMetadata(clientName, `primary_keys:${schema}.${table}`, async () => {
+      const rows = queryResultToArray(
+        await runtime.runQuery(
+          "SELECT kcu.column_name FROM information_schema.table_constraints tc JOIN information_schema.key_column_usage kcu ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema AND tc.table_name = kcu.table_name WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_schema = $1 AND tc.table_name = $2",
+          clientName,
+          [schema, table],
+        ),
+      ) as Array<{ column_name?: string }>;
+      return rows.map((row) => (row.column_name ?? "").toLowerCase());
+    });
+    return new Set(names);
   } catch {
     return new Set();
   }
 }
 
-function toSqlLiteral(val: string | number | boolean | null): string {
-  if (val === null) return "NULL";
-  if (typeof val === "boolean") return val ? "TRUE" : "FALSE";
-  if (typeof val === "number") return String(val);
-  return `'${String(val).replace(/'/g, "''")}'`;
-}
-
 export function registerDataTools(
   server: McpServer,
   runtime: AthenaRuntime,
@@ -90,8 +118,9 @@ export function registerDataTools(
       "List every table visible to the current Athena client. " +
       "Returns schema-qualified table information. This is usually the first tool an agent calls for schema discovery.",
     handler: async ({ clientName, runtime }) =>
-      jsonContent(await runtime.apiFetch("/schema/tables", clientName)),
+      jsonContent(await runtime.fetchSchema("/schema/tables", clientName)),
     name: "list_tables",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
@@ -112,11 +141,13 @@ export function registerDataTools(
       }
     },
     name: "list_extensions",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description: "List applied database migrations",
     name: "list_migrations",
+    annotations: toolHints.read,
     shape: {
       table_name: z
         .string()
@@ -136,18 +167,32 @@ export function registerDataTools(
 
   registerTool(server, runtime, {
     description:
-      "Apply a SQL migration against the connected database. Blocked when read_only mode is enabled.",
+      "Apply a SQL migration against the connected database. In read_only mode any statement that writes is rejected. " +
+      "With dry_run the migration is executed and rolled back, reporting what each statement would do.",
     name: "apply_migration",
+    annotations: toolHints.query,
+    runsInReadOnly: true,
     shape: {
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "Run inside a transaction that is always rolled back and report affected rows, RETURNING previews and errors",
+        ),
       name: z
         .string()
         .optional()
         .describe("Optional migration name / label for reference"),
       sql: z.string().describe("The SQL migration to execute"),
     },
-    handler: async ({ clientName, runtime }, { name, sql }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("apply_migration");
-      const result = await runtime.runQuery(sql, clientName);
+    handler: async ({ clientName, readOnly, runtime }, { dry_run, name, sql }) => {
+      const blocked = readOnly ? findWriteStatement(sql) : undefined;
+      if (blocked) return readOnlySqlError("apply_migration", blocked);
+      runtime.assertSqlAccess(clientName, sql);
+      if (dry_run) {
+        return dryRunSql("apply_migration", sql, (wrapped) => runtime.runQuery(wrapped, clientName));
+      }
+      const result = await schemaChange(runtime, clientName, runtime.runQuery(sql, clientName));
       return jsonContent({ migration: name ?? null, result });
     },
   });
@@ -155,6 +200,7 @@ export function registerDataTools(
   registerTool(server, runtime, {
     description: "Retrieve recent database or application logs",
     name: "get_logs",
+    annotations: toolHints.read,
     shape: {
       level: z
         .string()
@@ -175,20 +221,26 @@ export function registerDataTools(
         .optional()
         .describe("Logs table name (defaults to 'logs')"),
     },
-    handler: async ({ clientName, runtime }, { level, limit, table_name }) => {
+    handler: async ({ caller, clientName, runtime }, { level, limit, table_name }) => {
       const tableName = sanitizeIdentifier(table_name ?? "logs", "table_name");
+      const ref = parseTableRef(tableName);
+      runtime.assertTableAccess(clientName, "read", ref);
       const maxRows = limit ?? 100;
-      const levelClause = level
-        ? ` WHERE level = '${level.replace(/'/g, "''")}'`
-        : "";
-      const sql = `SELECT * FROM ${tableName}${levelClause} ORDER BY created_at DESC LIMIT ${maxRows}`;
-      return jsonContent(await runtime.runQuery(sql, clientName));
+      const sql = level
+        ? `SELECT * FROM ${tableName} WHERE level = $2 ORDER BY created_at DESC LIMIT $1`
+        : `SELECT * FROM ${tableName} ORDER BY created_at DESC LIMIT $1`;
+      return rowsContent(
+        { caller, clientName, runtime },
+        [ref],
+        await runtime.runQuery(sql, clientName, level ? [maxRows, level] : [maxRows]),
+      );
     },
   });
 
   registerTool(server, runtime, {
     description: "Describe columns for a table using Athena's schema API",
     name: "get_columns_of_table",
+    annotations: toolHints.read,
     shape: {
       schema: z
         .string()
@@ -202,13 +254,14 @@ export function registerDataTools(
     },
     handler: async ({ clientName, runtime }, { schema, table }) => {
       const ref = parseTableRef(table, schema);
+      runtime.assertTableAccess(clientName, "read", ref);
       const primaryKeys = await getPrimaryKeyColumns(
         runtime,
         clientName,
         ref.schema,
         ref.table,
       );
-      const data = (await runtime.apiFetch(
+      const data = (await runtime.fetchSchema(
         `/schema/columns?table_name=${encodeURIComponent(ref.qualified)}`,
         clientName,
       )) as {
@@ -227,14 +280,9 @@ export function registerDataTools(
       }
 
       try {
-        const schemaLit = ref.schema.replace(/'/g, "''");
-        const tableLit = ref.table.replace(/'/g, "''");
-        const rows = queryResultToArray(
-          await runtime.runQuery(
-            `SELECT column_name, data_type, column_default, is_nullable FROM information_schema.columns WHERE table_schema = '${schemaLit}' AND table_name = '${tableLit}' ORDER BY ordinal_position`,
-            clientName,
-          ),
-        ) as Array<Record<string, unknown>>;
+        const rows = (await informationSchemaColumns(runtime, clientName, ref.schema, ref.table)) as Array<
+          Record<string, unknown>
+        >;
         return jsonContent({
           columns: rows.map((row) => ({
             column_default: row.column_default,
@@ -256,6 +304,8 @@ export function registerDataTools(
     description:
       "Return the full metadata for a table: schema name, table name, and each column's name, type, default value, and nullable flag",
     name: "list_table_metadata",
+    annotations: toolHints.read,
+    outputSchema: tableMetadataOutputSchema,
     shape: {
       schema: z
         .string()
@@ -267,13 +317,14 @@ export function registerDataTools(
     },
     handler: async ({ clientName, runtime }, { schema, table }) => {
       const ref = parseTableRef(table, schema);
+      runtime.assertTableAccess(clientName, "read", ref);
       const primaryKeys = await getPrimaryKeyColumns(
         runtime,
         clientName,
         ref.schema,
         ref.table,
       );
-      const raw = (await runtime.apiFetch(
+      const raw = (await runtime.fetchSchema(
         `/schema/columns?table_name=${encodeURIComponent(ref.qualified)}`,
         clientName,
       )) as {
@@ -288,14 +339,7 @@ export function registerDataTools(
       let columns = Array.isArray(raw.columns) ? raw.columns : [];
       if (columns.length === 0) {
         try {
-          const schemaLit = ref.schema.replace(/'/g, "''");
-          const tableLit = ref.table.replace(/'/g, "''");
-          columns = queryResultToArray(
-            await runtime.runQuery(
-              `SELECT column_name, data_type, column_default, is_nullable FROM information_schema.columns WHERE table_schema = '${schemaLit}' AND table_name = '${tableLit}' ORDER BY ordinal_position`,
-              clientName,
-            ),
-          ) as typeof columns;
+          columns = (await informationSchemaColumns(runtime, clientName, ref.schema, ref.table)) as typeof columns;
         } catch {
           columns = [];
         }
@@ -319,6 +363,8 @@ export function registerDataTools(
   registerTool(server, runtime, {
     description: "List database schemas visible to the current Athena client",
     name: "list_schemas",
+    annotations: toolHints.read,
+    outputSchema: schemasOutputSchema,
     shape: {
       include_system: z
         .boolean()
@@ -328,7 +374,7 @@ export function registerDataTools(
         ),
     },
     handler: async ({ clientName, runtime }, { include_system }) => {
-      const data = (await runtime.apiFetch("/schema/tables", clientName)) as {
+      const data = (await runtime.fetchSchema("/schema/tables", clientName)) as {
         tables?: Array<{ table_schema?: string }>;
       };
       const tables = Array.isArray(data.tables) ? data.tables : [];
@@ -342,7 +388,7 @@ export function registerDataTools(
               !schemaName.startsWith("pg_") &&
               schemaName !== "information_schema",
           );
-      return jsonContent(filtered.map((schemaName) => ({ schema_name: schemaName })));
+      return jsonContent({ schemas: filtered.map((schemaName) => ({ schema_name: schemaName })) });
     },
   });
 
@@ -350,6 +396,7 @@ export function registerDataTools(
     description:
       "List visible views (and optionally materialized views). Uses Athena schema API.",
     name: "list_views",
+    annotations: toolHints.read,
     shape: {
       include_materialized: z
         .boolean()
@@ -358,7 +405,7 @@ export function registerDataTools(
       schema: z.string().optional().describe("Schema to limit the view lookup to"),
     },
     handler: async ({ clientName, runtime }, { include_materialized, schema }) => {
-      const data = (await runtime.apiFetch("/schema/tables", clientName)) as {
+      const data = (await runtime.fetchSchema("/schema/tables", clientName)) as {
         tables?: Array<{
           table_name?: string;
           table_schema?: string;
@@ -399,6 +446,8 @@ export function registerDataTools(
     description:
       "List primary keys, foreign keys, and unique constraints for a table. Essential for understanding relationships and correct joins.",
     name: "list_foreign_keys",
+    annotations: toolHints.read,
+    outputSchema: constraintsOutputSchema,
     shape: {
       schema: z
         .string()
@@ -408,15 +457,25 @@ export function registerDataTools(
     },
     handler: async ({ clientName, runtime }, { schema, table }) => {
       const ref = parseTableRef(table, schema);
-      const schemaLit = ref.schema.replace(/'/g, "''");
-      const tableLit = ref.table.replace(/'/g, "''");
+      runtime.assertTableAccess(clientName, "read", ref);
       try {
-        return jsonContent(
+        const rows = queryResultToArray(
           await runtime.runQuery(
-            `SELECT tc.constraint_type, tc.constraint_name, kcu.column_name, ccu.table_schema AS foreign_table_schema, ccu.table_name AS foreign_table_name, ccu.column_name AS foreign_column_name FROM information_schema.table_constraints tc JOIN information_schema.key_column_usage kcu ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema LEFT JOIN information_schema.constraint_column_usage ccu ON tc.constraint_name = ccu.constraint_name AND tc.table_schema = ccu.table_schema WHERE tc.table_schema = '${schemaLit}' AND tc.table_name = '${tableLit}' AND tc.constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE') ORDER BY tc.constraint_type, tc.constraint_name, kcu.ordinal_position`,
+            "SELECT tc.constraint_type, tc.constraint_name, kcu.column_name, ccu.table_schema AS foreign_table_schema, ccu.table_name AS foreign_table_name, ccu.column_name AS foreign_column_name FROM information_schema.table_constraints tc JOIN information_schema.key_column_usage kcu ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema LEFT JOIN information_schema.constraint_column_usage ccu ON tc.constraint_name = ccu.constraint_name AND tc.table_schema = ccu.table_schema WHERE tc.table_schema = $1 AND tc.table_name = $2 AND tc.constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE') ORDER BY tc.constraint_type, tc.constraint_name, kcu.ordinal_position",
             clientName,
+            [ref.schema, ref.table],
           ),
-        );
+        ) as Array<Record<string, unknown>>;
+        return jsonContent({
+          constraints: rows.map((row) => ({
+            column_name: String(row.column_name ?? ""),
+            constraint_name: String(row.constraint_name ?? ""),
+            constraint_type: row.constraint_type,
+            foreign_column_name: row.foreign_column_name ?? null,
+            foreign_table_name: row.foreign_table_name ?? null,
+            foreign_table_schema: row.foreign_table_schema ?? null,
+          })),
+        });
       } catch {
         return jsonContent({
           constraints: [],
@@ -430,6 +489,7 @@ export function registerDataTools(
     description:
       "Sample rows from a table to understand its data shape. Quick alternative to writing SQL.",
     name: "get_table_sample",
+    annotations: toolHints.read,
     shape: {
       limit: z
         .number()
@@ -437,19 +497,21 @@ export function registerDataTools(
         .positive()
         .optional()
         .describe("Number of rows to sample (defaults to 10)"),
+      format: resultFormatSchema,
       schema: z
         .string()
         .optional()
         .describe("Optional schema when table name is not schema-qualified"),
       table: z.string().describe("Table name (optionally schema-qualified)"),
     },
-    handler: async ({ clientName, runtime }, { limit, schema, table }) => {
+    handler: async ({ caller, clientName, runtime }, { format, limit, schema, table }) => {
       const ref = parseTableRef(table, schema);
-      return jsonContent(
-        await runtime.runQuery(
-          `SELECT * FROM ${ref.qualified} LIMIT ${limit ?? 10}`,
-          clientName,
-        ),
+      runtime.assertTableAccess(clientName, "read", ref);
+      return rowsContent(
+        { caller, clientName, runtime },
+        [ref],
+        await runtime.runQuery(`SELECT * FROM ${ref.qualified} LIMIT $1`, clientName, [limit ?? 10]),
+        format,
       );
     },
   });
@@ -458,6 +520,8 @@ export function registerDataTools(
     description:
       "List index definitions for a table. Helps with performance and query design.",
     name: "list_indexes",
+    annotations: toolHints.read,
+    outputSchema: indexesOutputSchema,
     shape: {
       schema: z
         .string()
@@ -467,21 +531,21 @@ export function registerDataTools(
     },
     handler: async ({ clientName, runtime }, { schema, table }) => {
       const ref = parseTableRef(table, schema);
-      const schemaLit = ref.schema.replace(/'/g, "''");
-      const tableLit = ref.table.replace(/'/g, "''");
+      runtime.assertTableAccess(clientName, "read", ref);
       try {
         const rows = queryResultToArray(
           await runtime.runQuery(
-            `SELECT indexname AS index_name, indexdef AS index_def FROM pg_indexes WHERE schemaname = '${schemaLit}' AND tablename = '${tableLit}' ORDER BY indexname`,
+            "SELECT indexname AS index_name, indexdef AS index_def FROM pg_indexes WHERE schemaname = $1 AND tablename = $2 ORDER BY indexname",
             clientName,
+            [ref.schema, ref.table],
           ),
         ) as Array<Record<string, unknown>>;
-        return jsonContent(
-          rows.map((row) => ({
-            index_def: row.index_def,
-            index_name: row.index_name,
+        return jsonContent({
+          indexes: rows.map((row) => ({
+            index_def: String(row.index_def ?? ""),
+            index_name: String(row.index_name ?? ""),
           })),
-        );
+        });
       } catch {
         return jsonContent({
           indexes: [],
@@ -495,6 +559,7 @@ export function registerDataTools(
     description:
       "Find tables and columns by name pattern. Speeds up schema discovery.",
     name: "search_columns",
+    annotations: toolHints.read,
     shape: {
       pattern: z
         .string()
@@ -502,18 +567,24 @@ export function registerDataTools(
       schema: z.string().optional().describe("Optional schema to limit search"),
     },
     handler: async ({ clientName, runtime }, { pattern, schema }) => {
-      const patternLit = pattern.replace(/'/g, "''");
       const schemaCondition = schema
-        ? `c.table_schema = '${sanitizeIdentifier(schema, "schema").replace(/'/g, "''")}'`
+        ? "c.table_schema = $2"
         : "c.table_schema NOT IN ('pg_catalog', 'information_schema')";
+      // Same read checks as list_table_metadata: hidden tables and columns are left out.
+      const policy = runtime.getPolicy(clientName);
+      const visible = (row: unknown) => {
+        const { column_name: column, table_name: table, table_schema: tableSchema } = (row ?? {}) as Record<string, unknown>;
+        const ref = { schema: String(tableSchema ?? ""), table: String(table ?? "") };
+        return !policy.checkTable("read", ref) && !policy.checkColumn("read", ref, String(column ?? ""));
+      };
 
       try {
-        return jsonContent(
-          await runtime.runQuery(
-            `SELECT c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable FROM information_schema.columns c WHERE (LOWER(c.column_name) LIKE LOWER('${patternLit}') OR LOWER(c.table_name) LIKE LOWER('${patternLit}')) AND ${schemaCondition} ORDER BY c.table_schema, c.table_name, c.ordinal_position`,
-            clientName,
-          ),
+        const result = await runtime.runQuery(
+          `SELECT c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable FROM information_schema.columns c WHERE (LOWER(c.column_name) LIKE LOWER($1) OR LOWER(c.table_name) LIKE LOWER($1)) AND ${schemaCondition} ORDER BY c.table_schema, c.table_name, c.ordinal_position`,
+          clientName,
+          schema ? [pattern, sanitizeIdentifier(schema, "schema")] : [pattern],
         );
+        return jsonContent(mapResultRows(result, (rows) => rows.filter(visible)));
       } catch {
         return jsonContent({
           message:
@@ -528,6 +599,7 @@ export function registerDataTools(
     description:
       "Fetch rows by primary key column value. Simplifies the common fetch-by-id use case.",
     name: "get_row_by_id",
+    annotations: toolHints.read,
     shape: {
       id: z
         .union([z.string(), z.number()])
@@ -548,17 +620,16 @@ export function registerDataTools(
         .describe("Optional schema when table name is not schema-qualified"),
       table: z.string().describe("Table name (optionally schema-qualified)"),
     },
-    handler: async ({ clientName, runtime }, { id, id_column, limit, schema, table }) => {
+    handler: async ({ caller, clientName, runtime }, { id, id_column, limit, schema, table }) => {
       const ref = parseTableRef(table, schema);
-      return jsonContent(
+      const idColumn = sanitizeIdentifier(id_column ?? "id", "id_column");
+      runtime.assertTableAccess(clientName, "read", ref, [idColumn]);
+      return rowsContent(
+        { caller, clientName, runtime },
+        [ref],
         await runtime.apiFetch("/gateway/fetch", clientName, {
           body: {
-            conditions: [
-              {
-                eq_column: sanitizeIdentifier(id_column ?? "id", "id_column"),
-                eq_value: String(id),
-              },
-            ],
+            conditions: [{ eq_column: idColumn, eq_value: String(id) }],
             limit: limit ?? 100,
             table_name: ref.qualified,
           },
@@ -570,107 +641,41 @@ export function registerDataTools(
 
   registerTool(server, runtime, {
     description:
-      "Return metadata for all tables in one call: schema, name, columns, types, defaults, nullable. Uses Athena schema API.",
+      "Return metadata for all tables in one call: schema, name, comment, columns (type, default, nullable, primary key, comment) " +
+      "and foreign keys. Filter with schema and table globs (* and ?) and page with limit/offset; tables are sorted by schema and name.",
     name: "list_all_table_metadata",
+    annotations: toolHints.read,
     shape: {
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Tables per page (default: all matching tables)"),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Matching tables to skip (default 0)"),
       schema: z
         .string()
         .optional()
-        .describe("Optional schema to limit to (default: all user schemas)"),
-    },
-    handler: async ({ clientName, runtime }, { schema }) => {
-      const tablesData = (await runtime.apiFetch("/schema/tables", clientName)) as {
-        tables?: Array<{ table_name?: string; table_schema?: string }>;
-      };
-      const tables = Array.isArray(tablesData.tables) ? tablesData.tables : [];
-      const filtered = schema
-        ? tables.filter((table) => table.table_schema === schema)
-        : tables.filter(
-            (table) =>
-              !(table.table_schema ?? "").startsWith("pg_") &&
-              table.table_schema !== "information_schema",
-          );
-
-      const metadata: Array<{
-        columns: Array<{
-          default: string | null;
-          name: string;
-          nullable: boolean;
-          primary_key: boolean;
-          type: string;
-        }>;
-        schema: string;
-        table: string;
-      }> = [];
-
-      for (const table of filtered) {
-        const schemaName = table.table_schema ?? "public";
-        const tableName = table.table_name ?? "";
-        const primaryKeys = await getPrimaryKeyColumns(
-          runtime,
-          clientName,
-          schemaName,
-          tableName,
-        );
-        const schemaLit = schemaName.replace(/'/g, "''");
-        const tableLit = tableName.replace(/'/g, "''");
-
-        let columns: Array<{
-          column_default?: string | null;
-          column_name?: string;
-          data_type?: string;
-          is_nullable?: string;
-        }> = [];
-
-        try {
-          const columnData = (await runtime.apiFetch(
-            `/schema/columns?table_name=${encodeURIComponent(tableName)}`,
-            clientName,
-          )) as { columns?: typeof columns };
-          columns = Array.isArray(columnData.columns) ? columnData.columns : [];
-        } catch {
-          columns = [];
-        }
-
-        if (columns.length === 0) {
-          try {
-            columns = queryResultToArray(
-              await runtime.runQuery(
-                `SELECT column_name, data_type, column_default, is_nullable FROM information_schema.columns WHERE table_schema = '${schemaLit}' AND table_name = '${tableLit}' ORDER BY ordinal_position`,
-                clientName,
-              ),
-            ) as typeof columns;
-          } catch {
-            columns = [];
-          }
-        }
-
-        metadata.push({
-          columns: columns.map((column) => ({
-            default: column.column_default ?? null,
-            name: column.column_name ?? "",
-            nullable: (column.is_nullable ?? "YES").toUpperCase() === "YES",
-            primary_key: primaryKeys.has((column.column_name ?? "").toLowerCase()),
-            type: column.data_type ?? "unknown",
-          })),
-          schema: schemaName,
-          table: tableName,
-        });
-      }
-
-      metadata.sort((left, right) =>
-        `${left.schema}.${left.table}`.localeCompare(
-          `${right.schema}.${right.table}`,
-        ),
-      );
-      return jsonContent(metadata);
+        .describe("Schema name or glob to limit to (default: all user schemas)"),
+      table: z
+        .string()
+        .optional()
+        .describe("Table name or glob, optionally schema-qualified (e.g. order_* or sales.*)"),
     },
+    handler: async ({ clientName, runtime }, options) =>
+      jsonContent(await listTableMetadata(runtime, clientName, options)),
   });
 
   registerTool(server, runtime, {
     description:
       "Insert a row into a table. Blocked when read_only mode is enabled.",
     name: "insert_row",
+    annotations: toolHints.create,
     shape: {
       data: z
         .record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))
@@ -681,8 +686,8 @@ export function registerDataTools(
         .describe("Optional schema when table name is not schema-qualified"),
       table: z.string().describe("Table name (optionally schema-qualified)"),
     },
-    handler: async ({ clientName, runtime }, { data, schema, table }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("insert_row");
+    handler: async ({ clientName, readOnly, runtime }, { data, schema, table }) => {
+      if (readOnly) return readOnlyToolError("insert_row");
       const ref = parseTableRef(table, schema);
       const insertBody = Object.fromEntries(
         Object.entries(data).map(([key, value]) => [
@@ -690,6 +695,7 @@ export function registerDataTools(
           value,
         ]),
       );
+      runtime.assertTableAccess(clientName, "write", ref, Object.keys(insertBody));
       return jsonContent(
         await runtime.apiFetch("/gateway/insert", clientName, {
           body: { insert_body: insertBody, table_name: ref.qualified },
@@ -703,6 +709,7 @@ export function registerDataTools(
     description:
       "Delete a row by primary key (resource_id). Blocked when read_only mode is enabled.",
     name: "delete_row",
+    annotations: toolHints.delete,
     shape: {
       resource_id: z.string().describe("Primary key value of the row to delete"),
       schema: z
@@ -711,9 +718,10 @@ export function registerDataTools(
         .describe("Optional schema when table name is not schema-qualified"),
       table: z.string().describe("Table name (optionally schema-qualified)"),
     },
-    handler: async ({ clientName, runtime }, { resource_id, schema, table }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("delete_row");
+    handler: async ({ clientName, readOnly, runtime }, { resource_id, schema, table }) => {
+      if (readOnly) return readOnlyToolError("delete_row");
       const ref = parseTableRef(table, schema);
+      runtime.assertTableAccess(clientName, "write", ref);
       return jsonContent(
         await runtime.apiFetch("/gateway/delete", clientName, {
           body: { resource_id, table_name: ref.qualified },
@@ -725,9 +733,17 @@ export function registerDataTools(
 
   registerTool(server, runtime, {
     description:
-      "Update rows matching a condition. Blocked when read_only mode is enabled.",
+      "Update rows matching a condition. Blocked when read_only mode is enabled. " +
+      "With dry_run the update is rolled back and the affected rows are previewed.",
     name: "update_row",
+    annotations: toolHints.update,
     shape: {
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "Run inside a transaction that is always rolled back and report affected rows, RETURNING previews and errors",
+        ),
       schema: z
         .string()
         .optional()
@@ -742,19 +758,25 @@ export function registerDataTools(
         .describe("Value to match (converted to string)"),
     },
     handler: async (
-      { clientName, runtime },
-      { schema, set, table, where_column, where_value },
+      { clientName, readOnly, runtime },
+      { dry_run, schema, set, table, where_column, where_value },
     ) => {
-      if (runtime.config.readOnly) return readOnlyToolError("update_row");
+      if (readOnly) return readOnlyToolError("update_row");
       const ref = parseTableRef(table, schema);
-      const setParts = Object.entries(set).map(([column, value]) => {
-        const columnName = sanitizeIdentifier(column, "column");
-        return `${columnName} = ${toSqlLiteral(value)}`;
-      });
-      const sql = `UPDATE ${ref.qualified} SET ${setParts.join(", ")} WHERE ${sanitizeIdentifier(where_column, "where_column")} = ${toSqlLiteral(where_value)}`;
-      return jsonContent({
-        result: await runtime.runQuery(sql, clientName),
-      });
+      const entries = Object.entries(set);
+      runtime.assertTableAccess(clientName, "write", ref, entries.map(([column]) => column));
+      const setParts = entries.map(
+        ([column], index) => `${sanitizeIdentifier(column, "column")} = $${index + 1}`,
+      );
+      const sql = `UPDATE ${ref.qualified} SET ${setParts.join(", ")} WHERE ${sanitizeIdentifier(where_column, "where_column")} = $${entries.length + 1}`;
+      const params = [...entries.map(([, value]) => value), where_value];
+      if (dry_run) {
+        // The rollback block is a single DO statement, so values cannot be bound and are inlined.
+        return dryRunSql("update_row", inlineSqlParams(`${sql} RETURNING *`, params), (wrapped) =>
+          runtime.runQuery(wrapped, clientName),
+        );
+      }
+      return jsonContent({ result: await runtime.runQuery(sql, clientName, params) });
     },
   });
 
@@ -762,8 +784,10 @@ export function registerDataTools(
     description:
       "Fetch rows from a table where `column = value` using Athena's fetch endpoint",
     name: "get_row_by_eq_column_of_table",
+    annotations: toolHints.read,
     shape: {
       column: z.string().describe("Column name to match against"),
+      format: resultFormatSchema,
       limit: z
         .number()
         .int()
@@ -781,32 +805,41 @@ export function registerDataTools(
         .union([z.string(), z.number(), z.boolean()])
         .describe("Value to compare (converted to string for Athena)"),
     },
-    handler: async ({ clientName, runtime }, { column, limit, schema, table, value }) => {
+    handler: async ({ caller, clientName, runtime }, { column, format, limit, schema, table, value }) => {
       const ref = parseTableRef(table, schema);
-      return jsonContent(
+      const eqColumn = sanitizeIdentifier(column, "column");
+      runtime.assertTableAccess(clientName, "read", ref, [eqColumn]);
+      return rowsContent(
+        { caller, clientName, runtime },
+        [ref],
         await runtime.apiFetch("/gateway/fetch", clientName, {
           body: {
-            conditions: [
-              {
-                eq_column: sanitizeIdentifier(column, "column"),
-                eq_value: String(value),
-              },
-            ],
+            conditions: [{ eq_column: eqColumn, eq_value: String(value) }],
             limit: limit ?? 100,
             table_name: ref.qualified,
           },
           method: "POST",
         }),
+        format,
       );
     },
   });
 
   registerTool(server, runtime, {
     description:
-      "Execute a raw SQL query. Write keywords are blocked under READ_ONLY mode. " +
-      "Supports db_name and driver selection when the gateway exposes multiple backends.",
+      "Execute a raw SQL query. Under READ_ONLY mode every statement is classified and writes are rejected. " +
+      "Supports db_name and driver selection when the gateway exposes multiple backends. " +
+      "With dry_run the statements are executed and rolled back, reporting row counts, RETURNING previews and errors.",
     name: "execute_sql",
+    annotations: toolHints.query,
+    runsInReadOnly: true,
     shape: {
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "Run inside a transaction that is always rolled back and report affected rows, RETURNING previews and errors",
+        ),
       db_name: z
         .string()
         .optional()
@@ -815,36 +848,54 @@ export function registerDataTools(
         .enum(["athena", "postgresql", "supabase"])
         .optional()
         .describe("Driver to use (defaults to standard Athena query endpoint)"),
+      format: resultFormatSchema,
       query: z.string().describe("The SQL query to execute"),
     },
-    handler: async ({ clientName, runtime }, { db_name, driver, query }) => {
-      if (runtime.config.readOnly && isWriteQuery(query)) {
-        return readOnlyToolError("execute_sql");
-      }
+    handler: async ({ caller, clientName, readOnly, runtime }, { db_name, driver, dry_run, format, query }) => {
+      const blocked = readOnly ? findWriteStatement(query) : undefined;
+      if (blocked) return readOnlySqlError("execute_sql", blocked);
+      const tables = runtime.assertSqlAccess(clientName, query);
 
-      if (driver && db_name) {
-        return jsonContent(
-          await runtime.apiFetch("/query/sql", clientName, {
-            body: {
-              db_name,
-              driver,
-              query: query.trim().replace(/;\s*$/, ""),
-            },
-            method: "POST",
-          }),
-        );
-      }
+      const execute = (sql: string) =>
+        driver && db_name
+          ? runtime.apiFetch("/query/sql", clientName, {
+              body: {
+                db_name,
+                driver,
+                query: sql.trim().replace(/;\s*$/, ""),
+              },
+              method: "POST",
+            })
+          : runtime.runQuery(sql, clientName);
 
-      return jsonContent(await runtime.runQuery(query, clientName));
+      if (dry_run) return dryRunSql("execute_sql", query, execute);
+      const result = await execute(query);
+      if (changesSchema(query)) runtime.schemaChanged(clientName);
+      return rowsContent({ caller, clientName, runtime }, tables, result, format);
     },
   });
 
+  registerTool(server, runtime, {
+    description:
+      "Fetch the next page of a result that was cut at the server's row cap or byte budget. " +
+      "Pass the next_cursor from the truncated response; cursors are single-use and expire after ten minutes.",
+    name: "fetch_next_page",
+    annotations: toolHints.read,
+    shape: {
+      cursor: z.string().describe("next_cursor from a truncated result"),
+      format: resultFormatSchema,
+    },
+    handler: async ({ caller, clientName, runtime }, { cursor, format }) =>
+      nextPageContent({ caller, clientName, runtime }, cursor, format),
+  });
+
   registerTool(server, runtime, {
     description:
       "Fetch Athena API root metadata, including the advertised route list.",
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/", clientName)),
     name: "get_api_root",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
@@ -852,6 +903,7 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       textContent(String(await runtime.apiFetch("/ping", clientName))),
     name: "ping",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
@@ -860,6 +912,47 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/health/cluster", clientName)),
     name: "get_cluster_health",
+    annotations: toolHints.read,
+    outputSchema: clusterHealthOutputSchema,
+  });
+
+  registerTool(server, runtime, {
+    description:
+      "Show this server's per-client circuit breaker state, in-flight/queued request counts and mirror status. " +
+      "Does not call Athena.",
+    handler: async ({ caller, runtime }) =>
+      jsonContent(runtime.getClientHealth(runtime.getAllowedClients(caller))),
+    name: "get_client_health",
+    annotations: toolHints.read,
+    outputSchema: clientHealthOutputSchema,
+  });
+
+  registerTool(server, runtime, {
+    description:
+      "Show the current client's cached schema metadata (table lists, columns, primary keys) and when each entry expires. " +
+      "Pass flush: true to drop it, e.g. after a schema change made outside this server. Does not call Athena.",
+    handler: async ({ clientName, runtime }, { flush }) => {
+      const entries = runtime.getSchemaCacheEntries(clientName).map((entry) => ({
+        expires_at: new Date(entry.expiresAt).toISOString(),
+        key: entry.key,
+      }));
+      return jsonContent({
+        client: clientName,
+        entries,
+        ...(flush ? { flushed: runtime.flushSchemaCache(clientName) } : {}),
+        ttl_ms: runtime.config.schemaCacheTtlMs,
+      });
+    },
+    name: "schema_cache",
+    // Flushing only drops cached reads, so it stays available in read-only mode.
+    annotations: toolHints.update,
+    runsInReadOnly: true,
+    shape: {
+      flush: z
+        .boolean()
+        .optional()
+        .describe("Drop the cached entries after listing them"),
+    },
   });
 
   registerTool(server, runtime, {
@@ -868,12 +961,14 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/management/capabilities", clientName)),
     name: "get_management_capabilities",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description:
       "Create a managed table through Athena's management API. Blocked when read_only mode is enabled.",
     name: "create_table",
+    annotations: toolHints.create,
     shape: {
       columns: z
         .array(managementColumnSchema)
@@ -890,15 +985,16 @@ export function registerDataTools(
       table_name: z.string().describe("Table name to create"),
     },
     handler: async (
-      { clientName, runtime },
+      { clientName, readOnly, runtime },
       { columns, if_not_exists, schema_name, table_name },
     ) => {
-      if (runtime.config.readOnly) return readOnlyToolError("create_table");
+      if (readOnly) return readOnlyToolError("create_table");
+      runtime.assertTableAccess(clientName, "write", parsePolicyTableRef(table_name, schema_name));
       return jsonContent(
-        await runtime.apiFetch("/management/tables", clientName, {
+        await schemaChange(runtime, clientName, runtime.apiFetch("/management/tables", clientName, {
           body: { columns, if_not_exists, schema_name, table_name },
           method: "POST",
-        }),
+        })),
       );
     },
   });
@@ -907,6 +1003,7 @@ export function registerDataTools(
     description:
       "Apply safe additive ALTER TABLE operations through Athena's management API. Blocked when read_only mode is enabled.",
     name: "edit_table",
+    annotations: toolHints.create,
     shape: {
       operations: z
         .array(editTableOperationSchema)
@@ -917,17 +1014,18 @@ export function registerDataTools(
         .describe("Schema name (defaults to public)"),
       table_name: z.string().describe("Target table name"),
     },
-    handler: async ({ clientName, runtime }, { operations, schema_name, table_name }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("edit_table");
+    handler: async ({ clientName, readOnly, runtime }, { operations, schema_name, table_name }) => {
+      if (readOnly) return readOnlyToolError("edit_table");
+      runtime.assertTableAccess(clientName, "write", parsePolicyTableRef(table_name, schema_name));
       return jsonContent(
-        await runtime.apiFetch(
+        await schemaChange(runtime, clientName, runtime.apiFetch(
           `/management/tables/${encodeURIComponent(table_name)}`,
           clientName,
           {
             body: { operations, schema_name },
             method: "PATCH",
           },
-        ),
+        )),
       );
     },
   });
@@ -936,6 +1034,7 @@ export function registerDataTools(
     description:
       "Drop a managed table through Athena's management API. Blocked when read_only mode is enabled.",
     name: "drop_table",
+    annotations: toolHints.delete,
     shape: {
       cascade: z.boolean().optional().describe("Whether to cascade the drop"),
       schema_name: z
@@ -944,17 +1043,18 @@ export function registerDataTools(
         .describe("Schema name (defaults to public)"),
       table_name: z.string().describe("Target table name"),
     },
-    handler: async ({ clientName, runtime }, { cascade, schema_name, table_name }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("drop_table");
+    handler: async ({ clientName, readOnly, runtime }, { cascade, schema_name, table_name }) => {
+      if (readOnly) return readOnlyToolError("drop_table");
+      runtime.assertTableAccess(clientName, "write", parsePolicyTableRef(table_name, schema_name));
       return jsonContent(
-        await runtime.apiFetch(
+        await schemaChange(runtime, clientName, runtime.apiFetch(
           `/management/tables/${encodeURIComponent(table_name)}`,
           clientName,
           {
             body: { cascade, schema_name },
             method: "DELETE",
           },
-        ),
+        )),
       );
     },
   });
@@ -963,6 +1063,7 @@ export function registerDataTools(
     description:
       "Drop a managed table column through Athena's management API. Blocked when read_only mode is enabled.",
     name: "drop_column",
+    annotations: toolHints.delete,
     shape: {
       cascade: z.boolean().optional().describe("Whether to cascade the drop"),
       column_name: z.string().describe("Column name to drop"),
@@ -973,19 +1074,20 @@ export function registerDataTools(
       table_name: z.string().describe("Target table name"),
     },
     handler: async (
-      { clientName, runtime },
+      { clientName, readOnly, runtime },
       { cascade, column_name, schema_name, table_name },
     ) => {
-      if (runtime.config.readOnly) return readOnlyToolError("drop_column");
+      if (readOnly) return readOnlyToolError("drop_column");
+      runtime.assertTableAccess(clientName, "write", parsePolicyTableRef(table_name, schema_name), [column_name]);
       return jsonContent(
-        await runtime.apiFetch(
+        await schemaChange(runtime, clientName, runtime.apiFetch(
           `/management/tables/${encodeURIComponent(table_name)}/columns/${encodeURIComponent(column_name)}`,
           clientName,
           {
             body: { cascade, schema_name },
             method: "DELETE",
           },
-        ),
+        )),
       );
     },
   });
@@ -994,6 +1096,7 @@ export function registerDataTools(
     description:
       "Create an index through Athena's management API. Blocked when read_only mode is enabled.",
     name: "create_index",
+    annotations: toolHints.create,
     shape: {
       columns: z.array(z.string()).describe("Columns included in the index"),
       index_name: z.string().optional().describe("Optional explicit index name"),
@@ -1009,12 +1112,13 @@ export function registerDataTools(
       unique: z.boolean().optional().describe("Whether the index is unique"),
     },
     handler: async (
-      { clientName, runtime },
+      { clientName, readOnly, runtime },
       { columns, index_name, method, schema_name, table_name, unique },
     ) => {
-      if (runtime.config.readOnly) return readOnlyToolError("create_index");
+      if (readOnly) return readOnlyToolError("create_index");
+      runtime.assertTableAccess(clientName, "write", parsePolicyTableRef(table_name, schema_name), columns);
       return jsonContent(
-        await runtime.apiFetch("/management/indexes", clientName, {
+        await schemaChange(runtime, clientName, runtime.apiFetch("/management/indexes", clientName, {
           body: {
             columns,
             index_name,
@@ -1024,7 +1128,7 @@ export function registerDataTools(
             unique,
           },
           method: "POST",
-        }),
+        })),
       );
     },
   });
@@ -1033,6 +1137,7 @@ export function registerDataTools(
     description:
       "Drop an index through Athena's management API. Blocked when read_only mode is enabled.",
     name: "drop_index",
+    annotations: toolHints.delete,
     shape: {
       index_name: z.string().describe("Index name to drop"),
       schema_name: z
@@ -1040,17 +1145,17 @@ export function registerDataTools(
         .optional()
         .describe("Schema name (defaults to public)"),
     },
-    handler: async ({ clientName, runtime }, { index_name, schema_name }) => {
-      if (runtime.config.readOnly) return readOnlyToolError("drop_index");
+    handler: async ({ clientName, readOnly, runtime }, { index_name, schema_name }) => {
+      if (readOnly) return readOnlyToolError("drop_index");
       return jsonContent(
-        await runtime.apiFetch(
+        await schemaChange(runtime, clientName, runtime.apiFetch(
           `/management/indexes/${encodeURIComponent(index_name)}`,
           clientName,
           {
             body: { schema_name },
             method: "DELETE",
           },
-        ),
+        )),
       );
     },
   });
@@ -1058,6 +1163,7 @@ export function registerDataTools(
   registerTool(server, runtime, {
     description: "Run a config-driven Athena pipeline (source -> transform -> sink).",
     name: "run_pipeline",
+    annotations: toolHints.create,
     shape: {
       pipeline: z
         .string()
@@ -1082,18 +1188,24 @@ export function registerDataTools(
     description:
       "List the Athena clients configured for this MCP server and, when available, the remote Athena client catalog response.",
     name: "list_available_clients",
-    handler: async ({ clientName, runtime }) => {
+    annotations: toolHints.read,
+    handler: async ({ caller, clientName, runtime }) => {
+      const configured = {
+        caller: caller?.name ?? null,
+        configured_clients: runtime.getAllowedClients(caller),
+        default_client: runtime.getDefaultClient(caller),
+        mirrors: runtime.getMirrorStatus(runtime.getAllowedClients(caller)),
+        profile: runtime.config.profile ?? null,
+      };
       try {
         const remote = await runtime.apiFetch("/clients", clientName);
         return jsonContent({
-          configured_clients: runtime.config.availableClients,
-          default_client: runtime.config.defaultClient,
+          ...configured,
           remote_clients: remote,
         });
       } catch (error) {
         return jsonContent({
-          configured_clients: runtime.config.availableClients,
-          default_client: runtime.config.defaultClient,
+          ...configured,
           remote_error: String(error),
         });
       }
@@ -1105,6 +1217,7 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/router/registry", clientName)),
     name: "list_router_registry",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
@@ -1112,11 +1225,13 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/registry", clientName)),
     name: "list_registry_entries",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
     description: "Fetch a specific API registry entry by ID.",
     name: "get_registry_entry",
+    annotations: toolHints.read,
     shape: {
       api_registry_id: z.string().describe("Registry row identifier"),
     },
@@ -1134,6 +1249,7 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       textContent(String(await runtime.apiFetch("/metrics", clientName))),
     name: "get_metrics",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
@@ -1141,6 +1257,7 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       textContent(String(await runtime.apiFetch("/openapi.yaml", clientName))),
     name: "get_embedded_openapi",
+    annotations: toolHints.read,
   });
 
   registerTool(server, runtime, {
@@ -1148,5 +1265,6 @@ export function registerDataTools(
     handler: async ({ clientName, runtime }) =>
       jsonContent(await runtime.apiFetch("/wss/info", clientName)),
     name: "get_websocket_info",
+    annotations: toolHints.read,
   });
 }
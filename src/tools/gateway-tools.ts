@@ -1,15 +1,20 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { parsePolicyTableRef } from "../policy.js";
 import { jsonContent } from "../responses.js";
 import type { AthenaRuntime } from "../runtime.js";
-import { readOnlyToolError } from "../runtime.js";
-import { registerTool } from "../tooling.js";
+import { changesSchema, findWriteStatement } from "../query.js";
+import { rowsContent } from "../result-pages.js";
+import { resultFormatSchema } from "../schemas.js";
+import { readOnlySqlError, readOnlyToolError } from "../runtime.js";
+import { registerTool, toolHints } from "../tooling.js";
 
 const gatewayFetchSchema = {
   table_name: z.string(),
   select: z.string().optional(),
   where: z.record(z.string(), z.unknown()).optional(),
   limit: z.number().int().optional(),
+  format: resultFormatSchema,
 };
 
 const gatewayInsertSchema = {
@@ -35,18 +40,32 @@ export function registerGatewayTools(
       "Low-level /gateway/fetch (or SDK equivalent). Use for precise control over fetch semantics. " +
       "For most cases prefer the higher level row tools or sdk_db_select.",
     name: "gateway_fetch",
+    annotations: toolHints.read,
     shape: gatewayFetchSchema,
-    handler: async ({ clientName, runtime }, input) => {
+    handler: async ({ caller, clientName, runtime }, { format, ...input }) => {
+      const ref = parsePolicyTableRef(input.table_name);
+      runtime.assertTableAccess(clientName, "read", ref, Object.keys(input.where ?? {}));
+      const limit = input.limit ?? runtime.getPolicy(clientName).maxRows;
       try {
         const client = runtime.getSdkClient(clientName) as any;
         if (client?.db?.from) {
           let b = client.db.from(input.table_name);
           if (input.select) b = b.select(input.select);
           if (input.where) Object.entries(input.where).forEach(([k, v]) => { if (b.eq) b = b.eq(k, v); });
-          if (input.limit && b.limit) b = b.limit(input.limit);
-          return jsonContent(await b.findMany());
+          if (limit && b.limit) b = b.limit(limit);
+          return rowsContent(
+            { caller, clientName, runtime },
+            [ref],
+            await runtime.withClientLimits(clientName, () => b.findMany()),
+            format,
+          );
         }
-        return jsonContent(await runtime.apiFetch("/gateway/fetch", clientName, { method: "POST", body: input }));
+        return rowsContent(
+          { caller, clientName, runtime },
+          [ref],
+          await runtime.apiFetch("/gateway/fetch", clientName, { method: "POST", body: { ...input, limit } }),
+          format,
+        );
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
       }
@@ -56,13 +75,23 @@ export function registerGatewayTools(
   registerTool(server, runtime, {
     description: "Direct insert using the /gateway/insert contract (or SDK). Write-blocked in read-only mode.",
     name: "gateway_insert",
+    annotations: toolHints.create,
     shape: gatewayInsertSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("gateway_insert");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("gateway_insert");
+      const rows = Array.isArray(input.insert_body) ? input.insert_body : [input.insert_body];
+      runtime.assertTableAccess(
+        clientName,
+        "write",
+        parsePolicyTableRef(input.table_name),
+        rows.flatMap((row) => Object.keys(row)),
+      );
       try {
         const client = runtime.getSdkClient(clientName) as any;
         if (client?.db?.from) {
-          return jsonContent(await client.db.from(input.table_name).insert(input.insert_body));
+          return jsonContent(
+            await runtime.withClientLimits(clientName, () => client.db.from(input.table_name).insert(input.insert_body)),
+          );
         }
         return jsonContent(await runtime.apiFetch("/gateway/insert", clientName, { method: "POST", body: input }));
       } catch (e: any) {
@@ -74,11 +103,14 @@ export function registerGatewayTools(
   registerTool(server, runtime, {
     description: "Invoke a named RPC function via the canonical /gateway/rpc/{function_name} path.",
     name: "gateway_rpc",
+    annotations: toolHints.query,
+    runsInReadOnly: true,
     shape: gatewayRpcSchema,
-    handler: async ({ clientName, runtime }, input) => {
+    handler: async ({ caller, clientName, runtime }, input) => {
       try {
         const path = `/gateway/rpc/${encodeURIComponent(input.function_name)}`;
-        return jsonContent(await runtime.apiFetch(path, clientName, { method: "POST", body: { args: input.args ?? {} } }));
+        const res = await runtime.apiFetch(path, clientName, { method: "POST", body: { args: input.args ?? {} } });
+        return rowsContent({ caller, clientName, runtime }, [], res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
       }
@@ -91,16 +123,24 @@ export function registerGatewayTools(
       "The driver parameter selects the execution backend when supported. " +
       "Write statements are rejected when the server is in read-only mode.",
     name: "gateway_sql",
+    annotations: toolHints.query,
+    runsInReadOnly: true,
     shape: {
       sql: z.string().describe("SQL statement to run"),
       driver: z.enum(["athena", "postgresql", "supabase"]).optional().describe("Execution driver"),
+      format: resultFormatSchema,
     },
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly && /insert|update|delete|drop|create|alter|truncate|grant|revoke/i.test(input.sql)) {
-        return readOnlyToolError("gateway_sql");
-      }
+    handler: async ({ caller, clientName, readOnly, runtime }, input) => {
+      const blocked = readOnly ? findWriteStatement(input.sql) : undefined;
+      if (blocked) return readOnlySqlError("gateway_sql", blocked);
+      const tables = runtime.assertSqlAccess(clientName, input.sql);
       try {
-        return jsonContent(await runtime.apiFetch("/gateway/sql", clientName, { method: "POST", body: input }));
+        const res = await runtime.apiFetch("/gateway/sql", clientName, {
+          method: "POST",
+          body: { driver: input.driver, sql: input.sql },
+        });
+        if (changesSchema(input.sql)) runtime.schemaChanged(clientName);
+        return rowsContent({ caller, clientName, runtime }, tables, res, input.format);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
       }
@@ -110,6 +150,7 @@ export function registerGatewayTools(
   registerTool(server, runtime, {
     description: "List database views using the management API surface (/management/views).",
     name: "list_views_management",
+    annotations: toolHints.read,
     shape: { schema: z.string().optional().describe("Optional schema filter") },
     handler: async ({ clientName, runtime }, input) => {
       try {
@@ -124,6 +165,7 @@ export function registerGatewayTools(
   registerTool(server, runtime, {
     description: "List functions exposed through the management API.",
     name: "list_management_functions",
+    annotations: toolHints.read,
     handler: async ({ clientName, runtime }) => {
       try {
         return jsonContent(await runtime.apiFetch("/management/functions", clientName));
@@ -136,6 +178,7 @@ export function registerGatewayTools(
   registerTool(server, runtime, {
     description: "Return management capabilities for the current client (rights required for various operations). Alias of get_management_capabilities.",
     name: "management_capabilities",
+    annotations: toolHints.read,
     handler: async ({ clientName, runtime }) => {
       try {
         return jsonContent(await runtime.apiFetch("/management/capabilities", clientName));
@@ -24,6 +24,8 @@ describe("new SDK module tools registration", () => {
   const runtimeDouble = {
     config: { readOnly: false },
     getClientSelectorSchema: () => undefined,
+    isReadOnlyEverywhere: () => false,
+    requiresConfirmation: () => false,
     getAuthModule: () => ({}),
     getChatModule: () => ({ room: {}, message: {}, realtime: {} }),
     getDbModule: () => ({ from: () => ({}) }),
@@ -1,9 +1,13 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { parsePolicyTableRef } from "../policy.js";
 import { jsonContent } from "../responses.js";
 import type { AthenaRuntime } from "../runtime.js";
-import { readOnlyToolError } from "../runtime.js";
-import { registerTool } from "../tooling.js";
+import { changesSchema, findWriteStatement } from "../query.js";
+import { rowsContent } from "../result-pages.js";
+import { resultFormatSchema } from "../schemas.js";
+import { readOnlySqlError, readOnlyToolError } from "../runtime.js";
+import { registerTool, toolHints } from "../tooling.js";
 
 const tableNameSchema = { table: z.string().describe("Table name (optionally schema qualified)") };
 
@@ -14,6 +18,7 @@ const sdkSelectSchema = {
   limit: z.number().int().positive().optional(),
   offset: z.number().int().nonnegative().optional(),
   order: z.string().optional().describe("Order clause e.g. created_at.desc"),
+  format: resultFormatSchema,
 };
 
 const sdkInsertSchema = {
@@ -58,8 +63,12 @@ export function registerSdkDbTools(
       "Excellent for relations (select: '*, profile(*)'), filters, ordering and pagination. " +
       "This is often preferable to raw SQL for discoverability.",
     name: "sdk_db_select",
+    annotations: toolHints.read,
     shape: sdkSelectSchema,
-    handler: async ({ clientName, runtime }, input) => {
+    handler: async ({ caller, clientName, runtime }, input) => {
+      const ref = parsePolicyTableRef(input.table);
+      runtime.assertTableAccess(clientName, "read", ref, Object.keys(input.filters ?? {}));
+      const limit = input.limit ?? runtime.getPolicy(clientName).maxRows;
       try {
         const db = runtime.getDbModule(clientName);
         let builder = db.from(input.table);
@@ -70,10 +79,10 @@ export function registerSdkDbTools(
           }
         }
         if (input.order && (builder as any).order) builder = (builder as any).order(input.order);
-        if (input.limit != null && (builder as any).limit) builder = (builder as any).limit(input.limit);
+        if (limit != null && (builder as any).limit) builder = (builder as any).limit(limit);
         if (input.offset != null && (builder as any).offset) builder = (builder as any).offset(input.offset);
-        const res = await builder.findMany();
-        return jsonContent(res);
+        const res = await runtime.withClientLimits(clientName, () => builder.findMany());
+        return rowsContent({ caller, clientName, runtime }, [ref], res, input.format);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
       }
@@ -85,13 +94,23 @@ export function registerSdkDbTools(
       "Insert (or upsert) one or many rows using the official SDK insert/upsert builders. " +
       "Blocked in read-only mode. Returns the inserted rows (or count) on success.",
     name: "sdk_db_insert",
+    annotations: toolHints.create,
     shape: sdkInsertSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("sdk_db_insert");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("sdk_db_insert");
+      const rows = Array.isArray(input.data) ? input.data : [input.data];
+      runtime.assertTableAccess(
+        clientName,
+        "write",
+        parsePolicyTableRef(input.table),
+        rows.flatMap((row) => Object.keys(row)),
+      );
       try {
         const db = runtime.getDbModule(clientName);
         const b = db.from(input.table);
-        const res = input.upsert ? await b.upsert(input.data as any) : await b.insert(input.data as any);
+        const res = await runtime.withClientLimits(clientName, () =>
+          input.upsert ? b.upsert(input.data as any) : b.insert(input.data as any),
+        );
         return jsonContent(res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
@@ -104,16 +123,18 @@ export function registerSdkDbTools(
       "Update matching rows using the SDK update builder + filters. " +
       "Blocked when READ_ONLY=true.",
     name: "sdk_db_update",
+    annotations: toolHints.update,
     shape: sdkUpdateSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("sdk_db_update");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("sdk_db_update");
+      runtime.assertTableAccess(clientName, "write", parsePolicyTableRef(input.table), Object.keys(input.set));
       try {
         const db = runtime.getDbModule(clientName);
         let b = db.from(input.table);
         for (const [k, v] of Object.entries(input.filters)) {
           if ((b as any).eq) b = (b as any).eq(k, v);
         }
-        const res = await b.update(input.set as any);
+        const res = await runtime.withClientLimits(clientName, () => b.update(input.set as any));
         return jsonContent(res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
@@ -126,16 +147,18 @@ export function registerSdkDbTools(
       "Delete rows matching filters using the SDK delete builder. " +
       "Blocked in read-only mode.",
     name: "sdk_db_delete",
+    annotations: toolHints.delete,
     shape: sdkDeleteSchema,
-    handler: async ({ clientName, runtime }, input) => {
-      if (runtime.config.readOnly) return readOnlyToolError("sdk_db_delete");
+    handler: async ({ clientName, readOnly, runtime }, input) => {
+      if (readOnly) return readOnlyToolError("sdk_db_delete");
+      runtime.assertTableAccess(clientName, "write", parsePolicyTableRef(input.table));
       try {
         const db = runtime.getDbModule(clientName);
         let b = db.from(input.table);
         for (const [k, v] of Object.entries(input.filters)) {
           if ((b as any).eq) b = (b as any).eq(k, v);
         }
-        const res = await b.delete();
+        const res = await runtime.withClientLimits(clientName, () => b.delete());
         return jsonContent(res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
@@ -148,12 +171,14 @@ export function registerSdkDbTools(
       "Call a Postgres stored procedure / RPC function using the SDK db.rpc(name, args). " +
       "Returns the function result set.",
     name: "sdk_db_rpc",
+    annotations: toolHints.query,
+    runsInReadOnly: true,
     shape: sdkRpcSchema,
-    handler: async ({ clientName, runtime }, input) => {
+    handler: async ({ caller, clientName, runtime }, input) => {
       try {
         const db = runtime.getDbModule(clientName);
-        const res = await db.rpc(input.function_name, input.args ?? {});
-        return jsonContent(res);
+        const res = await runtime.withClientLimits(clientName, () => db.rpc(input.function_name, input.args ?? {}));
+        return rowsContent({ caller, clientName, runtime }, [], res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
       }
@@ -163,18 +188,26 @@ export function registerSdkDbTools(
   registerTool(server, runtime, {
     description:
       "Execute an arbitrary query string using the SDK's query surface (client.query or db.query). " +
-      "Falls back to the gateway /query endpoint when necessary.",
+      "Falls back to the gateway /query endpoint when necessary. Statements that write are rejected in read-only mode.",
     name: "sdk_db_query",
+    annotations: toolHints.query,
+    runsInReadOnly: true,
     shape: {
       query: z.string().describe("SQL query or gateway query object"),
       params: z.array(z.unknown()).optional().describe("Optional positional parameters"),
     },
-    handler: async ({ clientName, runtime }, input) => {
+    handler: async ({ caller, clientName, readOnly, runtime }, input) => {
+      const blocked = readOnly ? findWriteStatement(input.query) : undefined;
+      if (blocked) return readOnlySqlError("sdk_db_query", blocked);
+      const tables = runtime.assertSqlAccess(clientName, input.query);
       try {
         const client = runtime.getSdkClient(clientName) as any;
         const q = client.query || (await runtime.getDbModule(clientName)).query;
-        const res = typeof q === "function" ? await q(input.query, input.params) : await runtime.apiFetch("/gateway/query", clientName, { method: "POST", body: { query: input.query } });
-        return jsonContent(res);
+        const res = typeof q === "function"
+          ? await runtime.withClientLimits(clientName, () => q(input.query, input.params))
+          : await runtime.apiFetch("/gateway/query", clientName, { method: "POST", body: { query: input.query } });
+        if (changesSchema(input.query)) runtime.schemaChanged(clientName);
+        return rowsContent({ caller, clientName, runtime }, tables, res);
       } catch (e: any) {
         return jsonContent({ error: String(e?.message || e) });
       }
@@ -185,11 +218,12 @@ export function registerSdkDbTools(
     description:
       "Call the SDK's verifyConnection() helper. Returns connection health, version info, and latency when supported by the backend.",
     name: "sdk_verify_connection",
+    annotations: toolHints.read,
     handler: async ({ clientName, runtime }) => {
       try {
         const client = runtime.getSdkClient(clientName) as any;
         const res = typeof client.verifyConnection === "function"
-          ? await client.verifyConnection()
+          ? await runtime.withClientLimits(clientName, () => client.verifyConnection())
           : await runtime.apiFetch("/ping", clientName);
         return jsonContent(res);
       } catch (e: any) {
@@ -26,6 +26,17 @@ function createServerDouble(): {
   };
 }
 
+// Stdio-style calls: no authenticated caller, no per-caller restrictions.
+const callerStubs = {
+  assertToolAllowed: () => {},
+  assertToolPolicy: () => {},
+  clampLimit: (_client: string, limit: number) => limit,
+  isReadOnly: () => false,
+  isReadOnlyEverywhere: () => false,
+  resolveCaller: () => undefined,
+  withClientLimits: (_client: string, run: () => Promise<unknown>) => run(),
+};
+
 function parseToolResult(result: unknown): unknown {
   const text = (result as { content: [{ text: string }] }).content[0].text;
   return JSON.parse(text);
@@ -36,6 +47,8 @@ describe("registerStorageTools", () => {
     const server = createServerDouble();
     const runtime = {
       getClientSelectorSchema: () => undefined,
+      isReadOnlyEverywhere: () => false,
+      requiresConfirmation: () => false,
     } as const;
 
     registerStorageTools(server as never, runtime as never);
@@ -96,7 +109,9 @@ describe("registerStorageTools", () => {
     const resolveClientName = vi.fn().mockReturnValue("analytics");
     const server = createServerDouble();
     const runtime = {
+      ...callerStubs,
       getClientSelectorSchema: () => z.enum(["primary", "analytics"]).optional(),
+      requiresConfirmation: () => false,
       getStorageSdkClient: vi.fn().mockReturnValue({
         storage: {
           object: { exists },
@@ -123,7 +138,7 @@ describe("registerStorageTools", () => {
       },
     });
 
-    expect(resolveClientName).toHaveBeenCalledWith("analytics");
+    expect(resolveClientName).toHaveBeenCalledWith("analytics", undefined);
     expect(runtime.getStorageSdkClient).toHaveBeenCalledWith("analytics");
     expect(exists).toHaveBeenCalledWith({
       endpoint: "https://s3.example.com",
@@ -140,7 +155,9 @@ describe("registerStorageTools", () => {
     const uploadBinary = vi.fn().mockResolvedValue({ uploaded: true });
     const server = createServerDouble();
     const runtime = {
+      ...callerStubs,
       getClientSelectorSchema: () => undefined,
+      requiresConfirmation: () => false,
       getStorageSdkClient: vi.fn().mockReturnValue({
         storage: {
           file: { uploadBinary },
@@ -167,7 +184,9 @@ describe("registerStorageTools", () => {
     const uploadBinary = vi.fn();
     const server = createServerDouble();
     const runtime = {
+      ...callerStubs,
       getClientSelectorSchema: () => undefined,
+      requiresConfirmation: () => false,
       getStorageSdkClient: vi.fn().mockReturnValue({
         storage: {
           file: { uploadBinary },
@@ -206,7 +225,9 @@ describe("registerStorageTools", () => {
     );
     const server = createServerDouble();
     const runtime = {
+      ...callerStubs,
       getClientSelectorSchema: () => undefined,
+      requiresConfirmation: () => false,
       getStorageSdkClient: vi.fn().mockReturnValue({
         storage: {
           file: { proxy },
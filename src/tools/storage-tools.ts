@@ -1,17 +1,19 @@
 import type { AthenaSdkClientWithStorage } from "@xylex-group/athena";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { jsonContent } from "../responses.js";
 import { stringRecordSchema } from "../schemas.js";
 import type { AthenaRuntime, BinarySummary } from "../runtime.js";
-import { registerTool } from "../tooling.js";
+import { registerTool, toolHints } from "../tooling.js";
 
 
 
-type StorageModule = NonNullable<AthenaSdkClientWithStorage<false>["storage"]>;
+export type StorageModule = NonNullable<AthenaSdkClientWithStorage<false>["storage"]>;
 type StorageInput<TShape extends z.ZodRawShape> = z.output<z.ZodObject<TShape>>;
 
 interface StorageToolBase {
+  annotations: ToolAnnotations;
   description: string;
   name: string;
 }
@@ -43,7 +45,7 @@ function hasShape<TShape extends z.ZodRawShape>(
   return definition.shape !== undefined;
 }
 
-function getStorageModule(
+export function getStorageModule(
   runtime: AthenaRuntime,
   clientName: string,
 ): StorageModule {
@@ -76,22 +78,30 @@ function registerStorageTool<TShape extends z.ZodRawShape>(
 ): void {
   if (hasShape(definition)) {
     registerTool(server, runtime, {
+      annotations: definition.annotations,
       description: definition.description,
       name: definition.name,
       shape: definition.shape,
       handler: async ({ clientName, runtime }, input) =>
         jsonContent(
-          await definition.run(getStorageModule(runtime, clientName), input),
+          await runtime.withClientLimits(clientName, () =>
+            definition.run(getStorageModule(runtime, clientName), input),
+          ),
         ),
     });
     return;
   }
 
   registerTool(server, runtime, {
+    annotations: definition.annotations,
     description: definition.description,
     name: definition.name,
     handler: async ({ clientName, runtime }) =>
-      jsonContent(await definition.run(getStorageModule(runtime, clientName))),
+      jsonContent(
+        await runtime.withClientLimits(clientName, () =>
+          definition.run(getStorageModule(runtime, clientName)),
+        ),
+      ),
   });
 }
 
@@ -156,18 +166,21 @@ export function registerStorageTools(
     description:
       "List managed Athena storage credentials using the storage SDK binding.",
     name: "storage_credentials_list",
+    annotations: toolHints.read,
     run: async (storage) => storage.credentials.list(),
   });
 
   registerStorageTool(server, runtime, {
     description: "List managed Athena storage catalogs.",
     name: "storage_catalog_list",
+    annotations: toolHints.read,
     run: async (storage) => storage.catalog.list(),
   });
 
   registerStorageTool(server, runtime, {
     description: "Create a managed Athena storage catalog.",
     name: "storage_catalog_create",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe("CreateStorageCatalogRequest payload"),
     },
@@ -180,6 +193,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Update a managed Athena storage catalog.",
     name: "storage_catalog_update",
+    annotations: toolHints.update,
     shape: {
       id: z.string().describe("Storage catalog ID"),
       input: genericStorageInputSchema.describe("UpdateStorageCatalogRequest payload"),
@@ -190,6 +204,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a managed Athena storage catalog.",
     name: "storage_catalog_delete",
+    annotations: toolHints.delete,
     shape: {
       id: z.string().describe("Storage catalog ID"),
     },
@@ -199,6 +214,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create an upload URL for a managed Athena storage file.",
     name: "storage_file_upload",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe("CreateStorageUploadUrlRequest payload"),
     },
@@ -209,6 +225,7 @@ export function registerStorageTools(
     description:
       "Create multiple upload URLs for managed Athena storage files in one call.",
     name: "storage_file_upload_many",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe("CreateStorageUploadUrlsRequest payload"),
     },
@@ -222,6 +239,7 @@ export function registerStorageTools(
     description:
       "Confirm that a managed Athena storage upload completed and persist any final metadata.",
     name: "storage_file_confirm_upload",
+    annotations: toolHints.create,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       input: optionalGenericStorageInputSchema.describe(
@@ -241,6 +259,7 @@ export function registerStorageTools(
     description:
       "Upload small file content directly through MCP using either base64 or UTF-8 text.",
     name: "storage_file_upload_binary",
+    annotations: toolHints.create,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       body_base64: z
@@ -259,6 +278,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List managed Athena storage files.",
     name: "storage_file_list",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("ListStorageFilesRequest payload"),
     },
@@ -271,6 +291,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Search managed Athena storage files.",
     name: "storage_file_search",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("SearchStorageFilesRequest payload"),
     },
@@ -283,6 +304,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Get managed Athena storage file metadata.",
     name: "storage_file_get",
+    annotations: toolHints.read,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
     },
@@ -292,6 +314,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Update managed Athena storage file metadata.",
     name: "storage_file_update",
+    annotations: toolHints.update,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       input: genericStorageInputSchema.describe("UpdateStorageFileRequest payload"),
@@ -306,6 +329,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Update many managed Athena storage files in one call.",
     name: "storage_file_update_many",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe("UpdateManyStorageFilesRequest payload"),
     },
@@ -318,6 +342,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a managed Athena storage file.",
     name: "storage_file_delete",
+    annotations: toolHints.delete,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
     },
@@ -327,6 +352,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete many managed Athena storage files in one call.",
     name: "storage_file_delete_many",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("DeleteManyStorageFilesRequest payload"),
     },
@@ -339,6 +365,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Restore a soft-deleted managed Athena storage file.",
     name: "storage_file_restore",
+    annotations: toolHints.update,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
     },
@@ -348,6 +375,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Purge a managed Athena storage file permanently.",
     name: "storage_file_purge",
+    annotations: toolHints.delete,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
     },
@@ -357,6 +385,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Copy a managed Athena storage file.",
     name: "storage_file_copy",
+    annotations: toolHints.create,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       input: genericStorageInputSchema.describe("CopyStorageFileRequest payload"),
@@ -371,6 +400,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Generate a signed URL for a managed Athena storage file.",
     name: "storage_file_url",
+    annotations: toolHints.read,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       query: storageFileQuerySchema,
@@ -385,6 +415,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Generate the public URL for a managed Athena storage file.",
     name: "storage_file_public_url",
+    annotations: toolHints.read,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
     },
@@ -394,6 +425,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Generate the proxy URL for a managed Athena storage file.",
     name: "storage_file_proxy_url",
+    annotations: toolHints.read,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       query: storageFileQuerySchema,
@@ -411,6 +443,7 @@ export function registerStorageTools(
     description:
       "Proxy a managed Athena storage file and return response metadata plus text when the proxied content is text-based.",
     name: "storage_file_proxy",
+    annotations: toolHints.read,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       query: storageFileQuerySchema,
@@ -430,6 +463,7 @@ export function registerStorageTools(
     description:
       "PATCH-style visibility update for a managed Athena storage file.",
     name: "storage_file_visibility_update",
+    annotations: toolHints.update,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       input: genericStorageInputSchema.describe("SetStorageFileVisibilityRequest payload"),
@@ -447,6 +481,7 @@ export function registerStorageTools(
     description:
       "POST-style visibility update for a managed Athena storage file.",
     name: "storage_file_visibility_set",
+    annotations: toolHints.update,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       input: genericStorageInputSchema.describe("SetStorageFileVisibilityRequest payload"),
@@ -464,6 +499,7 @@ export function registerStorageTools(
     description:
       "Update visibility for many managed Athena storage files in one call.",
     name: "storage_file_visibility_set_many",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe(
         "SetManyStorageFileVisibilityRequest payload",
@@ -480,6 +516,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List managed Athena storage file versions.",
     name: "storage_file_versions",
+    annotations: toolHints.read,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
     },
@@ -489,6 +526,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Restore a specific managed Athena storage file version.",
     name: "storage_file_version_restore",
+    annotations: toolHints.update,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       version_id: z.string().describe("Managed storage file version ID"),
@@ -500,6 +538,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a specific managed Athena storage file version.",
     name: "storage_file_version_delete",
+    annotations: toolHints.delete,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       version_id: z.string().describe("Managed storage file version ID"),
@@ -511,6 +550,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Read retention settings for a managed Athena storage file.",
     name: "storage_file_retention_get",
+    annotations: toolHints.read,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       query: optionalGenericStorageInputSchema.describe(
@@ -529,6 +569,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Set retention settings for a managed Athena storage file.",
     name: "storage_file_retention_set",
+    annotations: toolHints.update,
     shape: {
       file_id: z.string().describe("Managed storage file ID"),
       input: genericStorageInputSchema.describe("StorageFileRetentionRequest payload"),
@@ -545,6 +586,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List managed Athena storage folders under a prefix.",
     name: "storage_folder_list",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("ListStorageFoldersRequest payload"),
     },
@@ -557,6 +599,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Return the managed Athena storage folder tree under a prefix.",
     name: "storage_folder_tree",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("TreeStorageFoldersRequest payload"),
     },
@@ -569,6 +612,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a managed Athena storage folder.",
     name: "storage_folder_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("DeleteStorageFolderRequest payload"),
     },
@@ -581,6 +625,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Move a managed Athena storage folder.",
     name: "storage_folder_move",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe("MoveStorageFolderRequest payload"),
     },
@@ -593,6 +638,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List file-level permissions for a managed Athena storage file.",
     name: "storage_permission_list",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StoragePermissionListRequest payload"),
     },
@@ -605,6 +651,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Grant a permission for a managed Athena storage file.",
     name: "storage_permission_grant",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe("StoragePermissionGrantRequest payload"),
     },
@@ -617,6 +664,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Revoke a permission for a managed Athena storage file.",
     name: "storage_permission_revoke",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("StoragePermissionRevokeRequest payload"),
     },
@@ -629,6 +677,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Check a permission for a managed Athena storage file.",
     name: "storage_permission_check",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StoragePermissionCheckRequest payload"),
     },
@@ -641,6 +690,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List raw S3-compatible objects through Athena storage.",
     name: "storage_object_list",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageListObjectsRequest payload"),
     },
@@ -653,6 +703,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Read object metadata with the raw S3-compatible storage binding.",
     name: "storage_object_head",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectRequest payload"),
     },
@@ -665,6 +716,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Check whether a raw storage object exists.",
     name: "storage_object_exists",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectRequest payload"),
     },
@@ -677,6 +729,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Validate a raw storage object checksum or ETag.",
     name: "storage_object_validate",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectValidateRequest payload"),
     },
@@ -689,6 +742,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Update object metadata or state with the raw storage binding.",
     name: "storage_object_update",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe("StorageUpdateObjectRequest payload"),
     },
@@ -701,6 +755,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Copy a raw storage object.",
     name: "storage_object_copy",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectCopyRequest payload"),
     },
@@ -713,6 +768,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create a signed URL for a raw storage object.",
     name: "storage_object_url",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectRequest payload"),
     },
@@ -725,6 +781,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create a public URL for a raw storage object.",
     name: "storage_object_public_url",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectPublicUrlRequest payload"),
     },
@@ -737,6 +794,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a raw storage object.",
     name: "storage_object_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectRequest payload"),
     },
@@ -749,6 +807,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create an upload URL for a raw storage object.",
     name: "storage_object_upload_url",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StoragePresignUploadRequest payload"),
     },
@@ -761,6 +820,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List versions for a raw storage object or prefix.",
     name: "storage_object_versions",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectVersionListRequest payload"),
     },
@@ -773,6 +833,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Restore a specific raw storage object version.",
     name: "storage_object_version_restore",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageObjectVersionMutationRequest payload",
@@ -789,6 +850,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a specific raw storage object version.",
     name: "storage_object_version_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageObjectVersionMutationRequest payload",
@@ -805,6 +867,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create a signed POST policy for a raw storage object upload.",
     name: "storage_object_post_policy",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageSignedPostPolicyRequest payload"),
     },
@@ -819,6 +882,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create a folder in the raw S3-compatible object namespace.",
     name: "storage_object_folder_create",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageObjectFolderCreateRequest payload",
@@ -835,6 +899,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a folder in the raw S3-compatible object namespace.",
     name: "storage_object_folder_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageObjectFolderDeleteRequest payload",
@@ -851,6 +916,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Rename a folder in the raw S3-compatible object namespace.",
     name: "storage_object_folder_rename",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageObjectFolderRenameRequest payload",
@@ -867,6 +933,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List buckets visible to the Athena storage binding.",
     name: "storage_bucket_list",
+    annotations: toolHints.read,
     shape: {
       input: optionalGenericStorageInputSchema.describe(
         "Optional StorageObjectBaseRequest payload without `bucket`",
@@ -881,6 +948,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create a bucket through the Athena storage binding.",
     name: "storage_bucket_create",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectBaseRequest payload"),
     },
@@ -893,6 +961,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete a bucket through the Athena storage binding.",
     name: "storage_bucket_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("StorageObjectBaseRequest payload"),
     },
@@ -905,6 +974,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Read bucket CORS configuration.",
     name: "storage_bucket_cors_get",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageBucketCorsRequest payload"),
     },
@@ -919,6 +989,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Set bucket CORS configuration.",
     name: "storage_bucket_cors_set",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe("StorageSetBucketCorsRequest payload"),
     },
@@ -933,6 +1004,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete bucket CORS configuration.",
     name: "storage_bucket_cors_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("StorageBucketCorsRequest payload"),
     },
@@ -947,6 +1019,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Read bucket lifecycle configuration.",
     name: "storage_bucket_lifecycle_get",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageBucketLifecycleRequest payload"),
     },
@@ -961,6 +1034,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Set bucket lifecycle configuration.",
     name: "storage_bucket_lifecycle_set",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageSetBucketLifecycleRequest payload",
@@ -977,6 +1051,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete bucket lifecycle configuration.",
     name: "storage_bucket_lifecycle_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("StorageBucketLifecycleRequest payload"),
     },
@@ -991,6 +1066,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Read bucket policy configuration.",
     name: "storage_bucket_policy_get",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageBucketPolicyRequest payload"),
     },
@@ -1005,6 +1081,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Set bucket policy configuration.",
     name: "storage_bucket_policy_set",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe("StorageSetBucketPolicyRequest payload"),
     },
@@ -1019,6 +1096,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete bucket policy configuration.",
     name: "storage_bucket_policy_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("StorageBucketPolicyRequest payload"),
     },
@@ -1033,6 +1111,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Read bucket public-access block configuration.",
     name: "storage_bucket_public_access_get",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe(
         "StoragePublicAccessBlockRequest payload",
@@ -1049,6 +1128,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Set bucket public-access block configuration.",
     name: "storage_bucket_public_access_set",
+    annotations: toolHints.update,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageSetPublicAccessBlockRequest payload",
@@ -1065,6 +1145,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Delete bucket public-access block configuration.",
     name: "storage_bucket_public_access_delete",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe(
         "StoragePublicAccessBlockRequest payload",
@@ -1081,6 +1162,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Create a multipart upload session for a managed storage file.",
     name: "storage_multipart_create",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe("StorageMultipartCreateRequest payload"),
     },
@@ -1093,6 +1175,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Sign a multipart upload part for a managed storage file.",
     name: "storage_multipart_sign_part",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageMultipartSignPartRequest payload"),
     },
@@ -1107,6 +1190,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Complete a multipart upload for a managed storage file.",
     name: "storage_multipart_complete",
+    annotations: toolHints.create,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageMultipartCompleteRequest payload",
@@ -1123,6 +1207,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "Abort a multipart upload for a managed storage file.",
     name: "storage_multipart_abort",
+    annotations: toolHints.delete,
     shape: {
       input: genericStorageInputSchema.describe("StorageMultipartAbortRequest payload"),
     },
@@ -1135,6 +1220,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List parts for a multipart upload on a managed storage file.",
     name: "storage_multipart_list_parts",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe(
         "StorageMultipartListPartsRequest payload",
@@ -1151,6 +1237,7 @@ export function registerStorageTools(
   registerStorageTool(server, runtime, {
     description: "List storage audit events.",
     name: "storage_audit_list",
+    annotations: toolHints.read,
     shape: {
       input: genericStorageInputSchema.describe("StorageAuditQueryRequest payload"),
     },